@@ -0,0 +1,131 @@
+// Headless AF detector benchmark against the MIT-BIH records
+// Usage: npm run benchmark:af -- [--data public] [--rhythm <data>/mitdb_rhythm.csv] [--af-records]
+//                                [--detected-beats] [--no-p-waves] [--min-se 0.9]
+// Records whose <id>_ekg.csv is missing from the data directory are skipped. Reference AF comes
+// from the rhythm table, else from an aux_note column of <id>_annotations_1.csv; records with
+// neither show detected burden only
+import fs from 'fs';
+import path from 'path';
+import {
+  AFBenchmarkRecord,
+  AF_RECORDS,
+  RhythmChange,
+  formatAFBenchmarkTable,
+  parseRhythmAnnotations,
+  parseRhythmTable,
+  rhythmSegments,
+  runAFBenchmark,
+  unmatchedRhythmChanges
+} from '../src/lib/afBenchmark';
+import { parseAnnotationCsv, parseECGCsv } from '../src/lib/qrsBenchmark';
+
+const SAMPLE_RATE = 360;
+
+interface CliOptions {
+  dataDir: string;
+  rhythmFile: string | null; // Defaults to <dataDir>/mitdb_rhythm.csv
+  afRecordsOnly: boolean;
+  useReferenceBeats: boolean;
+  usePWaves: boolean;
+  minSensitivity: number | null;
+}
+
+function parseArgs(argv: string[]): CliOptions {
+  const options: CliOptions = {
+    dataDir: 'public',
+    rhythmFile: null,
+    afRecordsOnly: false,
+    useReferenceBeats: true,
+    usePWaves: true,
+    minSensitivity: null
+  };
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === '--data') options.dataDir = argv[++i];
+    else if (arg === '--rhythm') options.rhythmFile = argv[++i];
+    else if (arg === '--af-records') options.afRecordsOnly = true;
+    else if (arg === '--detected-beats') options.useReferenceBeats = false;
+    else if (arg === '--no-p-waves') options.usePWaves = false;
+    else if (arg === '--min-se') options.minSensitivity = Number(argv[++i]);
+    else throw new Error(`Unknown argument: ${arg}`);
+  }
+
+  return options;
+}
+
+function loadRhythmTable(file: string, required: boolean): Map<string, RhythmChange[]> {
+  if (!fs.existsSync(file)) {
+    if (required) throw new Error(`Rhythm table ${file} not found`);
+    return new Map();
+  }
+  return parseRhythmTable(fs.readFileSync(file, 'utf8'));
+}
+
+function loadRecords(dataDir: string, rhythmTable: Map<string, RhythmChange[]>, afRecordsOnly: boolean): AFBenchmarkRecord[] {
+  const records: AFBenchmarkRecord[] = [];
+  const annotationFiles = fs.readdirSync(dataDir)
+    .filter(file => /^\d+_annotations_1\.csv$/.test(file))
+    .filter(file => !afRecordsOnly || AF_RECORDS.includes(file.split('_')[0]))
+    .sort();
+
+  for (const annFile of annotationFiles) {
+    const id = annFile.split('_')[0];
+    const ecgPath = path.join(dataDir, `${id}_ekg.csv`);
+    if (!fs.existsSync(ecgPath)) {
+      console.warn(`Skipping record ${id}: ${ecgPath} not found`);
+      continue;
+    }
+    const signal = parseECGCsv(fs.readFileSync(ecgPath, 'utf8'));
+    const annotations = fs.readFileSync(path.join(dataDir, annFile), 'utf8');
+    const changes = rhythmTable.get(id);
+    if (changes) {
+      const unmatched = unmatchedRhythmChanges(changes, annotations);
+      if (unmatched.length > 0) {
+        console.warn(`Record ${id}: ${unmatched.length} rhythm change(s) not on a '+' annotation, e.g. sample ${unmatched[0].index}`);
+      }
+    }
+    records.push({
+      id,
+      signal,
+      referenceBeats: parseAnnotationCsv(annotations),
+      rhythm: changes
+        ? rhythmSegments(changes, SAMPLE_RATE, signal.length)
+        : parseRhythmAnnotations(annotations, SAMPLE_RATE, signal.length)
+    });
+  }
+
+  return records;
+}
+
+function main(): number {
+  const options = parseArgs(process.argv.slice(2));
+  const rhythmTable = loadRhythmTable(
+    options.rhythmFile ?? path.join(options.dataDir, 'mitdb_rhythm.csv'),
+    options.rhythmFile !== null
+  );
+  const records = loadRecords(options.dataDir, rhythmTable, options.afRecordsOnly);
+  if (records.length === 0) {
+    console.error(`No records with both <id>_ekg.csv and <id>_annotations_1.csv in ${options.dataDir}`);
+    return 1;
+  }
+  if (!records.some(record => record.rhythm.length > 0)) {
+    console.warn('No rhythm labels (rhythm table or aux_note column) found: reporting detected AF burden only');
+  }
+
+  const summary = runAFBenchmark(records, {
+    sampleRate: SAMPLE_RATE,
+    useReferenceBeats: options.useReferenceBeats,
+    usePWaves: options.usePWaves
+  });
+  console.log(formatAFBenchmarkTable(summary));
+
+  const sensitivity = summary.gross.sensitivity;
+  if (options.minSensitivity !== null && sensitivity !== null && sensitivity < options.minSensitivity) {
+    console.error(`Gross AF sensitivity ${sensitivity.toFixed(4)} is below ${options.minSensitivity}`);
+    return 1;
+  }
+  return 0;
+}
+
+process.exitCode = main();
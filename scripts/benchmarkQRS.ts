@@ -0,0 +1,96 @@
+// Headless QRS detector benchmark against the MIT-BIH records
+// Usage: npm run benchmark:qrs -- [detector ...] [--data public] [--tolerance 150] [--min-f1 0.99] [--raw]
+// Records whose <id>_ekg.csv is missing from the data directory are skipped
+import fs from 'fs';
+import path from 'path';
+import {
+  BENCHMARK_DETECTOR_NAMES,
+  BenchmarkDetectorName,
+  BenchmarkRecord,
+  formatBenchmarkTable,
+  parseAnnotationCsv,
+  parseECGCsv,
+  runBenchmark
+} from '../src/lib/qrsBenchmark';
+
+interface CliOptions {
+  detectors: BenchmarkDetectorName[];
+  dataDir: string;
+  toleranceMs: number;
+  minF1: number | null;
+  prefilter: boolean;
+}
+
+function parseArgs(argv: string[]): CliOptions {
+  const options: CliOptions = {
+    detectors: [],
+    dataDir: 'public',
+    toleranceMs: 150,
+    minF1: null,
+    prefilter: true
+  };
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === '--data') options.dataDir = argv[++i];
+    else if (arg === '--tolerance') options.toleranceMs = Number(argv[++i]);
+    else if (arg === '--min-f1') options.minF1 = Number(argv[++i]);
+    else if (arg === '--raw') options.prefilter = false;
+    else if ((BENCHMARK_DETECTOR_NAMES as string[]).includes(arg)) options.detectors.push(arg as BenchmarkDetectorName);
+    else throw new Error(`Unknown argument: ${arg} (detectors: ${BENCHMARK_DETECTOR_NAMES.join(', ')})`);
+  }
+
+  if (options.detectors.length === 0) options.detectors = [...BENCHMARK_DETECTOR_NAMES];
+  return options;
+}
+
+function loadRecords(dataDir: string): BenchmarkRecord[] {
+  const records: BenchmarkRecord[] = [];
+  const annotationFiles = fs.readdirSync(dataDir)
+    .filter(file => /^\d+_annotations_1\.csv$/.test(file))
+    .sort();
+
+  for (const annFile of annotationFiles) {
+    const id = annFile.split('_')[0];
+    const ecgPath = path.join(dataDir, `${id}_ekg.csv`);
+    if (!fs.existsSync(ecgPath)) {
+      console.warn(`Skipping record ${id}: ${ecgPath} not found`);
+      continue;
+    }
+    records.push({
+      id,
+      signal: parseECGCsv(fs.readFileSync(ecgPath, 'utf8')),
+      referenceBeats: parseAnnotationCsv(fs.readFileSync(path.join(dataDir, annFile), 'utf8'))
+    });
+  }
+
+  return records;
+}
+
+function main(): number {
+  const options = parseArgs(process.argv.slice(2));
+  const records = loadRecords(options.dataDir);
+  if (records.length === 0) {
+    console.error(`No records with both <id>_ekg.csv and <id>_annotations_1.csv in ${options.dataDir}`);
+    return 1;
+  }
+
+  let failed = false;
+  for (const detector of options.detectors) {
+    const summary = runBenchmark(records, detector, {
+      toleranceMs: options.toleranceMs,
+      prefilter: options.prefilter
+    });
+    console.log(formatBenchmarkTable(summary));
+    console.log('');
+
+    if (options.minF1 !== null && summary.gross.f1 < options.minF1) {
+      console.error(`${detector}: gross F1 ${summary.gross.f1.toFixed(4)} is below ${options.minF1}`);
+      failed = true;
+    }
+  }
+
+  return failed ? 1 : 0;
+}
+
+process.exitCode = main();
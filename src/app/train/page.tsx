@@ -4,6 +4,7 @@ import React, { useState, useEffect, useRef } from 'react';
 import { trainBeatLevelECGModelAllFiles, classLabels, allFilePairs } from '@/lib/modelTrainer';
 import { checkModelExists } from '../../lib/modelTester';
 import ModelInspector from '../../components/ModelInspector';
+import QRSBenchmarkPanel from '../../components/QRSBenchmarkPanel';
 import NavBar from '../../components/NavBar';
 
 export default function TrainPage() {
@@ -205,6 +206,11 @@ export default function TrainPage() {
               <ModelInspector />
             </div>
           </div>
+
+          {/* QRS Detector Benchmark */}
+          <div className="mt-4 bg-black/40 backdrop-blur-sm border border-white/20 rounded-xl p-3">
+            <QRSBenchmarkPanel filePairs={allFilePairs} />
+          </div>
         </div>
       </div>
     </div>
@@ -0,0 +1,201 @@
+"use client";
+
+import React, { useState } from 'react';
+import { AAMI_CLASSES } from '../lib/modelTrainer';
+import { BeatClass } from '../lib/rhythmEpisodes';
+import { ClassifiedBeat } from '../lib/sessionAnalyzer';
+
+interface BeatBrowserProps {
+  beats: ClassifiedBeat[];
+  ecgData: number[]; // The analysis signal the R-peak indices refer to
+  sampleRate: number;
+}
+
+type BeatFilter = 'all' | BeatClass | 'unclassified' | 'poor-quality';
+
+const FILTER_LABELS: Record<BeatFilter, string> = {
+  all: 'All',
+  normal: 'Normal',
+  supraventricular: 'SVEB',
+  ventricular: 'VEB',
+  fusion: 'Fusion',
+  other: 'Other',
+  unclassified: 'Unclassified',
+  'poor-quality': 'Poor signal'
+};
+
+const CLASS_COLORS: Record<BeatClass, string> = {
+  normal: '#4ade80',
+  supraventricular: '#60a5fa',
+  ventricular: '#f87171',
+  fusion: '#facc15',
+  other: '#c084fc'
+};
+const UNCLASSIFIED_COLOR = '#9ca3af';
+
+const WIDTH = 600;
+const HEIGHT = 120;
+// Seconds of signal shown around the selected beat
+const VIEW_SECONDS = 3;
+
+const matchesFilter = (beat: ClassifiedBeat, filter: BeatFilter) =>
+  filter === 'all' ||
+  (filter === 'unclassified' && beat.label === null) ||
+  (filter === 'poor-quality' && beat.quality !== 'good') ||
+  beat.label === filter;
+
+const beatColor = (beat: ClassifiedBeat) => (beat.label ? CLASS_COLORS[beat.label] : UNCLASSIFIED_COLOR);
+
+const formatTime = (seconds: number) =>
+  `${Math.floor(seconds / 60)}:${(seconds % 60).toFixed(1).padStart(4, '0')}`;
+
+export default function BeatBrowser({ beats, ecgData, sampleRate }: BeatBrowserProps) {
+  const [filter, setFilter] = useState<BeatFilter>('all');
+  const [selected, setSelected] = useState(0);
+
+  const matches = beats.map((_, i) => i).filter(i => matchesFilter(beats[i], filter));
+  const beat = beats[selected];
+  if (!beat) return null;
+
+  const chooseFilter = (next: BeatFilter) => {
+    setFilter(next);
+    const first = beats.findIndex(b => matchesFilter(b, next));
+    if (first >= 0) setSelected(first);
+  };
+  const previous = [...matches].reverse().find(i => i < selected);
+  const next = matches.find(i => i > selected);
+  const position = matches.indexOf(selected);
+
+  // Waveform around the selected beat, with every beat in view marked in its class colour
+  const half = Math.round((VIEW_SECONDS / 2) * sampleRate);
+  const start = Math.max(0, beat.peak - half);
+  const end = Math.min(ecgData.length, beat.peak + half);
+  const samples = ecgData.slice(start, end);
+  const low = samples.length > 0 ? Math.min(...samples) : 0;
+  const high = samples.length > 0 ? Math.max(...samples) : 1;
+  const x = (index: number) => ((index - start) / (2 * half)) * WIDTH;
+  const y = (value: number) => HEIGHT - 8 - ((value - low) / (high - low || 1)) * (HEIGHT - 16);
+  const inView = beats.filter(b => b.peak >= start && b.peak < end);
+
+  const rrBefore = selected > 0 ? ((beat.peak - beats[selected - 1].peak) / sampleRate) * 1000 : null;
+  const rrAfter = selected + 1 < beats.length ? ((beats[selected + 1].peak - beat.peak) / sampleRate) * 1000 : null;
+
+  return (
+    <div>
+      <div className="flex flex-wrap gap-1 mb-2">
+        {(Object.keys(FILTER_LABELS) as BeatFilter[]).map(key => {
+          const count = beats.filter(b => matchesFilter(b, key)).length;
+          return (
+            <button
+              key={key}
+              onClick={() => chooseFilter(key)}
+              disabled={count === 0}
+              className={`text-xs px-2 py-0.5 rounded border ${filter === key
+                ? 'bg-blue-500/20 text-blue-300 border-blue-500/40'
+                : 'bg-slate-900/60 text-gray-400 border-slate-700/50 hover:text-white disabled:opacity-40 disabled:hover:text-gray-400'
+                }`}
+            >
+              {FILTER_LABELS[key]} ({count})
+            </button>
+          );
+        })}
+      </div>
+
+      <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-28 bg-slate-900/50 rounded">
+        <line x1={x(beat.peak)} x2={x(beat.peak)} y1={0} y2={HEIGHT} stroke="rgba(255,255,255,0.25)" />
+        <polyline
+          points={samples.map((value, i) => `${x(start + i).toFixed(1)},${y(value).toFixed(1)}`).join(' ')}
+          fill="none"
+          stroke="#e5e7eb"
+          strokeWidth={1}
+        />
+        {inView.map(b => (
+          <circle
+            key={b.peak}
+            cx={x(b.peak)}
+            cy={y(ecgData[b.peak]) - 6}
+            r={b.peak === beat.peak ? 4 : 2.5}
+            fill={beatColor(b)}
+            className="cursor-pointer"
+            onClick={() => setSelected(beats.indexOf(b))}
+          />
+        ))}
+      </svg>
+
+      <div className="flex items-center gap-2 mt-2 text-xs">
+        <button
+          onClick={() => previous !== undefined && setSelected(previous)}
+          disabled={previous === undefined}
+          className="px-2 py-0.5 rounded bg-slate-900/60 border border-slate-700/50 text-gray-300 disabled:opacity-40"
+        >
+          ◀ Prev
+        </button>
+        <input
+          type="range"
+          min={0}
+          max={Math.max(0, matches.length - 1)}
+          value={Math.max(0, position)}
+          onChange={e => setSelected(matches[Number(e.target.value)])}
+          disabled={matches.length < 2}
+          className="flex-1"
+        />
+        <button
+          onClick={() => next !== undefined && setSelected(next)}
+          disabled={next === undefined}
+          className="px-2 py-0.5 rounded bg-slate-900/60 border border-slate-700/50 text-gray-300 disabled:opacity-40"
+        >
+          Next ▶
+        </button>
+        <span className="text-gray-500 w-28 text-right">
+          {position >= 0 ? `${position + 1} of ${matches.length}` : `${matches.length} match`}
+        </span>
+      </div>
+
+      <div className="grid grid-cols-2 gap-3 mt-2 text-xs">
+        <div className="space-y-0.5">
+          <div>
+            <span className="text-gray-500">Beat </span>
+            <span className="font-mono">#{selected + 1}</span>
+            <span className="text-gray-500"> at </span>
+            <span className="font-mono">{formatTime(beat.peak / sampleRate)}</span>
+          </div>
+          <div>
+            <span className="text-gray-500">Class </span>
+            <span style={{ color: beatColor(beat) }}>{beat.label ?? 'Unclassified'}</span>
+          </div>
+          <div>
+            <span className="text-gray-500">RR before / after </span>
+            <span className="font-mono">
+              {rrBefore !== null ? rrBefore.toFixed(0) : '--'} / {rrAfter !== null ? rrAfter.toFixed(0) : '--'} ms
+            </span>
+          </div>
+          <div>
+            <span className="text-gray-500">Signal </span>
+            <span className={beat.quality === 'good' ? 'text-green-400' : 'text-yellow-400'}>{beat.quality}</span>
+          </div>
+        </div>
+        <div className="space-y-0.5">
+          {beat.probabilities ? (
+            AAMI_CLASSES.map((name, i) => (
+              <div key={name} className="flex items-center gap-2">
+                <span className="w-24 text-gray-400">{name}</span>
+                <div className="flex-1 h-1.5 bg-slate-700 rounded overflow-hidden">
+                  <div
+                    className="h-full"
+                    style={{
+                      width: `${(beat.probabilities?.[i] ?? 0) * 100}%`,
+                      backgroundColor: CLASS_COLORS[name.toLowerCase() as BeatClass]
+                    }}
+                  />
+                </div>
+                <span className="w-10 text-right font-mono">{((beat.probabilities?.[i] ?? 0) * 100).toFixed(0)}%</span>
+              </div>
+            ))
+          ) : (
+            <div className="text-gray-500">Not classified</div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
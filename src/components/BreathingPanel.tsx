@@ -0,0 +1,246 @@
+"use client";
+
+import React, { useEffect, useRef, useState } from 'react';
+import { Wind } from 'lucide-react';
+import { HRVBeat } from '../lib/hrvWindows';
+import {
+  ANALYSIS_WINDOW_S,
+  BiofeedbackMetrics,
+  BiofeedbackSample,
+  BreathingSessionData,
+  DEFAULT_BREATHS_PER_MINUTE,
+  ResonanceProtocol,
+  ResonanceProtocolResult,
+  computeBiofeedback,
+  pacerState
+} from '../lib/breathingBiofeedback';
+
+interface BreathingPanelProps {
+  getBeatsSince: (time: number) => HRVBeat[]; // Beats from the live HRV calculator after a time on its clock
+  getClockTime: () => number;                 // Current time on that clock, seconds
+  onComplete: (session: BreathingSessionData) => void;
+  onClose: () => void;
+}
+
+type BreathingMode = BreathingSessionData['mode'];
+
+const SIZE = 160;
+const MIN_RADIUS = 28;
+const MAX_RADIUS = 70;
+
+function buildSession(
+  mode: BreathingMode,
+  startTime: number,
+  breathsPerMinute: number,
+  samples: BiofeedbackSample[],
+  protocol: ResonanceProtocol | null
+): BreathingSessionData {
+  return {
+    mode,
+    startTime,
+    durationSeconds: (Date.now() - startTime) / 1000,
+    breathsPerMinute,
+    samples: [...samples],
+    protocol: protocol ? protocol.getResult() : undefined
+  };
+}
+
+export default function BreathingPanel({ getBeatsSince, getClockTime, onComplete, onClose }: BreathingPanelProps) {
+  const [breathsPerMinute, setBreathsPerMinute] = useState(DEFAULT_BREATHS_PER_MINUTE);
+  const [mode, setMode] = useState<BreathingMode | null>(null);
+  const [elapsed, setElapsed] = useState(0);
+  const [metrics, setMetrics] = useState<BiofeedbackMetrics | null>(null);
+  const [result, setResult] = useState<ResonanceProtocolResult | null>(null);
+
+  const startTime = useRef(0);
+  const startClock = useRef(0); // Start on the HRV calculator's clock
+  const samples = useRef<BiofeedbackSample[]>([]);
+  const protocol = useRef<ResonanceProtocol | null>(null);
+  // Session being breathed, until it has been handed to the recording
+  const active = useRef<BreathingMode | null>(null);
+  // Latest callbacks and rate, so the timers below don't restart on every parent render
+  const callbacks = useRef({ getBeatsSince, getClockTime, onComplete });
+  callbacks.current = { getBeatsSince, getClockTime, onComplete };
+  const pacedRate = useRef(breathsPerMinute);
+  pacedRate.current = breathsPerMinute;
+
+  // Save the session once, whether it finishes, is stopped or the panel is closed mid-way
+  const save = useRef(() => {
+    const current = active.current;
+    if (!current) return;
+    active.current = null;
+    const seconds = (Date.now() - startTime.current) / 1000;
+    const rate = protocol.current?.stepAt(seconds)?.breathsPerMinute ?? pacedRate.current;
+    callbacks.current.onComplete(buildSession(current, startTime.current, rate, samples.current, protocol.current));
+    setMode(null);
+  });
+
+  useEffect(() => {
+    const saveOnUnmount = save.current;
+    return () => saveOnUnmount();
+  }, []);
+
+  const start = (next: BreathingMode) => {
+    startTime.current = Date.now();
+    startClock.current = getClockTime();
+    samples.current = [];
+    protocol.current = next === 'resonance' ? new ResonanceProtocol() : null;
+    active.current = next;
+    setElapsed(0);
+    setMetrics(null);
+    setResult(null);
+    setMode(next);
+  };
+
+  const stop = () => save.current();
+
+  useEffect(() => {
+    if (!mode) return;
+
+    const animation = setInterval(() => setElapsed((Date.now() - startTime.current) / 1000), 50);
+    const scoring = setInterval(() => {
+      const seconds = (Date.now() - startTime.current) / 1000;
+      const { getBeatsSince, getClockTime } = callbacks.current;
+      const step = protocol.current?.stepAt(seconds);
+      const rate = step ? step.breathsPerMinute : breathsPerMinute;
+
+      const current = computeBiofeedback(getBeatsSince(getClockTime() - ANALYSIS_WINDOW_S), rate);
+      setMetrics(current);
+      if (current) samples.current.push({ time: seconds, ...current });
+
+      if (protocol.current) {
+        // Beats since the start, timed from it, so each step is scored on its own window
+        const beats = getBeatsSince(startClock.current).map(beat => ({ ...beat, time: beat.time - startClock.current }));
+        const finished = protocol.current.update(seconds, beats);
+        setResult(protocol.current.getResult());
+        if (finished) save.current();
+      }
+    }, 1000);
+
+    return () => {
+      clearInterval(animation);
+      clearInterval(scoring);
+    };
+  }, [mode, breathsPerMinute]);
+
+  const step = mode === 'resonance' ? protocol.current?.stepAt(elapsed) ?? null : null;
+  const rate = step ? step.breathsPerMinute : breathsPerMinute;
+  const pacer = mode ? pacerState(elapsed - (step ? step.startSeconds : 0), rate) : null;
+  const radius = MIN_RADIUS + (MAX_RADIUS - MIN_RADIUS) * (pacer ? pacer.volume : 0);
+
+  return (
+    <div className="absolute left-20 top-4 w-80 bg-black/60 backdrop-blur-sm border border-white/20 rounded-xl p-4 text-white z-30">
+      <div className="flex items-center justify-between mb-2">
+        <h3 className="text-lg font-bold flex items-center gap-2">
+          <Wind className="w-5 h-5 text-teal-400" />
+          Paced Breathing
+        </h3>
+        <button onClick={onClose} className="text-gray-400 hover:text-white">
+          ✕
+        </button>
+      </div>
+
+      <svg viewBox={`0 0 ${SIZE} ${SIZE}`} className="w-40 h-40 mx-auto block">
+        <circle cx={SIZE / 2} cy={SIZE / 2} r={MAX_RADIUS} fill="none" stroke="rgba(255,255,255,0.1)" />
+        <circle cx={SIZE / 2} cy={SIZE / 2} r={radius} fill="rgba(45,212,191,0.25)" stroke="#2dd4bf" strokeWidth={2} />
+        <text x={SIZE / 2} y={SIZE / 2 + 4} fontSize={12} fill="#e5e7eb" textAnchor="middle">
+          {pacer ? (pacer.phase === 'inhale' ? 'Breathe in' : 'Breathe out') : 'Ready'}
+        </text>
+      </svg>
+
+      <div className="flex items-center gap-2 mt-2 text-sm">
+        <span className="text-gray-400">Rate</span>
+        <input
+          type="range"
+          min={3}
+          max={12}
+          step={0.5}
+          value={rate}
+          disabled={mode === 'resonance'}
+          onChange={e => setBreathsPerMinute(parseFloat(e.target.value))}
+          className="flex-1"
+        />
+        <span className="font-mono w-20 text-right">{rate.toFixed(1)} /min</span>
+      </div>
+
+      <div className="grid grid-cols-2 gap-2 mt-3 text-center">
+        <div className="p-2 rounded-lg border border-white/20 bg-black/40">
+          <div className="text-xs text-gray-400">RSA Amplitude</div>
+          <div className="font-mono font-bold text-teal-400">
+            {metrics ? `${metrics.rsaAmplitude.toFixed(1)} BPM` : '--'}
+          </div>
+        </div>
+        <div className="p-2 rounded-lg border border-white/20 bg-black/40">
+          <div className="text-xs text-gray-400">Coherence</div>
+          <div className="font-mono font-bold text-purple-400">
+            {metrics ? `${metrics.coherence.toFixed(0)}%` : '--'}
+          </div>
+        </div>
+      </div>
+      {mode && !metrics && (
+        <p className="text-xs text-gray-500 mt-2">Scores appear once the last {ANALYSIS_WINDOW_S}s holds enough beats</p>
+      )}
+
+      {step && protocol.current && (
+        <p className="text-xs text-gray-400 mt-2">
+          Step {step.index + 1} of {protocol.current.stepCount}: {step.breathsPerMinute} breaths/min,{' '}
+          {Math.ceil(step.remainingSeconds)}s left
+        </p>
+      )}
+
+      {result && result.steps.length > 0 && (
+        <table className="w-full text-xs text-gray-300 mt-2">
+          <thead>
+            <tr className="text-gray-500">
+              <th className="text-left font-normal">Rate</th>
+              <th className="text-right font-normal">RSA BPM</th>
+              <th className="text-right font-normal">Coherence</th>
+            </tr>
+          </thead>
+          <tbody className="font-mono">
+            {result.steps.map(s => (
+              <tr key={s.breathsPerMinute} className={s.breathsPerMinute === result.resonanceRate ? 'text-teal-400' : ''}>
+                <td>{s.breathsPerMinute}</td>
+                <td className="text-right">{s.rsaAmplitude?.toFixed(1) ?? '--'}</td>
+                <td className="text-right">{s.coherence !== null ? `${s.coherence.toFixed(0)}%` : '--'}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+      {result && !mode && result.resonanceRate !== null && (
+        <p className="text-sm text-teal-400 mt-2">Resonance frequency: {result.resonanceRate} breaths/min</p>
+      )}
+
+      <div className="flex gap-2 mt-3">
+        {mode ? (
+          <button
+            onClick={stop}
+            className="flex-1 py-1.5 rounded-lg bg-red-500/20 text-red-400 border border-red-500/30 hover:bg-red-500/30 text-sm"
+          >
+            Stop
+          </button>
+        ) : (
+          <>
+            <button
+              onClick={() => start('paced')}
+              className="flex-1 py-1.5 rounded-lg bg-teal-500/20 text-teal-400 border border-teal-500/30 hover:bg-teal-500/30 text-sm"
+            >
+              Start
+            </button>
+            <button
+              onClick={() => start('resonance')}
+              className="flex-1 py-1.5 rounded-lg bg-purple-500/20 text-purple-400 border border-purple-500/30 hover:bg-purple-500/30 text-sm"
+            >
+              Find Resonance
+            </button>
+          </>
+        )}
+      </div>
+      <div className="text-xs text-gray-400 mt-2">
+        Follow the circle. Finding your resonance breathes 7 down to 4.5 breaths/min for 2 minutes each and picks the
+        rate with the largest heart rate swing. Results are saved to the recording in progress.
+      </div>
+    </div>
+  );
+}
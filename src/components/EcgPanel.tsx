@@ -1,19 +1,34 @@
 "use client";
 import React, { useEffect, useRef, useState } from "react";
-import { Bluetooth, Eye, EyeOff, Activity, Zap, BarChart3, TrendingUp, Play, Square, Clock } from "lucide-react";
+import { Bluetooth, Eye, EyeOff, Activity, Zap, BarChart3, TrendingUp, Play, Square, Clock, Crosshair, HeartPulse, Wind, Sun } from "lucide-react";
 import { WebglPlot, WebglLine, ColorRGBA } from "webgl-plot";
-import { BPMCalculator, filterQRS } from '../lib/bpmCalculator';
-import { HighpassFilter, NotchFilter, LowpassFilter } from "../lib/filters";
+import { BPMCalculator, BPMMode, filterQRS } from '../lib/bpmCalculator';
+import { ECGFilterChain, createFilterConfig, MAINS_NOTCH_PRESETS, MainsFrequency, BaselineMethod } from "../lib/filters";
+import { detectMainsFrequency } from "../lib/mainsDetector";
 import { HRVCalculator } from '../lib/hrvCalculator';
-import { PQRSTDetector, PQRSTPoint } from '../lib/pqrstDetector';
+import { HRVSpectrum } from '../lib/hrvSpectral';
+import { NonlinearHRV } from '../lib/hrvNonlinear';
+import { RRCorrectionResult, RR_ARTIFACT_LABELS, RRArtifactType } from '../lib/rrCorrection';
+import { HeartRateBeat, HeartRateTrend, HeartRateWindowStats } from '../lib/heartRateTrend';
+import { PQRSTDetector, PQRSTPoint, WAVE_BOUNDARY_TYPES, WaveBoundaryType } from '../lib/pqrstDetector';
 import { PanTompkinsDetector } from '../lib/panTompkinsDetector';
-import { ECGIntervalCalculator, ECGIntervals } from '../lib/ecgIntervals';
+import { QRSDetector, QRSDetectorName, QRS_DETECTOR_LABELS, createQRSDetector } from '../lib/qrsDetectors';
+import { ECGIntervalCalculator, ECGIntervals, QTC_FORMULAS, QTC_FORMULA_LABELS, QTcFormula } from '../lib/ecgIntervals';
+import { STAnalysis, STSegmentAnalyzer } from '../lib/stSegment';
 import * as tf from "@tensorflow/tfjs";
 import { checkModelExists } from '../lib/modelTester';
 import { zscoreNorm } from "../lib/modelTrainer";
 import SessionRecording, { PatientInfo, RecordingSession } from './SessionRecording';
 import { SessionAnalyzer, SessionAnalysisResults } from '../lib/sessionAnalyzer';
 import SessionReport from './SessionReport';
+import TachogramPanel from './TachogramPanel';
+import PoincarePlot from './PoincarePlot';
+import HRVTrendChart from './HRVTrendChart';
+import BreathingPanel from './BreathingPanel';
+import ReadinessPanel from './ReadinessPanel';
+import { BreathingSessionData } from '../lib/breathingBiofeedback';
+import { STRESS_STATE_COLORS, StressAssessment, StressBaselineStore } from '../lib/stressIndex';
+import { HRV_WINDOW_PRESETS, HRVWindowPoint } from '../lib/hrvWindows';
 import { AAMI_CLASSES } from "../lib/modelTrainer";
 
 const SERVICE_UUID = "4fafc201-1fb5-459e-8fcc-c5c9c331914b";
@@ -22,22 +37,48 @@ const CONTROL_CHAR_UUID = "0000ff01-0000-1000-8000-00805f9b34fb";
 
 const NUM_POINTS = 1000; // Updated: 1000 points ≈ 2.78 seconds at 360Hz
 const SAMPLE_RATE = 360; // 360Hz sampling rate
+// Millivolts at the electrodes per normalized unit ((raw - 2048) / 2048, i.e. half the ADC range
+// divided by the front-end gain). Unknown for the stock board, so ST levels stay uncalibrated
+const ECG_MV_PER_UNIT: number | null = null;
 const MODEL_INPUT_LENGTH = 135; // 135 samples ≈ 375ms at 360Hz
 const SINGLE_SAMPLE_LEN = 7;
 const NEW_PACKET_LEN = 7 * 10;
 const BATCH_SIZE = 20;
+const MAINS_DETECTION_SAMPLES = NUM_POINTS; // First full buffer (≈2.78s) is used to detect mains hum
+const DEFAULT_MAINS_FREQUENCY: MainsFrequency = 50; // Used when no hum stands out (e.g. battery-only setups)
+const MAX_LOGGED_PEAKS = 64; // Streaming R-peaks kept, comfortably more than fit in one buffer
+const MIN_RR_SAMPLES = Math.round(0.2 * SAMPLE_RATE); // 200ms, closer detections are the same beat
+const BATCH_SETTLE_SAMPLES = Math.round(0.3 * SAMPLE_RATE); // Batch detectors ignore the newest 300ms (QRS may be incomplete)
+const QRS_DETECTOR_ORDER = Object.keys(QRS_DETECTOR_LABELS) as QRSDetectorName[];
+const TACHOGRAM_WINDOW_SECONDS = 60;
+const BASELINE_METHOD: BaselineMethod = 'median'; // Two-stage median keeps the ST level isoelectric (≈400ms display lag)
+
+// Notch stays off until the mains frequency has been detected from the incoming signal
+const UNNOTCHED_FILTER_CONFIG = createFilterConfig(SAMPLE_RATE, {
+    baseline: BASELINE_METHOD,
+    notch: { ...MAINS_NOTCH_PRESETS[DEFAULT_MAINS_FREQUENCY], harmonics: 0 }
+});
 
 export default function EcgFullPanel() {
     const canvasRef = useRef<HTMLCanvasElement>(null);
     const [connected, setConnected] = useState(false);
     const [startTime, setStartTime] = useState<number | null>(null);
     const [bpmDisplay, setBpmDisplay] = useState("-- BPM");
+    const [bpmMode, setBpmMode] = useState<BPMMode>('instantaneous');
     const [peaksVisible, setPeaksVisible] = useState(true);
     const [timer, setTimer] = useState("00:00");
     const [showHRV, setShowHRV] = useState(false);
     const [classLabels, setClassLabels] = useState<string[]>(AAMI_CLASSES);
     const [showPQRST, setShowPQRST] = useState(false);
     const [showIntervals, setShowIntervals] = useState(false);
+    const [showTachogram, setShowTachogram] = useState(false);
+    const [showBreathing, setShowBreathing] = useState(false);
+    const [showReadiness, setShowReadiness] = useState(false);
+    const [tachogram, setTachogram] = useState<{
+        beats: HeartRateBeat[];
+        stats: HeartRateWindowStats | null;
+        now: number;
+    }>({ beats: [], stats: null, now: Date.now() });
     const [signalQuality, setSignalQuality] = useState<'good' | 'poor' | 'no-signal'>('no-signal');
 
     // Add these states to your component
@@ -50,10 +91,14 @@ export default function EcgFullPanel() {
     const [showSessionReport, setShowSessionReport] = useState(false);
     const sessionAnalyzer = useRef(new SessionAnalyzer(SAMPLE_RATE));
 
-    // Update this state for physiological state
-    const [physioState, setPhysioState] = useState<{ state: string; confidence: number }>({
+    // Stress/recovery assessment with the factors behind it
+    const [physioState, setPhysioState] = useState<StressAssessment>({
         state: "Analyzing",
-        confidence: 0
+        score: 0,
+        confidence: 0,
+        stressIndex: null,
+        rmssdZScore: null,
+        factors: []
     });
 
     type HRVMetrics = {
@@ -72,12 +117,19 @@ export default function EcgFullPanel() {
             hf: number;
             ratio: number;
         };
+        frequency?: { welch: HRVSpectrum | null; lombScargle: HRVSpectrum | null };
+        nonlinear?: NonlinearHRV;
+        correction?: RRCorrectionResult;
         // Add any other fields returned by getAllMetrics()
     };
 
     const [hrvMetrics, setHrvMetrics] = useState<HRVMetrics | null>(null);
+    const [hrvRR, setHrvRR] = useState<number[]>([]); // Corrected intervals behind hrvMetrics, for the Poincaré plot
+    const [hrvWindow, setHrvWindow] = useState<string>('1 min'); // Key of HRV_WINDOW_PRESETS
+    const [hrvHistory, setHrvHistory] = useState<HRVWindowPoint[]>([]);
     const [ecgIntervals, setEcgIntervals] = useState<ECGIntervals | null>(null);
     const [gender, setGender] = useState<'male' | 'female'>('male');
+    const [qtcFormula, setQtcFormula] = useState<QTcFormula>('bazett');
 
     const [modelLoaded, setModelLoaded] = useState(false);
     const [ecgModel, setEcgModel] = useState<tf.LayersModel | null>(null);
@@ -114,11 +166,14 @@ export default function EcgFullPanel() {
     const dataCh0 = useRef(new Array(NUM_POINTS).fill(0));
     const peakData = useRef(new Array(NUM_POINTS).fill(0));
     const sampleIndex = useRef(0);
-    const highpass = useRef(new HighpassFilter()); // Updated filter for 360Hz
-    const notch = useRef(new NotchFilter()); // Updated filter for 360Hz
-    const ecg = useRef(new LowpassFilter()); // Updated filter for 360Hz
+    const filterChain = useRef(new ECGFilterChain(UNNOTCHED_FILTER_CONFIG)); // Designed for SAMPLE_RATE
+    const samplesReceived = useRef(0);
+    const isRecordingRef = useRef(false); // Readable from the BLE notification handler
+    const rawRecording = useRef<number[]>([]);
+    const [mainsFrequency, setMainsFrequency] = useState<MainsFrequency | null>(null);
     const bpmCalculator = useRef(new BPMCalculator(SAMPLE_RATE, 5, 40, 200));
     const hrvCalculator = useRef(new HRVCalculator());
+    const heartRateTrend = useRef(new HeartRateTrend(SAMPLE_RATE));
     const pqrstDetector = useRef(new PQRSTDetector(SAMPLE_RATE));
     const pqrstPoints = useRef<PQRSTPoint[]>([]);
     const pLineRef = useRef<WebglLine | null>(null);
@@ -127,19 +182,18 @@ export default function EcgFullPanel() {
     const sLineRef = useRef<WebglLine | null>(null);
     const tLineRef = useRef<WebglLine | null>(null);
     const panTompkins = useRef(new PanTompkinsDetector(SAMPLE_RATE));
+    const rPeakLog = useRef<number[]>([]); // Absolute sample indices of detected R-peaks
+    const [qrsDetectorName, setQrsDetectorName] = useState<QRSDetectorName>('pan-tompkins');
+    const qrsDetectorRef = useRef<QRSDetectorName>('pan-tompkins'); // Readable from the BLE notification handler
+    const batchDetector = useRef<QRSDetector | null>(null); // null while the streaming Pan-Tompkins is selected
     const intervalCalculator = useRef(new ECGIntervalCalculator(SAMPLE_RATE));
 
     // Add this state to store currently visible PQRST points
     const [visiblePQRST, setVisiblePQRST] = useState<PQRSTPoint[]>([]);
 
-    // Add this type definition with your other types
-    type STSegmentData = {
-        deviation: number;
-        status: 'normal' | 'elevation' | 'depression';
-    };
-
-    // Add this state inside your component
-    const [stSegmentData, setSTSegmentData] = useState<STSegmentData | null>(null);
+    // ST level of the beats in the display buffer, measured like the session report
+    const stAnalyzer = useRef(new STSegmentAnalyzer(SAMPLE_RATE, ECG_MV_PER_UNIT));
+    const [stSegmentData, setSTSegmentData] = useState<STAnalysis | null>(null);
 
     // Add to EcgFullPanel component
     const [beatPredictions, setBeatPredictions] = useState<{ prediction: string, confidence: number }[]>([]);
@@ -257,6 +311,62 @@ export default function EcgFullPanel() {
     const prevHrvMetrics = useRef<HRVMetrics | null>(null);
     const lastProcessedPeak = useRef<number | null>(null);
 
+    // Absolute R-peak indices that are still inside the display buffer
+    function getRecentRPeaks(): number[] {
+        const oldest = samplesReceived.current - NUM_POINTS;
+        return rPeakLog.current.filter(index => index >= oldest);
+    }
+
+    // Position of an absolute sample index in the circular dataCh0 buffer
+    function toBufferIndex(absoluteIndex: number): number {
+        const position = sampleIndex.current - (samplesReceived.current - absoluteIndex);
+        return ((position % NUM_POINTS) + NUM_POINTS) % NUM_POINTS;
+    }
+
+    // Append an R-peak to the log and feed the new RR interval to the HRV calculator
+    function logRPeak(index: number) {
+        const previous = rPeakLog.current[rPeakLog.current.length - 1];
+        if (previous !== undefined) {
+            if (index - previous < MIN_RR_SAMPLES) return;
+            hrvCalculator.current.addRRInterval((index - previous) / SAMPLE_RATE * 1000);
+            bpmCalculator.current.addRRInterval(index - previous);
+        }
+        // Peaks are logged a little after they occur; back-date the timestamp to the R-peak itself
+        heartRateTrend.current.addBeat(index, Date.now() - (samplesReceived.current - index) / SAMPLE_RATE * 1000);
+        rPeakLog.current.push(index);
+        if (rPeakLog.current.length > MAX_LOGGED_PEAKS) rPeakLog.current.shift();
+    }
+
+    // The circular buffer in time order; sample i of the copy is absolute sample offset + i
+    function unwrapBuffer(): { unwrapped: number[]; offset: number } {
+        return {
+            unwrapped: [
+                ...dataCh0.current.slice(sampleIndex.current),
+                ...dataCh0.current.slice(0, sampleIndex.current)
+            ],
+            offset: samplesReceived.current - NUM_POINTS
+        };
+    }
+
+    // Batch detectors re-run on the unwrapped buffer; beats not logged yet are appended
+    function logBatchPeaks(detector: QRSDetector) {
+        const { unwrapped, offset } = unwrapBuffer();
+        const settled = samplesReceived.current - BATCH_SETTLE_SAMPLES;
+        const lastLogged = rPeakLog.current[rPeakLog.current.length - 1] ?? -Infinity;
+
+        detector.detectQRS(unwrapped)
+            .map(index => index + offset)
+            .filter(index => index >= 0 && index > lastLogged && index < settled)
+            .forEach(logRPeak);
+    }
+
+    function selectQRSDetector(name: QRSDetectorName) {
+        qrsDetectorRef.current = name;
+        batchDetector.current = name === 'pan-tompkins' ? null : createQRSDetector(name, SAMPLE_RATE);
+        sessionAnalyzer.current.setQRSDetector(name);
+        setQrsDetectorName(name);
+    }
+
     function updatePeaks() {
         // Add debug for signal diagnostics
         const maxAbs = Math.max(...dataCh0.current.map(Math.abs));
@@ -273,17 +383,27 @@ export default function EcgFullPanel() {
             return;
         }
 
-        // Use Pan-Tompkins algorithm for peak detection
-        const peaks = panTompkins.current.detectQRS(dataCh0.current);
+        // R-peaks from the selected detector, mapped onto the circular buffer
+        if (batchDetector.current) {
+            logBatchPeaks(batchDetector.current);
+        }
+        const recentPeaks = getRecentRPeaks();
+        const peaks = recentPeaks.map(toBufferIndex);
+
+        // Delineation and ST run on the buffer in time order, so beats don't straddle the
+        // write pointer and every point carries its absolute sample position
+        const { unwrapped, offset } = unwrapBuffer();
+        const orderedPeaks = recentPeaks.map(index => index - offset);
 
         // Fall back to original algorithm if Pan-Tompkins doesn't find peaks
         let usedPanTompkins = peaks.length > 0;
 
         if (!usedPanTompkins) {
 
-            const originalPeaks = bpmCalculator.current.detectPeaks(dataCh0.current);
+            const originalPeaks = bpmCalculator.current.detectPeaks(unwrapped);
             if (originalPeaks.length > 0) {
-                peaks.push(...originalPeaks);
+                orderedPeaks.push(...originalPeaks);
+                peaks.push(...originalPeaks.map(index => toBufferIndex(index + offset)));
             }
         }
 
@@ -292,13 +412,15 @@ export default function EcgFullPanel() {
         peakData.current = bpmCalculator.current.generatePeakVisualization(dataCh0.current, peaks);
 
 
-        // Try to detect PQRST waves
-        let pqrstDetected = false;
+        // Try to detect PQRST waves; the display keeps buffer positions
+        let delineated: PQRSTPoint[] = [];
+        const toDisplay = (points: PQRSTPoint[]) =>
+            points.map(point => ({ ...point, index: toBufferIndex(point.absolutePosition) }));
 
-        if (peaks.length >= 1) {
+        if (orderedPeaks.length >= 1) {
             // Existing PQRST detection with peaks
-            pqrstPoints.current = pqrstDetector.current.detectWaves(dataCh0.current, peaks);
-            pqrstDetected = pqrstPoints.current.length > 0;
+            delineated = pqrstDetector.current.delineateWaves(unwrapped, orderedPeaks, offset);
+            pqrstPoints.current = toDisplay(delineated);
 
             if (showPQRST) {
                 setVisiblePQRST([...pqrstPoints.current]);
@@ -306,9 +428,10 @@ export default function EcgFullPanel() {
         }
 
         // If standard detection failed, try direct detection
-        if (!pqrstDetected) {
+        if (delineated.length === 0) {
 
-            pqrstPoints.current = pqrstDetector.current.detectDirectWaves(dataCh0.current, sampleIndex.current);
+            delineated = pqrstDetector.current.detectDirectWaves(unwrapped, offset);
+            pqrstPoints.current = toDisplay(delineated);
 
             if (showPQRST && pqrstPoints.current.length > 0) {
                 setVisiblePQRST([...pqrstPoints.current]);
@@ -318,40 +441,39 @@ export default function EcgFullPanel() {
         }
 
 
-        // Extract RR intervals for HRV analysis
+        // RR intervals are fed to the HRV calculator as each beat is detected
         if (peaks.length >= 2) {
 
-            hrvCalculator.current.extractRRFromPeaks(peaks, SAMPLE_RATE);
-
             // Force update HRV metrics
             const metrics = hrvCalculator.current.getAllMetrics();
 
             setHrvMetrics(metrics);
+            setHrvRR(hrvCalculator.current.getNNIntervals());
+            setHrvHistory(hrvCalculator.current.getHRVHistory());
         } else {
             console.log('Not enough peaks for HRV analysis');
         }
 
         // Calculate ECG intervals when PQRST points are available
-        if (pqrstPoints.current.length > 0) {
-            const intervals = intervalCalculator.current.calculateIntervals(pqrstPoints.current);
+        if (delineated.length > 0) {
+            const intervals = intervalCalculator.current.calculateIntervals(delineated);
             if (intervals) {
                 // Add ST segment analysis
-                const stAnalysis = analyzeSTSegment(pqrstPoints.current);
+                const stAnalysis = stAnalyzer.current.analyze(unwrapped, delineated);
                 if (stAnalysis) {
                     setSTSegmentData(stAnalysis);
-                    // Add ST data to intervals object if your ECGIntervals type supports it
-                    // If your ECGIntervals type doesn't have st fields, you can modify it or use the separate state
                 }
                 setEcgIntervals(intervals);
                 return; // <-- Only return if intervals are set
             }
         }
 
-        // Fallback: If enough R-peaks, estimate BPM directly
-        if (peaks.length >= 2) {
+        // Fallback: If enough R-peaks, estimate BPM directly (absolute indices don't wrap)
+        const rrPeaks = usedPanTompkins ? recentPeaks : peaks;
+        if (rrPeaks.length >= 2) {
             const rrIntervals = [];
-            for (let i = 1; i < peaks.length; i++) {
-                rrIntervals.push((peaks[i] - peaks[i - 1]) / SAMPLE_RATE * 1000);
+            for (let i = 1; i < rrPeaks.length; i++) {
+                rrIntervals.push((rrPeaks[i] - rrPeaks[i - 1]) / SAMPLE_RATE * 1000);
             }
             const avgRR = rrIntervals.reduce((a, b) => a + b, 0) / rrIntervals.length;
             const bpm = avgRR > 0 ? 60000 / avgRR : 0;
@@ -361,6 +483,8 @@ export default function EcgFullPanel() {
                 qrs: 0,
                 qt: 0,
                 qtc: 0,
+                qtcFormula: intervalCalculator.current.getQTcFormula(),
+                qtcByFormula: {},
                 bpm,
                 status: {
                     rr: avgRR < 600 ? 'short' : avgRR > 1000 ? 'long' : 'normal',
@@ -397,7 +521,7 @@ export default function EcgFullPanel() {
             // Fix: Use the improved peak detection
             if (connected) {
                 // Get peaks using the most reliable method
-                const peaks = panTompkins.current.detectQRS(dataCh0.current);
+                const peaks = getRecentRPeaks();
 
                 // If Pan-Tompkins fails, use backup method
                 let finalPeaks = peaks;
@@ -405,12 +529,16 @@ export default function EcgFullPanel() {
                     finalPeaks = bpmCalculator.current.detectPeaks(dataCh0.current);
                 }
 
-                // Calculate BPM from peaks
-                const bpm = bpmCalculator.current.calculateBPMFromPeaks(finalPeaks);
+                // Averaged mode smooths the rate over the peaks; instantaneous mode reports the
+                // last accepted beat, cleared once no beat arrived for a 40 BPM interval
+                const lastPeak = rPeakLog.current[rPeakLog.current.length - 1];
+                const stale = lastPeak === undefined || samplesReceived.current - lastPeak > SAMPLE_RATE * 60 / 40;
+                const bpm = bpmCalculator.current.getMode() === 'instantaneous' && stale
+                    ? null
+                    : bpmCalculator.current.getCurrentBPM(finalPeaks);
 
                 if (bpm && bpm >= 40 && bpm <= 200) {
-                    const smoothedBPM = bpmCalculator.current.smoothBPM(bpm);
-                    setBpmDisplay(Math.round(smoothedBPM) + " BPM");
+                    setBpmDisplay(Math.round(bpm) + " BPM");
                 } else {
                     setBpmDisplay("-- BPM");
                 }
@@ -422,9 +550,18 @@ export default function EcgFullPanel() {
 
                 if (metrics.sampleCount > 0) {
                     setHrvMetrics(metrics);
-                    // Update this line to use the new method name
-                    setPhysioState(hrvCalculator.current.getPhysiologicalState());
+                    setHrvRR(hrvCalculator.current.getNNIntervals());
+                    setHrvHistory(hrvCalculator.current.getHRVHistory());
+                    setPhysioState(hrvCalculator.current.getStressAssessment());
                 }
+
+                const now = Date.now();
+                const windowStart = now - TACHOGRAM_WINDOW_SECONDS * 1000;
+                setTachogram({
+                    beats: heartRateTrend.current.getBeats(windowStart, now),
+                    stats: heartRateTrend.current.getStats(windowStart, now),
+                    now
+                });
             }
         }, 1000);
         return () => clearInterval(timerInterval);
@@ -435,6 +572,24 @@ export default function EcgFullPanel() {
         intervalCalculator.current.setGender(gender);
     }, [gender]);
 
+    // Live intervals and session reports use the same QT correction
+    useEffect(() => {
+        intervalCalculator.current.setQTcFormula(qtcFormula);
+        sessionAnalyzer.current.setQTcFormula(qtcFormula);
+    }, [qtcFormula]);
+
+    // Live windows build the user's RMSSD baseline across sessions (session analysis doesn't add to it)
+    useEffect(() => {
+        hrvCalculator.current.setBaselineStore(new StressBaselineStore());
+    }, []);
+
+    // Rolling HRV window for the live trend and session reports; the live history is rebuilt
+    useEffect(() => {
+        hrvCalculator.current.setHRVWindow(HRV_WINDOW_PRESETS[hrvWindow]);
+        sessionAnalyzer.current.setHRVWindow(HRV_WINDOW_PRESETS[hrvWindow]);
+        setHrvHistory(hrvCalculator.current.getHRVHistory());
+    }, [hrvWindow]);
+
     // Add this useEffect to load the model when the component mounts
     useEffect(() => {
         async function loadModel() {
@@ -481,17 +636,34 @@ export default function EcgFullPanel() {
                         const raw = view.getInt16(1, false);
                         const norm = (raw - 2048) / 2048;
 
-                        // Apply high-pass, then notch, then bandpass
-                        let filtered = highpass.current.process(norm);
-                        filtered = notch.current.process(filtered);
-                        filtered = ecg.current.process(filtered);
+                        // Keep unfiltered samples while recording for offline zero-phase analysis
+                        if (isRecordingRef.current) {
+                            rawRecording.current.push(norm);
+                        }
+
+                        // Apply high-pass, low-pass and notch
+                        let filtered = filterChain.current.process(norm);
 
                         if (!isFinite(filtered) || isNaN(filtered)) filtered = 0;
                         filtered = Math.max(-1, Math.min(1, filtered));
 
                         // Store and use filtered value
                         dataCh0.current[sampleIndex.current] = filtered;
+
+                        // Streaming R-peak detection; event indices match samplesReceived
+                        // (always fed so its indices stay in step if it is selected again)
+                        const events = panTompkins.current.pushSample(filtered);
+                        if (qrsDetectorRef.current === 'pan-tompkins') {
+                            events.forEach(event => logRPeak(event.index));
+                        }
+
                         sampleIndex.current = (sampleIndex.current + 1) % NUM_POINTS;
+                        samplesReceived.current++;
+                    }
+
+                    // Once the first buffer is full, pick the notch for the local mains frequency
+                    if (samplesReceived.current === MAINS_DETECTION_SAMPLES) {
+                        selectMainsNotch();
                     }
 
                     // Call updatePeaks to refresh the PQRST points with each new data packet
@@ -501,8 +673,13 @@ export default function EcgFullPanel() {
 
             setConnected(true);
             setStartTime(Date.now());
+            samplesReceived.current = 0;
+            rPeakLog.current = [];
+            setMainsFrequency(null);
+            filterChain.current = new ECGFilterChain(UNNOTCHED_FILTER_CONFIG); // Detection needs the hum left in
             bpmCalculator.current.reset();
             hrvCalculator.current.reset();
+            heartRateTrend.current.reset();
             panTompkins.current.reset(); // Reset Pan-Tompkins detector
             intervalCalculator.current.reset(); // Reset interval calculator
 
@@ -511,6 +688,19 @@ export default function EcgFullPanel() {
         }
     }
 
+    // Detect 50Hz vs 60Hz hum in the (not yet notched) buffer and switch the notch accordingly
+    function selectMainsNotch() {
+        const detection = detectMainsFrequency(dataCh0.current, SAMPLE_RATE);
+        const frequency = detection.frequency ?? DEFAULT_MAINS_FREQUENCY;
+
+        filterChain.current.setNotchConfig(MAINS_NOTCH_PRESETS[frequency]);
+        setMainsFrequency(frequency);
+        // A recording started before detection finished was saved with the default
+        setCurrentSession(prev => (prev && prev.endTime === null ? { ...prev, mainsFrequency: frequency } : prev));
+        console.log(`Mains frequency: ${frequency}Hz (${detection.frequency ? 'detected' : 'default'}), ` +
+                    `ratios 50Hz=${detection.ratios[50].toFixed(1)} 60Hz=${detection.ratios[60].toFixed(1)}`);
+    }
+
     // Replace your existing adaptSignalForModel function with this enhanced version:
 
     const adaptSignalForModel = (ecgWindow: number[]): number[] => {
@@ -593,8 +783,8 @@ export default function EcgFullPanel() {
             return;
         }
 
-        // Use the same peak detection pipeline as your main application
-        const detectedPeaks = panTompkins.current.detectQRS(dataCh0.current);
+        // Use the same peak detection pipeline as your main application (absolute indices)
+        const detectedPeaks = getRecentRPeaks();
 
         // If Pan-Tompkins fails, use backup method
         const recentPeaks = detectedPeaks.length > 0
@@ -617,8 +807,10 @@ export default function EcgFullPanel() {
 
         console.log("Using R-peaks for AI analysis:", filteredPeaks);
 
-        // Get the most recent R-peak
-        const latestRPeak = filteredPeaks[filteredPeaks.length - 1];
+        // Get the most recent R-peak as a position in the circular buffer
+        const latestRPeak = detectedPeaks.length > 0
+            ? toBufferIndex(filteredPeaks[filteredPeaks.length - 1])
+            : filteredPeaks[filteredPeaks.length - 1];
         const halfBeat = Math.floor(MODEL_INPUT_LENGTH / 2); // 67 samples
 
         console.log(`Extracting beat around R-peak at index ${latestRPeak}`);
@@ -839,48 +1031,6 @@ export default function EcgFullPanel() {
         );
     };
 
-    // Add this function inside your EcgFullPanel component
-    const analyzeSTSegment = (pqrstPoints: PQRSTPoint[]): STSegmentData | null => {
-        // Find relevant points
-        const sPoint = pqrstPoints.find(p => p.type === 'S');
-        const tPoint = pqrstPoints.find(p => p.type === 'T');
-        const qPoint = pqrstPoints.find(p => p.type === 'Q');
-
-        if (!sPoint || !tPoint || !qPoint) {
-            return null;
-        }
-
-        // Find J-point (end of S-wave)
-        const jPointIndex = sPoint.index;
-
-        // Get ST segment point (80ms after J-point)
-        const stPointIndex = jPointIndex + Math.floor(0.08 * SAMPLE_RATE);
-
-        // Get baseline as PR segment level (or use isoelectric line)
-        const baseline = qPoint.amplitude;
-
-        // Find ST point value (interpolate if needed)
-        let stValue;
-        const stPoint = pqrstPoints.find(p => p.index === stPointIndex);
-        if (stPoint) {
-            stValue = stPoint.amplitude;
-        } else {
-            // Interpolate between S and T if exact point not available
-            const ratio = (stPointIndex - sPoint.index) / (tPoint.index - sPoint.index);
-            stValue = sPoint.amplitude + ratio * (tPoint.amplitude - sPoint.amplitude);
-        }
-
-        // Calculate ST deviation in mm (1mm = 0.1mV in standard ECG)
-        const deviation = (stValue - baseline) * 10;
-
-        // Determine status
-        let status: 'normal' | 'elevation' | 'depression' = 'normal';
-        if (deviation >= 0.2) status = 'elevation';
-        else if (deviation <= -0.1) status = 'depression';
-
-        return { deviation, status };
-    };
-
     // Add this function inside your EcgFullPanel component
     const generateSummaryReport = () => {
         if (!ecgIntervals) {
@@ -911,10 +1061,18 @@ export default function EcgFullPanel() {
         csvContent += `QRS Duration,${ecgIntervals.qrs.toFixed(0)} ms\n`;
         csvContent += `QT Interval,${ecgIntervals.qt ? ecgIntervals.qt.toFixed(0) : "N/A"} ms\n`;
         csvContent += `QTc Interval,${ecgIntervals.qtc.toFixed(0)} ms\n`;
+        csvContent += `QTc Formula,${QTC_FORMULA_LABELS[ecgIntervals.qtcFormula]}\n`;
+        for (const formula of QTC_FORMULAS) {
+            const value = ecgIntervals.qtcByFormula[formula];
+            if (value !== undefined) csvContent += `QTc (${QTC_FORMULA_LABELS[formula]}),${value.toFixed(0)} ms\n`;
+        }
 
         // Add ST segment data if available
         if (stSegmentData) {
-            csvContent += `ST Deviation,${stSegmentData.deviation.toFixed(2)} mm\n`;
+            csvContent += stSegmentData.deviationMm !== null
+                ? `ST Deviation,${stSegmentData.deviationMm.toFixed(2)} mm\n`
+                : `ST Deviation,${stSegmentData.deviation.toFixed(3)} (uncalibrated units)\n`;
+            csvContent += `ST Slope,${stSegmentData.slope}\n`;
             csvContent += `ST Status,${stSegmentData.status}\n`;
         }
 
@@ -931,14 +1089,48 @@ export default function EcgFullPanel() {
             csvContent += `pNN50,${hrvMetrics.pnn50.toFixed(1)}%\n`;
             csvContent += `Triangular Index,${hrvMetrics.triangularIndex.toFixed(1)}\n`;
             csvContent += `LF/HF Ratio,${hrvMetrics.lfhf.ratio.toFixed(2)}\n`;
+            if (hrvMetrics.correction) {
+                csvContent += `RR Artifacts Corrected,${hrvMetrics.correction.percentCorrected.toFixed(1)}% (${hrvMetrics.correction.method})\n`;
+                for (const [type, count] of Object.entries(hrvMetrics.correction.counts)) {
+                    csvContent += `${RR_ARTIFACT_LABELS[type as RRArtifactType]} Beats,${count}\n`;
+                }
+            }
+            for (const spectrum of [hrvMetrics.frequency?.welch, hrvMetrics.frequency?.lombScargle]) {
+                if (!spectrum) continue;
+                const label = spectrum.method === 'welch' ? 'Welch' : 'Lomb-Scargle';
+                csvContent += `${label} VLF/LF/HF,${spectrum.vlf.power.toFixed(0)}/${spectrum.lf.power.toFixed(0)}/${spectrum.hf.power.toFixed(0)} ms²\n`;
+                csvContent += `${label} LF/HF (nu),${spectrum.lfNu.toFixed(1)}/${spectrum.hfNu.toFixed(1)}\n`;
+                csvContent += `${label} LF/HF peaks,${spectrum.lf.peakFrequency.toFixed(3)}/${spectrum.hf.peakFrequency.toFixed(3)} Hz\n`;
+            }
+            const nonlinear = hrvMetrics.nonlinear;
+            if (nonlinear?.poincare) {
+                csvContent += `Poincaré SD1/SD2,${nonlinear.poincare.sd1.toFixed(1)}/${nonlinear.poincare.sd2.toFixed(1)} ms\n`;
+                csvContent += `SD1:SD2 Ratio,${nonlinear.poincare.ratio.toFixed(2)}\n`;
+            }
+            if (nonlinear?.sampleEntropy != null) csvContent += `Sample Entropy,${nonlinear.sampleEntropy.toFixed(2)}\n`;
+            if (nonlinear?.approximateEntropy != null) csvContent += `Approximate Entropy,${nonlinear.approximateEntropy.toFixed(2)}\n`;
+            if (nonlinear?.dfa.alpha1 != null) csvContent += `DFA alpha1,${nonlinear.dfa.alpha1.toFixed(2)}\n`;
+            if (nonlinear?.dfa.alpha2 != null) csvContent += `DFA alpha2,${nonlinear.dfa.alpha2.toFixed(2)}\n`;
 
             // Add physiological state
             if (physioState) {
                 csvContent += `Physiological State,${physioState.state}\n`;
                 csvContent += `State Confidence,${(physioState.confidence * 100).toFixed(0)}%\n`;
+                physioState.factors.forEach(factor => {
+                    csvContent += `${factor.name},${factor.value.toFixed(2)}${factor.unit ? ` ${factor.unit}` : ''},${factor.description}\n`;
+                });
             }
         }
 
+        if (hrvHistory.length > 0) {
+            const { windowSeconds, stepSeconds } = HRV_WINDOW_PRESETS[hrvWindow];
+            csvContent += `\nHRV History (${windowSeconds}s window every ${stepSeconds}s)\n`;
+            csvContent += "Time (s),Beats,Mean HR,RMSSD,SDNN,pNN50,LF/HF,SD1,DFA alpha1\n";
+            hrvHistory.forEach(point => {
+                csvContent += `${point.time.toFixed(0)},${point.beatCount},${point.meanHR.toFixed(0)},${point.rmssd.toFixed(1)},${point.sdnn.toFixed(1)},${point.pnn50.toFixed(1)},${point.lfHfRatio?.toFixed(2) ?? ''},${point.sd1?.toFixed(1) ?? ''},${point.dfaAlpha1?.toFixed(2) ?? ''}\n`;
+            });
+        }
+
         csvContent += "\nPotential Findings\n";
 
         // Add abnormalities
@@ -1022,10 +1214,16 @@ export default function EcgFullPanel() {
 
     // Add these functions to handle recording
     const startRecording = (patientInfo: PatientInfo) => {
+        rawRecording.current = [];
+        isRecordingRef.current = true;
         setIsRecording(true);
         setRecordingStartTime(Date.now());
         setRecordedData([]);
 
+        // Judge the live intervals against this subject's reference ranges too
+        intervalCalculator.current.setReferenceProfile(patientInfo);
+        setGender(patientInfo.gender);
+
         // Create a new session
         setCurrentSession({
             id: Date.now().toString(),
@@ -1035,6 +1233,8 @@ export default function EcgFullPanel() {
             patientInfo,
             ecgData: [],
             sampleRate: SAMPLE_RATE,
+            mainsFrequency: mainsFrequency ?? DEFAULT_MAINS_FREQUENCY,
+            mvPerUnit: ECG_MV_PER_UNIT,
             rPeaks: [],
             pqrstPoints: []
         });
@@ -1049,8 +1249,8 @@ export default function EcgFullPanel() {
         const endTime = Date.now();
         const duration = (endTime - recordingStartTime) / 1000;
 
-        const freshRPeaks = panTompkins.current.detectQRS(recordedData);
-        const freshPQRST = pqrstDetector.current.detectWaves(recordedData, freshRPeaks, 0);
+        const freshRPeaks = (batchDetector.current ?? panTompkins.current).detectQRS(recordedData);
+        const freshPQRST = pqrstDetector.current.delineateWaves(recordedData, freshRPeaks, 0);
 
 
 
@@ -1065,12 +1265,14 @@ export default function EcgFullPanel() {
             endTime,
             duration,
             ecgData: [...recordedData],
+            rawEcgData: [...rawRecording.current],
             rPeaks: freshRPeaks,
             pqrstPoints: freshPQRST,
             intervals: freshIntervals || null
         };
 
         setCurrentSession(updatedSession);
+        isRecordingRef.current = false;
         setIsRecording(false);
 
         analyzeSession(updatedSession);
@@ -1078,6 +1280,12 @@ export default function EcgFullPanel() {
         return updatedSession;
     };
 
+    // Breathing sessions finished while recording are kept with the recording
+    const saveBreathingSession = (breathing: BreathingSessionData) => {
+        if (!isRecordingRef.current) return;
+        setCurrentSession(prev => prev ? { ...prev, breathing: [...(prev.breathing ?? []), breathing] } : prev);
+    };
+
     // Add this at the beginning of your analyzeSession function
     const analyzeSession = async (session: RecordingSession) => {
         try {
@@ -1113,6 +1321,27 @@ export default function EcgFullPanel() {
         csvContent += `ECG Classification,${sessionResults.aiClassification.prediction}\n`;
         csvContent += `Classification Confidence,${sessionResults.aiClassification.confidence.toFixed(1)}%\n\n`;
 
+        // Rhythm events, one row per episode
+        if (sessionResults.summary.rhythm.episodes && sessionResults.summary.rhythm.episodes.length > 0) {
+            csvContent += "Rhythm Events\n";
+            csvContent += "Event,Onset (s),Offset (s),Beats,Rate (BPM)\n";
+            sessionResults.summary.rhythm.episodes.forEach(e => {
+                csvContent += `${e.type},${e.onset.toFixed(1)},${e.offset.toFixed(1)},${e.beatCount},${e.rate?.toFixed(0) ?? ''}\n`;
+            });
+            csvContent += "\n";
+        }
+
+        const beats = sessionResults.aiClassification.beats;
+        if (beats && beats.length > 0) {
+            csvContent += "Beats\n";
+            csvContent += `Sample,Time (s),Class,Quality,${AAMI_CLASSES.map(name => `P(${name})`).join(',')}\n`;
+            beats.forEach(beat => {
+                const probabilities = beat.probabilities?.map(p => p.toFixed(3)) ?? AAMI_CLASSES.map(() => '');
+                csvContent += `${beat.peak},${(beat.peak / currentSession.sampleRate).toFixed(3)},${beat.label ?? ''},${beat.quality},${probabilities.join(',')}\n`;
+            });
+            csvContent += "\n";
+        }
+
         // Add more sections for intervals, HRV, etc.
 
         // Create download link
@@ -1342,6 +1571,98 @@ export default function EcgFullPanel() {
                         </div>
                     </div>
 
+                    {/* QRS Detector Button - cycles through the available detectors */}
+                    <div className="relative w-full mb-5">
+                        <div className="flex">
+                            <div className="w-16 flex justify-center">
+                                <button
+                                    onClick={() => {
+                                        const next = (QRS_DETECTOR_ORDER.indexOf(qrsDetectorName) + 1) % QRS_DETECTOR_ORDER.length;
+                                        selectQRSDetector(QRS_DETECTOR_ORDER[next]);
+                                    }}
+                                    className="w-10 h-10 flex items-center justify-center rounded-full transition-all bg-cyan-500/20 text-cyan-400 border border-cyan-500/30 hover:bg-cyan-500/30"
+                                    title={`QRS Detector: ${QRS_DETECTOR_LABELS[qrsDetectorName]}`}
+                                >
+                                    <Crosshair className="w-5 h-5" />
+                                </button>
+                            </div>
+                            <div className="whitespace-nowrap opacity-0 group-hover:opacity-100 transition-opacity duration-300 flex items-center">
+                                <span className="text-sm font-medium text-cyan-400">
+                                    {QRS_DETECTOR_LABELS[qrsDetectorName]}
+                                </span>
+                            </div>
+                        </div>
+                    </div>
+
+                    {/* Tachogram Button */}
+                    <div className="relative w-full mb-5">
+                        <div className="flex">
+                            <div className="w-16 flex justify-center">
+                                <button
+                                    onClick={() => setShowTachogram(!showTachogram)}
+                                    className={`w-10 h-10 flex items-center justify-center rounded-full transition-all ${showTachogram
+                                        ? 'bg-pink-500/20 text-pink-400 border border-pink-500/30 hover:bg-pink-500/30'
+                                        : 'bg-gray-500/20 text-gray-400 border border-gray-500/30 hover:bg-gray-500/30'
+                                        }`}
+                                    title={showTachogram ? 'Hide HR Trend' : 'Show HR Trend'}
+                                >
+                                    <HeartPulse className="w-5 h-5" />
+                                </button>
+                            </div>
+                            <div className="whitespace-nowrap opacity-0 group-hover:opacity-100 transition-opacity duration-300 flex items-center">
+                                <span className={`text-sm font-medium ${showTachogram ? 'text-pink-400' : 'text-gray-400'}`}>
+                                    {showTachogram ? 'Hide HR Trend' : 'Show HR Trend'}
+                                </span>
+                            </div>
+                        </div>
+                    </div>
+
+                    {/* Paced Breathing Button */}
+                    <div className="relative w-full mb-5">
+                        <div className="flex">
+                            <div className="w-16 flex justify-center">
+                                <button
+                                    onClick={() => setShowBreathing(!showBreathing)}
+                                    className={`w-10 h-10 flex items-center justify-center rounded-full transition-all ${showBreathing
+                                        ? 'bg-teal-500/20 text-teal-400 border border-teal-500/30 hover:bg-teal-500/30'
+                                        : 'bg-gray-500/20 text-gray-400 border border-gray-500/30 hover:bg-gray-500/30'
+                                        }`}
+                                    title={showBreathing ? 'Hide Breathing' : 'Show Breathing'}
+                                >
+                                    <Wind className="w-5 h-5" />
+                                </button>
+                            </div>
+                            <div className="whitespace-nowrap opacity-0 group-hover:opacity-100 transition-opacity duration-300 flex items-center">
+                                <span className={`text-sm font-medium ${showBreathing ? 'text-teal-400' : 'text-gray-400'}`}>
+                                    {showBreathing ? 'Hide Breathing' : 'Show Breathing'}
+                                </span>
+                            </div>
+                        </div>
+                    </div>
+
+                    {/* Morning Readiness Button */}
+                    <div className="relative w-full mb-5">
+                        <div className="flex">
+                            <div className="w-16 flex justify-center">
+                                <button
+                                    onClick={() => setShowReadiness(!showReadiness)}
+                                    className={`w-10 h-10 flex items-center justify-center rounded-full transition-all ${showReadiness
+                                        ? 'bg-amber-500/20 text-amber-400 border border-amber-500/30 hover:bg-amber-500/30'
+                                        : 'bg-gray-500/20 text-gray-400 border border-gray-500/30 hover:bg-gray-500/30'
+                                        }`}
+                                    title={showReadiness ? 'Hide Readiness' : 'Show Readiness'}
+                                >
+                                    <Sun className="w-5 h-5" />
+                                </button>
+                            </div>
+                            <div className="whitespace-nowrap opacity-0 group-hover:opacity-100 transition-opacity duration-300 flex items-center">
+                                <span className={`text-sm font-medium ${showReadiness ? 'text-amber-400' : 'text-gray-400'}`}>
+                                    {showReadiness ? 'Hide Readiness' : 'Show Readiness'}
+                                </span>
+                            </div>
+                        </div>
+                    </div>
+
                     {/* Start/Stop Recording Button Group in Sidebar */}
                     <div className="relative w-full mb-5">
                         <div className="flex">
@@ -1444,14 +1765,7 @@ export default function EcgFullPanel() {
                             <div className="mb-4 p-3 rounded-lg border border-white/20 bg-black/40">
                                 <div className="flex items-center justify-between mb-1">
                                     <span className="text-sm text-gray-300">Physiological State:</span>
-                                    <span className="font-bold text-lg" style={{
-                                        color:
-                                            physioState.state === "High Stress" ? "#ef4444" :
-                                                physioState.state === "Relaxed" ? "#22c55e" :
-                                                    physioState.state === "Focused" ? "#3b82f6" :
-                                                        physioState.state === "Fatigue" ? "#f97316" :
-                                                            physioState.state === "Analyzing" ? "#94a3b8" : "#94a3b8"
-                                    }}>
+                                    <span className="font-bold text-lg" style={{ color: STRESS_STATE_COLORS[physioState.state] }}>
                                         {physioState.state}
                                     </span>
                                 </div>
@@ -1460,18 +1774,31 @@ export default function EcgFullPanel() {
                                         className="h-1.5 rounded-full"
                                         style={{
                                             width: `${physioState.confidence * 100}%`,
-                                            backgroundColor:
-                                                physioState.state === "High Stress" ? "#ef4444" :
-                                                    physioState.state === "Relaxed" ? "#22c55e" :
-                                                        physioState.state === "Focused" ? "#3b82f6" :
-                                                            physioState.state === "Fatigue" ? "#f97316" :
-                                                                physioState.state === "Analyzing" ? "#94a3b8" : "#94a3b8"
+                                            backgroundColor: STRESS_STATE_COLORS[physioState.state]
                                         }}
                                     ></div>
                                 </div>
                                 <p className="text-xs text-gray-400 mt-1">
                                     Confidence: {(physioState.confidence * 100).toFixed(0)}%
                                 </p>
+                                {physioState.factors.length > 0 && (
+                                    <ul className="mt-2 space-y-1">
+                                        {physioState.factors.map(factor => (
+                                            <li key={factor.name} className="text-xs">
+                                                <div className="flex justify-between">
+                                                    <span className="text-gray-300">{factor.name}</span>
+                                                    <span className={`font-mono ${factor.effect === 'stress' ? 'text-orange-400' : factor.effect === 'recovery' ? 'text-green-400' : 'text-gray-300'}`}>
+                                                        {factor.value.toFixed(factor.unit === 'SD' ? 1 : 0)}{factor.unit && ` ${factor.unit}`}
+                                                    </span>
+                                                </div>
+                                                <p className="text-gray-500">{factor.description}</p>
+                                            </li>
+                                        ))}
+                                    </ul>
+                                )}
+                                {physioState.state !== 'Analyzing' && physioState.rmssdZScore === null && (
+                                    <p className="text-xs text-gray-500 mt-1">RMSSD baseline builds after a few minutes of recording</p>
+                                )}
                             </div>
 
                             {/* HRV Status */}
@@ -1509,21 +1836,52 @@ export default function EcgFullPanel() {
                                     <span className="font-mono text-purple-400">{hrvMetrics.triangularIndex.toFixed(1)}</span>
                                 </div>
                             </div>
+                            {hrvMetrics.correction && hrvMetrics.correction.artifacts.length > 0 && (
+                                <p className="text-xs text-gray-400 mt-2">
+                                    {hrvMetrics.correction.percentCorrected.toFixed(1)}% of beats corrected (
+                                    {(Object.entries(hrvMetrics.correction.counts) as [RRArtifactType, number][])
+                                        .filter(([, count]) => count > 0)
+                                        .map(([type, count]) => `${count} ${RR_ARTIFACT_LABELS[type].toLowerCase()}`)
+                                        .join(', ')}
+                                    )
+                                </p>
+                            )}
 
                             {/* Frequency Domain */}
                             <div className="mt-4 pt-4 border-t border-white/20">
                                 <h4 className="text-sm font-medium text-gray-300 mb-2">Frequency Domain</h4>
+                                {!hrvMetrics.frequency?.welch && (
+                                    <p className="text-xs text-gray-500 mb-2">Needs at least 1 minute of beats</p>
+                                )}
                                 <div className="space-y-2">
+                                    {hrvMetrics.frequency?.welch && (
+                                        <div className="flex justify-between">
+                                            <span className="text-gray-400 text-sm">VLF Power:</span>
+                                            <span className="font-mono text-gray-300 text-sm">
+                                                {hrvMetrics.frequency.welch.vlf.power.toFixed(0)} ms²
+                                            </span>
+                                        </div>
+                                    )}
                                     <div className="flex justify-between">
                                         <span className="text-gray-400 text-sm">LF Power:</span>
                                         <span className="font-mono text-blue-400 text-sm">
-                                            {hrvMetrics.lfhf.lf.toFixed(2)} ms²
+                                            {hrvMetrics.lfhf.lf.toFixed(0)} ms²
+                                            {hrvMetrics.frequency?.welch && (
+                                                <span className="text-xs ml-1 text-gray-400">
+                                                    {hrvMetrics.frequency.welch.lfNu.toFixed(0)} nu @ {hrvMetrics.frequency.welch.lf.peakFrequency.toFixed(3)} Hz
+                                                </span>
+                                            )}
                                         </span>
                                     </div>
                                     <div className="flex justify-between">
                                         <span className="text-gray-400 text-sm">HF Power:</span>
                                         <span className="font-mono text-green-400 text-sm">
-                                            {hrvMetrics.lfhf.hf.toFixed(2)} ms²
+                                            {hrvMetrics.lfhf.hf.toFixed(0)} ms²
+                                            {hrvMetrics.frequency?.welch && (
+                                                <span className="text-xs ml-1 text-gray-400">
+                                                    {hrvMetrics.frequency.welch.hfNu.toFixed(0)} nu @ {hrvMetrics.frequency.welch.hf.peakFrequency.toFixed(3)} Hz
+                                                </span>
+                                            )}
                                         </span>
                                     </div>
                                     <div className="flex justify-between">
@@ -1539,7 +1897,72 @@ export default function EcgFullPanel() {
                                 </div>
                             </div>
 
+                            {/* Nonlinear */}
+                            {hrvMetrics.nonlinear && (
+                                <div className="mt-4 pt-4 border-t border-white/20">
+                                    <h4 className="text-sm font-medium text-gray-300 mb-2">Nonlinear</h4>
+                                    <PoincarePlot rr={hrvRR} poincare={hrvMetrics.nonlinear.poincare} />
+                                    <div className="space-y-2 mt-3">
+                                        <div className="flex justify-between">
+                                            <span className="text-gray-400 text-sm">SD1 / SD2:</span>
+                                            <span className="font-mono text-pink-400 text-sm">
+                                                {hrvMetrics.nonlinear.poincare
+                                                    ? `${hrvMetrics.nonlinear.poincare.sd1.toFixed(1)} / ${hrvMetrics.nonlinear.poincare.sd2.toFixed(1)} ms`
+                                                    : '--'}
+                                                {hrvMetrics.nonlinear.poincare && (
+                                                    <span className="text-xs ml-1 text-gray-400">
+                                                        ({hrvMetrics.nonlinear.poincare.ratio.toFixed(2)})
+                                                    </span>
+                                                )}
+                                            </span>
+                                        </div>
+                                        <div className="flex justify-between">
+                                            <span className="text-gray-400 text-sm">SampEn / ApEn:</span>
+                                            <span className="font-mono text-cyan-400 text-sm">
+                                                {hrvMetrics.nonlinear.sampleEntropy?.toFixed(2) ?? '--'} / {hrvMetrics.nonlinear.approximateEntropy?.toFixed(2) ?? '--'}
+                                            </span>
+                                        </div>
+                                        <div className="flex justify-between">
+                                            <span className="text-gray-400 text-sm">DFA α1:</span>
+                                            <span className="font-mono text-yellow-400 text-sm">
+                                                {hrvMetrics.nonlinear.dfa.alpha1?.toFixed(2) ?? '--'}
+                                                {hrvMetrics.nonlinear.dfa.alpha1 !== null && (
+                                                    <span className="text-xs ml-1 text-gray-400">
+                                                        {hrvMetrics.nonlinear.dfa.alpha1 > 0.75 ? '(Below aerobic threshold)' :
+                                                            hrvMetrics.nonlinear.dfa.alpha1 > 0.5 ? '(Between thresholds)' : '(Above anaerobic threshold)'}
+                                                    </span>
+                                                )}
+                                            </span>
+                                        </div>
+                                        <div className="flex justify-between">
+                                            <span className="text-gray-400 text-sm">DFA α2:</span>
+                                            <span className="font-mono text-gray-300 text-sm">
+                                                {hrvMetrics.nonlinear.dfa.alpha2?.toFixed(2) ?? '--'}
+                                            </span>
+                                        </div>
+                                    </div>
+                                    {hrvMetrics.nonlinear.dfa.alpha1 === null && (
+                                        <p className="text-xs text-gray-500 mt-2">Entropy and DFA α1 need 50 beats, α2 needs 200</p>
+                                    )}
+                                </div>
+                            )}
 
+                            {/* Windowed trend */}
+                            <div className="mt-4 pt-4 border-t border-white/20">
+                                <div className="flex items-center justify-between mb-2">
+                                    <h4 className="text-sm font-medium text-gray-300">Trend</h4>
+                                    <select
+                                        value={hrvWindow}
+                                        onChange={e => setHrvWindow(e.target.value)}
+                                        className="bg-black/40 border border-white/20 rounded text-xs text-white px-1 py-0.5"
+                                    >
+                                        {Object.entries(HRV_WINDOW_PRESETS).map(([key, config]) => (
+                                            <option key={key} value={key}>{key} window, {config.stepSeconds}s step</option>
+                                        ))}
+                                    </select>
+                                </div>
+                                <HRVTrendChart history={hrvHistory} windowSeconds={HRV_WINDOW_PRESETS[hrvWindow].windowSeconds} />
+                            </div>
                         </>
                     ) : (
                         <div className="text-center text-gray-400 py-8">
@@ -1557,6 +1980,36 @@ export default function EcgFullPanel() {
             )}
 
 
+            {/* Tachogram Panel */}
+            {showTachogram && (
+                <TachogramPanel
+                    beats={tachogram.beats}
+                    stats={tachogram.stats}
+                    windowSeconds={TACHOGRAM_WINDOW_SECONDS}
+                    now={tachogram.now}
+                    onClose={() => setShowTachogram(false)}
+                />
+            )}
+
+            {/* Paced Breathing Panel */}
+            {showBreathing && (
+                <BreathingPanel
+                    getBeatsSince={time => hrvCalculator.current.getBeatsSince(time)}
+                    getClockTime={() => hrvCalculator.current.getClockTime()}
+                    onComplete={saveBreathingSession}
+                    onClose={() => setShowBreathing(false)}
+                />
+            )}
+
+            {/* Morning Readiness Panel */}
+            {showReadiness && (
+                <ReadinessPanel
+                    getBeatsSince={time => hrvCalculator.current.getBeatsSince(time)}
+                    getClockTime={() => hrvCalculator.current.getClockTime()}
+                    onClose={() => setShowReadiness(false)}
+                />
+            )}
+
             {/* AI Prediction Results Panel */}
             {showAIAnalysis && (
                 <div className="absolute right-4 top-[calc(40%+40px)] transform -translate-y-1/2 w-96 bg-black/60 backdrop-blur-sm border border-white/20 rounded-xl p-4 text-white z-40">
@@ -1725,7 +2178,7 @@ export default function EcgFullPanel() {
                                                         ? ecgIntervals.bpm.toFixed(1)
                                                         : (() => {
                                                             // Use your actual R-peak indices array here
-                                                            const rPeaks = pqrstPoints.current.filter(p => p.type === "R").map(p => p.index);
+                                                            const rPeaks = pqrstPoints.current.filter(p => p.type === "R").map(p => p.absolutePosition);
                                                             if (rPeaks && rPeaks.length >= 2) {
                                                                 const rrIntervals = [];
                                                                 for (let i = 1; i < rPeaks.length; i++) {
@@ -1742,6 +2195,21 @@ export default function EcgFullPanel() {
                                                 } BPM
                                             </span>
                                         </div>
+                                        <div className="flex items-center justify-between text-xs mt-1">
+                                            <span className="text-gray-400">
+                                                Live ({bpmMode === 'instantaneous' ? 'beat-to-beat' : 'averaged'}): <span className="font-mono text-white">{bpmDisplay}</span>
+                                            </span>
+                                            <button
+                                                onClick={() => {
+                                                    const next: BPMMode = bpmMode === 'averaged' ? 'instantaneous' : 'averaged';
+                                                    bpmCalculator.current.setMode(next);
+                                                    setBpmMode(next);
+                                                }}
+                                                className="px-2 py-0.5 rounded bg-white/10 text-gray-300 hover:bg-white/20"
+                                            >
+                                                {bpmMode === 'instantaneous' ? 'Averaged' : 'Beat-to-beat'}
+                                            </button>
+                                        </div>
                                         <div className="text-xs text-gray-400 mt-1">
                                             How many times your heart beats per minute. Normal is 60-100 BPM.
                                         </div>
@@ -1798,6 +2266,35 @@ export default function EcgFullPanel() {
                                             </div>
                                         </div>
 
+                                        {/* QTc with formula selector */}
+                                        <div className="p-3 rounded-lg border border-white/20 bg-black/40">
+                                            <div className="flex justify-between items-center">
+                                                <span className="text-gray-300 text-sm">Recovery:</span>
+                                                <span className={`font-mono ${ecgIntervals.status.qtc === 'normal' ? 'text-green-400' :
+                                                    ecgIntervals.status.qtc === 'prolonged' ? 'text-red-400' : 'text-gray-400'
+                                                    }`}>
+                                                    {ecgIntervals.qtc > 0 ? `${ecgIntervals.qtc.toFixed(0)} ms` : '--'}
+                                                </span>
+                                            </div>
+                                            <div className="flex justify-between items-center text-xs text-gray-400 mt-1">
+                                                <span>QTc</span>
+                                                <select
+                                                    value={qtcFormula}
+                                                    onChange={e => setQtcFormula(e.target.value as QTcFormula)}
+                                                    className="bg-slate-800 border border-white/20 rounded px-1 text-xs text-gray-300"
+                                                >
+                                                    {QTC_FORMULAS.map(formula => (
+                                                        <option key={formula} value={formula}>{QTC_FORMULA_LABELS[formula]}</option>
+                                                    ))}
+                                                </select>
+                                            </div>
+                                            {ecgIntervals.qtcFormula !== qtcFormula && (
+                                                <div className="text-xs text-yellow-400 mt-1">
+                                                    Using {QTC_FORMULA_LABELS[ecgIntervals.qtcFormula]} until enough beats are recorded
+                                                </div>
+                                            )}
+                                        </div>
+
                                         {/* ST Segment data - added section */}
                                         {stSegmentData && (
                                             <div className="p-3 rounded-lg border border-white/20 bg-black/40">
@@ -1805,15 +2302,20 @@ export default function EcgFullPanel() {
                                                     <span className="text-gray-300 text-sm">ST Segment:</span>
                                                     <span className={`font-mono ${stSegmentData.status === 'normal' ? 'text-green-400' :
                                                         stSegmentData.status === 'elevation' ? 'text-red-400' :
-                                                            'text-yellow-400'
+                                                            stSegmentData.status === 'uncalibrated' ? 'text-gray-300' :
+                                                                'text-yellow-400'
                                                         }`}>
-                                                        {stSegmentData.deviation.toFixed(2)} mm
+                                                        {stSegmentData.deviationMm !== null
+                                                            ? `${stSegmentData.deviationMm.toFixed(2)} mm`
+                                                            : `${stSegmentData.deviation.toFixed(3)} units`}
                                                     </span>
                                                 </div>
                                                 <div className="text-xs text-gray-400 mt-1">
                                                     {stSegmentData.status === 'normal' ? 'Normal ST segment' :
                                                         stSegmentData.status === 'elevation' ? 'ST elevation detected' :
-                                                            'ST depression detected'}
+                                                            stSegmentData.status === 'uncalibrated' ? 'Uncalibrated, not judged' :
+                                                                'ST depression detected'}
+                                                    {stSegmentData.slope !== 'unknown' && <>, {stSegmentData.slope}</>}
                                                 </div>
                                             </div>
                                         )}
@@ -1878,6 +2380,22 @@ export default function EcgFullPanel() {
                                 const xPercent = (point.index / NUM_POINTS) * 100;
                                 const yOffset = 50 - (point.amplitude * getScaleFactor() * 50);
 
+                                // Onsets/offsets are drawn as short ticks rather than labels
+                                if (WAVE_BOUNDARY_TYPES.includes(point.type as WaveBoundaryType)) {
+                                    return (
+                                        <div
+                                            key={`pqrst-${index}`}
+                                            className="absolute w-px h-4 bg-white/60"
+                                            style={{
+                                                left: `${xPercent}%`,
+                                                top: `${yOffset}%`,
+                                                transform: 'translate(-50%, -50%)'
+                                            }}
+                                            title={point.type}
+                                        />
+                                    );
+                                }
+
                                 let color;
                                 switch (point.type) {
                                     case 'P': color = 'text-orange-400'; break;
@@ -0,0 +1,83 @@
+"use client";
+
+import React, { useState } from 'react';
+import { HRVWindowPoint } from '../lib/hrvWindows';
+
+type TrendMetric = 'rmssd' | 'sdnn' | 'meanHR' | 'lfHfRatio' | 'sd1' | 'dfaAlpha1';
+
+const TREND_METRICS: Record<TrendMetric, { label: string; unit: string; color: string; digits: number }> = {
+  rmssd: { label: 'RMSSD', unit: 'ms', color: '#4ade80', digits: 1 },
+  sdnn: { label: 'SDNN', unit: 'ms', color: '#60a5fa', digits: 1 },
+  meanHR: { label: 'Mean HR', unit: 'BPM', color: '#f472b6', digits: 0 },
+  lfHfRatio: { label: 'LF/HF', unit: '', color: '#fb923c', digits: 2 },
+  sd1: { label: 'SD1', unit: 'ms', color: '#f9a8d4', digits: 1 },
+  dfaAlpha1: { label: 'DFA α1', unit: '', color: '#facc15', digits: 2 }
+};
+
+interface HRVTrendChartProps {
+  history: HRVWindowPoint[];
+  windowSeconds: number;
+}
+
+const WIDTH = 240;
+const HEIGHT = 80;
+
+export default function HRVTrendChart({ history, windowSeconds }: HRVTrendChartProps) {
+  const [metric, setMetric] = useState<TrendMetric>('rmssd');
+  const { label, unit, color, digits } = TREND_METRICS[metric];
+
+  // Windows too short for a metric (LF/HF, DFA) leave gaps
+  const points = history
+    .filter(point => point[metric] !== null)
+    .map(point => ({ time: point.time, value: point[metric] as number }));
+
+  let low = points.length > 0 ? Math.min(...points.map(p => p.value)) : 0;
+  let high = points.length > 0 ? Math.max(...points.map(p => p.value)) : 1;
+  if (high - low < 1e-6) {
+    low -= 1;
+    high += 1;
+  }
+  const start = history.length > 0 ? history[0].time : 0;
+  const end = history.length > 1 ? history[history.length - 1].time : start + 1;
+  const x = (time: number) => ((time - start) / (end - start)) * WIDTH;
+  const y = (value: number) => HEIGHT - 6 - ((value - low) / (high - low)) * (HEIGHT - 12);
+  const latest = points[points.length - 1];
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-1">
+        <select
+          value={metric}
+          onChange={e => setMetric(e.target.value as TrendMetric)}
+          className="bg-black/40 border border-white/20 rounded text-xs text-white px-1 py-0.5"
+        >
+          {(Object.keys(TREND_METRICS) as TrendMetric[]).map(key => (
+            <option key={key} value={key}>{TREND_METRICS[key].label}</option>
+          ))}
+        </select>
+        <span className="font-mono text-sm" style={{ color }}>
+          {latest ? `${latest.value.toFixed(digits)} ${unit}` : '--'}
+        </span>
+      </div>
+      {points.length < 2 ? (
+        <p className="text-xs text-gray-500">
+          {history.length === 0 ? `First point after ${windowSeconds}s of beats` : `Not enough points for ${label} yet`}
+        </p>
+      ) : (
+        <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-20 bg-black/40 rounded border border-white/10">
+          {[low, high].map(level => (
+            <text key={level} x={2} y={Math.min(Math.max(y(level) - 2, 8), HEIGHT - 2)} fontSize={8} fill="#9ca3af">
+              {level.toFixed(digits)}
+            </text>
+          ))}
+          <polyline
+            points={points.map(p => `${x(p.time).toFixed(1)},${y(p.value).toFixed(1)}`).join(' ')}
+            fill="none"
+            stroke={color}
+            strokeWidth={1.5}
+          />
+        </svg>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,62 @@
+"use client";
+
+import React from 'react';
+import { PoincareMetrics } from '../lib/hrvNonlinear';
+
+interface PoincarePlotProps {
+  rr: number[];                     // RR intervals in ms, oldest first
+  poincare: PoincareMetrics | null;
+}
+
+const SIZE = 160;
+const PADDING = 18;
+const MIN_RANGE_MS = 200; // Keep a steady rhythm from filling the plot with a single blob
+
+export default function PoincarePlot({ rr, poincare }: PoincarePlotProps) {
+  if (rr.length < 3) {
+    return <p className="text-xs text-gray-500">Needs at least 3 beats</p>;
+  }
+
+  let low = Math.min(...rr);
+  let high = Math.max(...rr);
+  if (high - low < MIN_RANGE_MS) {
+    const mid = (high + low) / 2;
+    low = mid - MIN_RANGE_MS / 2;
+    high = mid + MIN_RANGE_MS / 2;
+  }
+  low = Math.floor(low / 100) * 100;
+  high = Math.ceil(high / 100) * 100;
+
+  const span = SIZE - 2 * PADDING;
+  const scale = span / (high - low);
+  const x = (ms: number) => PADDING + (ms - low) * scale;
+  const y = (ms: number) => SIZE - PADDING - (ms - low) * scale;
+  const mean = rr.reduce((sum, value) => sum + value, 0) / rr.length;
+
+  return (
+    <svg viewBox={`0 0 ${SIZE} ${SIZE}`} className="w-full max-w-[12rem] mx-auto bg-black/40 rounded border border-white/10">
+      {/* Identity line: points on it have equal consecutive intervals */}
+      <line x1={x(low)} y1={y(low)} x2={x(high)} y2={y(high)} stroke="rgba(255,255,255,0.2)" strokeDasharray="3 3" />
+      {rr.slice(1).map((next, i) => (
+        <circle key={i} cx={x(rr[i])} cy={y(next)} r={1.5} fill="#60a5fa" fillOpacity={0.6} />
+      ))}
+      {/* SD1 across and SD2 along the identity line, centred on the mean interval */}
+      {poincare && (
+        <ellipse
+          cx={x(mean)}
+          cy={y(mean)}
+          rx={poincare.sd2 * scale}
+          ry={poincare.sd1 * scale}
+          transform={`rotate(-45 ${x(mean)} ${y(mean)})`}
+          fill="none"
+          stroke="#f472b6"
+          strokeWidth={1.2}
+        />
+      )}
+      <text x={PADDING} y={SIZE - 4} fontSize={8} fill="#9ca3af">{low}</text>
+      <text x={SIZE - PADDING} y={SIZE - 4} fontSize={8} fill="#9ca3af" textAnchor="end">{high} ms</text>
+      <text x={4} y={PADDING - 6} fontSize={8} fill="#9ca3af">RRn+1</text>
+      <text x={SIZE / 2} y={SIZE - 4} fontSize={8} fill="#9ca3af" textAnchor="middle">RRn</text>
+    </svg>
+  );
+}
@@ -0,0 +1,159 @@
+"use client";
+
+import React, { useState } from 'react';
+import {
+  BENCHMARK_DETECTOR_LABELS,
+  BENCHMARK_DETECTOR_NAMES,
+  BenchmarkDetectorName,
+  BenchmarkSummary,
+  RecordBenchmarkResult,
+  evaluateRecord,
+  loadBenchmarkRecord,
+  recordIdFromPath,
+  summarizeBenchmark
+} from '../lib/qrsBenchmark';
+
+interface QRSBenchmarkPanelProps {
+  filePairs: { ecg: string; ann: string }[];
+}
+
+const TOLERANCE_MS = 150;
+
+const formatPercent = (value: number) => `${(value * 100).toFixed(2)}%`;
+
+export default function QRSBenchmarkPanel({ filePairs }: QRSBenchmarkPanelProps) {
+  const [detector, setDetector] = useState<BenchmarkDetectorName>('pan-tompkins');
+  const [isRunning, setIsRunning] = useState(false);
+  const [progress, setProgress] = useState<string | null>(null);
+  const [skipped, setSkipped] = useState<string[]>([]);
+  const [summary, setSummary] = useState<BenchmarkSummary | null>(null);
+
+  const handleRun = async () => {
+    setIsRunning(true);
+    setSummary(null);
+    setSkipped([]);
+
+    const results: RecordBenchmarkResult[] = [];
+    const missing: string[] = [];
+
+    for (let i = 0; i < filePairs.length; i++) {
+      const { ecg, ann } = filePairs[i];
+      setProgress(`Record ${recordIdFromPath(ecg)} (${i + 1}/${filePairs.length})`);
+      try {
+        const record = await loadBenchmarkRecord(ecg, ann);
+        results.push(evaluateRecord(record, detector, { toleranceMs: TOLERANCE_MS }));
+        setSummary(summarizeBenchmark(detector, [...results], TOLERANCE_MS));
+      } catch {
+        missing.push(recordIdFromPath(ecg));
+      }
+      // Yield to the browser between records so the table updates
+      await new Promise(resolve => setTimeout(resolve, 0));
+    }
+
+    setSkipped(missing);
+    setProgress(null);
+    setIsRunning(false);
+  };
+
+  return (
+    <div className="flex flex-col h-full">
+      <div className="flex flex-wrap items-center justify-between gap-2 mb-2">
+        <div>
+          <h3 className="text-lg font-bold text-white">QRS Detector Benchmark</h3>
+          <p className="text-xs text-gray-400">
+            MIT-BIH reference beats, ±{TOLERANCE_MS} ms match window (ANSI/AAMI EC57)
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          <select
+            value={detector}
+            onChange={e => setDetector(e.target.value as BenchmarkDetectorName)}
+            disabled={isRunning}
+            className="bg-slate-800 border border-white/20 rounded px-2 py-1 text-xs text-white"
+          >
+            {BENCHMARK_DETECTOR_NAMES.map(name => (
+              <option key={name} value={name}>{BENCHMARK_DETECTOR_LABELS[name]}</option>
+            ))}
+          </select>
+          <button
+            onClick={handleRun}
+            disabled={isRunning}
+            className={`py-1 px-3 rounded-lg font-medium text-xs ${
+              isRunning
+                ? 'bg-blue-500/30 text-blue-300 cursor-not-allowed'
+                : 'bg-blue-600 hover:bg-blue-700 text-white'
+            }`}
+          >
+            {isRunning ? 'Running...' : 'Run Benchmark'}
+          </button>
+        </div>
+      </div>
+
+      {progress && <div className="text-xs text-blue-300 mb-2">{progress}</div>}
+      {skipped.length > 0 && (
+        <div className="mb-2 p-2 bg-yellow-500/10 border border-yellow-500/30 rounded-lg text-xs text-yellow-400">
+          Skipped {skipped.length} record(s) that could not be loaded: {skipped.join(', ')}
+        </div>
+      )}
+
+      {summary ? (
+        <div className="overflow-auto">
+          <table className="w-full text-xs text-gray-200 font-mono">
+            <thead>
+              <tr className="text-gray-400 border-b border-white/10">
+                <th className="text-left py-1">Record</th>
+                <th className="text-right py-1">Beats</th>
+                <th className="text-right py-1">TP</th>
+                <th className="text-right py-1">FN</th>
+                <th className="text-right py-1">FP</th>
+                <th className="text-right py-1">Se</th>
+                <th className="text-right py-1">+P</th>
+                <th className="text-right py-1">F1</th>
+              </tr>
+            </thead>
+            <tbody>
+              {summary.records.map(r => (
+                <tr key={r.recordId} className="border-b border-white/5">
+                  <td className="py-0.5">{r.recordId}</td>
+                  <td className="text-right">{r.referenceCount}</td>
+                  <td className="text-right">{r.truePositives}</td>
+                  <td className="text-right">{r.falseNegatives}</td>
+                  <td className="text-right">{r.falsePositives}</td>
+                  <td className="text-right">{formatPercent(r.sensitivity)}</td>
+                  <td className="text-right">{formatPercent(r.positivePredictivity)}</td>
+                  <td className="text-right">{formatPercent(r.f1)}</td>
+                </tr>
+              ))}
+            </tbody>
+            <tfoot>
+              <tr className="text-green-300 font-bold border-t border-white/20">
+                <td className="py-1">Gross</td>
+                <td className="text-right">{summary.gross.truePositives + summary.gross.falseNegatives}</td>
+                <td className="text-right">{summary.gross.truePositives}</td>
+                <td className="text-right">{summary.gross.falseNegatives}</td>
+                <td className="text-right">{summary.gross.falsePositives}</td>
+                <td className="text-right">{formatPercent(summary.gross.sensitivity)}</td>
+                <td className="text-right">{formatPercent(summary.gross.positivePredictivity)}</td>
+                <td className="text-right">{formatPercent(summary.gross.f1)}</td>
+              </tr>
+              <tr className="text-blue-300">
+                <td className="py-1">Average</td>
+                <td colSpan={4}></td>
+                <td className="text-right">{formatPercent(summary.average.sensitivity)}</td>
+                <td className="text-right">{formatPercent(summary.average.positivePredictivity)}</td>
+                <td className="text-right">{formatPercent(summary.average.f1)}</td>
+              </tr>
+            </tfoot>
+          </table>
+        </div>
+      ) : (
+        !isRunning && (
+          <div className="text-gray-500 italic text-xs">
+            Select a detector and run the benchmark over {filePairs.length} MIT-BIH records.
+            Headless: <span className="font-mono">npm run benchmark:qrs</span>
+          </div>
+        )
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,231 @@
+"use client";
+
+import React, { useEffect, useRef, useState } from 'react';
+import { Sun } from 'lucide-react';
+import { HRVBeat } from '../lib/hrvWindows';
+import {
+  READINESS_DURATION_S,
+  ReadinessScore,
+  ReadinessStatus,
+  ReadinessStore,
+  coversReadinessWindow,
+  measureReadiness
+} from '../lib/readiness';
+
+interface ReadinessPanelProps {
+  getBeatsSince: (time: number) => HRVBeat[]; // Beats from the live HRV calculator after a time on its clock
+  getClockTime: () => number;                 // Current time on that clock, seconds
+  onClose: () => void;
+}
+
+const STATUS_COLORS: Record<ReadinessStatus, string> = {
+  'Building Baseline': '#94a3b8',
+  Low: '#f97316',
+  Normal: '#3b82f6',
+  High: '#22c55e'
+};
+
+const WIDTH = 280;
+const HEIGHT = 90;
+// Days shown in the trend chart
+const TREND_DAYS = 30;
+
+function ReadinessTrend({ history }: { history: ReadinessScore[] }) {
+  const shown = history.slice(-TREND_DAYS);
+  if (shown.length < 2) {
+    return <p className="text-xs text-gray-500">The trend appears after two daily measurements</p>;
+  }
+
+  const values = shown.flatMap(day => [
+    day.entry.lnRmssd,
+    ...(day.baseline ? [day.baseline.swcLow, day.baseline.swcHigh] : [])
+  ]);
+  const low = Math.min(...values) - 0.1;
+  const high = Math.max(...values) + 0.1;
+  const x = (i: number) => 6 + (i / (shown.length - 1)) * (WIDTH - 12);
+  const y = (value: number) => HEIGHT - 6 - ((value - low) / (high - low)) * (HEIGHT - 12);
+
+  // Smallest-worthwhile-change band over the days that have a baseline
+  const banded = shown.flatMap((day, i) => (day.baseline ? [{ i, baseline: day.baseline }] : []));
+  const band = banded.length > 1
+    ? [
+      ...banded.map(day => `${x(day.i).toFixed(1)},${y(day.baseline.swcHigh).toFixed(1)}`),
+      ...[...banded].reverse().map(day => `${x(day.i).toFixed(1)},${y(day.baseline.swcLow).toFixed(1)}`)
+    ].join(' ')
+    : null;
+
+  return (
+    <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-24 bg-black/40 rounded border border-white/10">
+      {band && <polygon points={band} fill="rgba(59,130,246,0.2)" stroke="none" />}
+      {banded.length > 1 && (
+        <polyline
+          points={banded.map(day => `${x(day.i).toFixed(1)},${y(day.baseline.mean).toFixed(1)}`).join(' ')}
+          fill="none"
+          stroke="#3b82f6"
+          strokeDasharray="3 2"
+          strokeWidth={1}
+        />
+      )}
+      <polyline
+        points={shown.map((day, i) => `${x(i).toFixed(1)},${y(day.entry.lnRmssd).toFixed(1)}`).join(' ')}
+        fill="none"
+        stroke="#e5e7eb"
+        strokeWidth={1}
+      />
+      {shown.map((day, i) => (
+        <circle key={day.entry.date} cx={x(i)} cy={y(day.entry.lnRmssd)} r={2.5} fill={STATUS_COLORS[day.status]}>
+          <title>{`${day.entry.date}: RMSSD ${day.entry.rmssd.toFixed(0)} ms`}</title>
+        </circle>
+      ))}
+    </svg>
+  );
+}
+
+export default function ReadinessPanel({ getBeatsSince, getClockTime, onClose }: ReadinessPanelProps) {
+  const store = useRef(new ReadinessStore());
+  const [history, setHistory] = useState<ReadinessScore[]>([]);
+  const [recording, setRecording] = useState(false);
+  const [elapsed, setElapsed] = useState(0);
+  const [error, setError] = useState<string | null>(null);
+
+  const startTime = useRef(0);
+  const startClock = useRef(0); // Start on the HRV calculator's clock
+  // Latest callbacks, so the timer below doesn't restart on every parent render
+  const beatsSource = useRef({ getBeatsSince, getClockTime });
+  beatsSource.current = { getBeatsSince, getClockTime };
+
+  useEffect(() => {
+    setHistory(store.current.getHistory());
+  }, []);
+
+  useEffect(() => {
+    if (!recording) return;
+
+    const timer = setInterval(() => {
+      const seconds = (Date.now() - startTime.current) / 1000;
+      setElapsed(seconds);
+      if (seconds < READINESS_DURATION_S) return;
+
+      setRecording(false);
+      const beats = beatsSource.current.getBeatsSince(startClock.current);
+      if (!coversReadinessWindow(beats, startClock.current, beatsSource.current.getClockTime())) {
+        setError('Beat detection dropped out during the measurement, so it was not saved. Check the electrodes and try again.');
+        return;
+      }
+      const entry = measureReadiness(beats);
+      if (!entry) {
+        setError('Not enough clean beats were detected. Check the electrodes and try again.');
+        return;
+      }
+      store.current.save(entry);
+      setHistory(store.current.getHistory());
+    }, 250);
+
+    return () => clearInterval(timer);
+  }, [recording]);
+
+  const start = () => {
+    startTime.current = Date.now();
+    startClock.current = getClockTime();
+    setElapsed(0);
+    setError(null);
+    setRecording(true);
+  };
+
+  const clearHistory = () => {
+    if (!window.confirm('Delete all stored readiness measurements?')) return;
+    store.current.clear();
+    setHistory([]);
+  };
+
+  const latest = history[history.length - 1];
+
+  return (
+    <div className="absolute right-4 top-4 w-80 bg-black/60 backdrop-blur-sm border border-white/20 rounded-xl p-4 text-white z-30">
+      <div className="flex items-center justify-between mb-2">
+        <h3 className="text-lg font-bold flex items-center gap-2">
+          <Sun className="w-5 h-5 text-amber-400" />
+          Morning Readiness
+        </h3>
+        <button onClick={onClose} className="text-gray-400 hover:text-white">
+          ✕
+        </button>
+      </div>
+
+      {latest && (
+        <div className="flex items-center justify-between p-2 mb-2 rounded-lg border border-white/20 bg-black/40">
+          <div>
+            <div className="text-xs text-gray-400">{latest.entry.date}</div>
+            <div className="font-bold" style={{ color: STATUS_COLORS[latest.status] }}>{latest.status}</div>
+          </div>
+          <div className="text-right">
+            <div className="font-mono text-2xl font-bold" style={{ color: STATUS_COLORS[latest.status] }}>
+              {latest.score !== null ? latest.score.toFixed(0) : '--'}
+            </div>
+            <div className="text-xs text-gray-400 font-mono">
+              RMSSD {latest.entry.rmssd.toFixed(0)} ms · {latest.entry.meanHR.toFixed(0)} BPM
+            </div>
+          </div>
+        </div>
+      )}
+      {latest?.baseline ? (
+        <p className="text-xs text-gray-400 mb-2">
+          Baseline ({latest.baseline.days} days): ln RMSSD {latest.baseline.mean.toFixed(2)}, normal range{' '}
+          {latest.baseline.swcLow.toFixed(2)}–{latest.baseline.swcHigh.toFixed(2)}
+        </p>
+      ) : latest ? (
+        <p className="text-xs text-gray-400 mb-2">The score starts once 3 of the previous 7 days have a measurement</p>
+      ) : null}
+
+      <ReadinessTrend history={history} />
+
+      {recording && (
+        <div className="mt-3">
+          <div className="text-sm text-amber-400">Lie still on your back and breathe normally</div>
+          <div className="w-full h-2 bg-gray-700 rounded-full overflow-hidden mt-1">
+            <div
+              className="h-full bg-amber-400"
+              style={{ width: `${Math.min(100, (elapsed / READINESS_DURATION_S) * 100)}%` }}
+            />
+          </div>
+          <div className="text-xs text-gray-400 mt-1 font-mono">
+            {Math.max(0, Math.ceil(READINESS_DURATION_S - elapsed))}s left
+          </div>
+        </div>
+      )}
+      {error && <p className="text-xs text-red-400 mt-2">{error}</p>}
+
+      <div className="flex gap-2 mt-3">
+        {recording ? (
+          <button
+            onClick={() => setRecording(false)}
+            className="flex-1 py-1.5 rounded-lg bg-red-500/20 text-red-400 border border-red-500/30 hover:bg-red-500/30 text-sm"
+          >
+            Cancel
+          </button>
+        ) : (
+          <>
+            <button
+              onClick={start}
+              className="flex-1 py-1.5 rounded-lg bg-amber-500/20 text-amber-400 border border-amber-500/30 hover:bg-amber-500/30 text-sm"
+            >
+              Measure ({READINESS_DURATION_S / 60} min)
+            </button>
+            {history.length > 0 && (
+              <button
+                onClick={clearHistory}
+                className="py-1.5 px-3 rounded-lg bg-gray-500/20 text-gray-400 border border-gray-500/30 hover:bg-gray-500/30 text-sm"
+              >
+                Clear
+              </button>
+            )}
+          </>
+        )}
+      </div>
+      <div className="text-xs text-gray-400 mt-2">
+        Measure at the same time each morning, lying down, before getting up. One measurement is kept per day, in
+        this browser only.
+      </div>
+    </div>
+  );
+}
@@ -6,6 +6,8 @@ import {
 import { PQRSTPoint } from '../lib/pqrstDetector';
 import { ECGIntervals } from '../lib/ecgIntervals';
 import { SessionAnalysisResults } from '../lib/sessionAnalyzer';
+import { MainsFrequency } from '../lib/filters';
+import { BreathingSessionData } from '../lib/breathingBiofeedback';
 
 export type PatientInfo = {
   age: number;
@@ -14,6 +16,7 @@ export type PatientInfo = {
   height: number; // in cm
   medicalHistory: string[];
   medications: string[];
+  athlete?: boolean; // Regular endurance/high-intensity training; widens HR and PR reference ranges
 };
 
 export type RecordingSession = {
@@ -23,11 +26,15 @@ export type RecordingSession = {
   duration: number;
   patientInfo: PatientInfo;
   ecgData: number[];
+  rawEcgData?: number[]; // Unfiltered samples, for zero-phase offline filtering
   sampleRate: number;
+  mainsFrequency?: MainsFrequency; // Notch used while recording, reused for reanalysis
+  mvPerUnit?: number | null; // Front-end calibration, millivolts per signal unit; null if unknown
   rPeaks: number[];
   pqrstPoints: PQRSTPoint[];
   // Add this new property
   intervals?: ECGIntervals | null;
+  breathing?: BreathingSessionData[]; // Paced-breathing and resonance sessions run during the recording
 }
 
 export interface SessionRecordingProps {
@@ -148,8 +155,9 @@ export default function SessionRecording({
               <label className="block text-gray-300 text-sm mb-1">Age</label>
               <input
                 type="number"
+                step="any"
                 value={patientInfo.age}
-                onChange={(e) => setPatientInfo({ ...patientInfo, age: parseInt(e.target.value) || 0 })}
+                onChange={(e) => setPatientInfo({ ...patientInfo, age: parseFloat(e.target.value) || 0 })}
                 className="w-full bg-slate-800 border border-slate-700 rounded px-3 py-2 text-white"
               />
             </div>
@@ -235,6 +243,18 @@ export default function SessionRecording({
             </div>
           </div>
 
+          <div className="mb-4">
+            <button
+              onClick={() => setPatientInfo({ ...patientInfo, athlete: !patientInfo.athlete })}
+              className={`text-xs rounded-full px-3 py-1 border ${patientInfo.athlete
+                ? 'bg-green-500/20 border-green-500/50 text-green-400'
+                : 'bg-gray-800 border-gray-700 text-gray-400'
+                }`}
+            >
+              Athlete (regular endurance or high-intensity training)
+            </button>
+          </div>
+
           <div className="bg-blue-900/20 border border-blue-500/20 rounded-lg p-3 text-xs text-blue-300 mb-6 flex items-start gap-2">
             <Info className="w-4 h-4 text-blue-400 flex-shrink-0 mt-0.5" />
             <p>All information is stored locally on your device and is not transmitted elsewhere. This data helps improve analysis accuracy.</p>
@@ -1,6 +1,11 @@
 import React from 'react';
 import { SessionAnalysisResults } from '../lib/sessionAnalyzer';
+import { BeatExclusionReason, QTC_FORMULAS, QTC_FORMULA_LABELS } from '../lib/ecgIntervals';
+import { RRArtifactType, RR_ARTIFACT_LABELS } from '../lib/rrCorrection';
+import { STRESS_STATE_COLORS } from '../lib/stressIndex';
+import { RHYTHM_EPISODE_SEVERITY, RhythmEpisodeType, countRhythmEpisodes } from '../lib/rhythmEpisodes';
 import { PatientInfo } from './SessionRecording';
+import BeatBrowser from './BeatBrowser';
 import {
     FileText, User, Clock, Activity, Heart, TrendingUp,
     Zap, ClipboardList, AlertTriangle, CheckCircle, AlertCircle
@@ -42,6 +47,71 @@ const beatLabels: Record<string, string> = {
     "other": "Other/Unknown beats"
 };
 
+// Readable reasons for beats left out of the interval medians
+const exclusionLabels: Record<BeatExclusionReason, string> = {
+    "incomplete": "incomplete",
+    "no-rr": "no preceding beat",
+    "rr-out-of-range": "RR out of range",
+    "ectopic": "ectopic",
+    "implausible-interval": "implausible interval"
+};
+
+// Text colour per rhythm event severity
+const severityColors: Record<'low' | 'medium' | 'high', string> = {
+    low: 'text-gray-300',
+    medium: 'text-yellow-400',
+    high: 'text-red-400'
+};
+
+// Isolated ectopic beats can number in the hundreds, so they are counted but not listed
+const COUNTED_ONLY_EPISODES: RhythmEpisodeType[] = ['Isolated PVC', 'Isolated PAC'];
+
+// Inter-quartile range suffix for per-beat interval medians
+const formatIQR = (iqr?: number) => iqr !== undefined ? ` · IQR ${iqr.toFixed(0)} ms` : '';
+
+// Session time as m:ss
+const formatClock = (seconds: number) => {
+    const whole = Math.round(seconds);
+    return `${Math.floor(whole / 60)}:${String(whole % 60).padStart(2, '0')}`;
+};
+
+// Sparkline of the ST trend in mm, with the ±1 mm limits; uncalibrated trends are autoscaled without limits
+function STTrendSparkline({ trend, calibrated }: { trend: { time: number; deviation: number }[]; calibrated: boolean }) {
+    const width = 240;
+    const height = 40;
+    const scale = calibrated ? 10 : 1;
+    const limit = Math.max(calibrated ? 2 : 1e-6, ...trend.map(p => Math.abs(p.deviation * scale)));
+    const end = trend[trend.length - 1].time || 1;
+    const y = (mm: number) => height / 2 - (mm / limit) * (height / 2);
+    const points = trend.map(p => `${((p.time / end) * width).toFixed(1)},${y(p.deviation * scale).toFixed(1)}`).join(' ');
+
+    return (
+        <svg viewBox={`0 0 ${width} ${height}`} className="w-60 h-10 bg-slate-900/50 rounded">
+            {calibrated && <line x1={0} x2={width} y1={y(1)} y2={y(1)} stroke="rgba(248,113,113,0.3)" strokeDasharray="2 2" />}
+            <line x1={0} x2={width} y1={y(0)} y2={y(0)} stroke="rgba(255,255,255,0.15)" />
+            {calibrated && <line x1={0} x2={width} y1={y(-1)} y2={y(-1)} stroke="rgba(250,204,21,0.3)" strokeDasharray="2 2" />}
+            <polyline points={points} fill="none" stroke="#60a5fa" strokeWidth={1.5} />
+        </svg>
+    );
+}
+
+function RMSSDTrendSparkline({ points }: { points: { time: number; rmssd: number }[] }) {
+    const width = 240;
+    const height = 40;
+    const high = Math.max(1, ...points.map(p => p.rmssd));
+    const start = points[0].time;
+    const span = points[points.length - 1].time - start || 1;
+    const line = points
+        .map(p => `${(((p.time - start) / span) * width).toFixed(1)},${(height - 2 - (p.rmssd / high) * (height - 4)).toFixed(1)}`)
+        .join(' ');
+
+    return (
+        <svg viewBox={`0 0 ${width} ${height}`} className="w-60 h-10 bg-slate-900/50 rounded">
+            <polyline points={line} fill="none" stroke="#4ade80" strokeWidth={1.5} />
+        </svg>
+    );
+}
+
 export interface SessionReportProps {
     analysisResults: SessionAnalysisResults;
     patientInfo: PatientInfo;
@@ -157,6 +227,12 @@ export default function SessionReport({
                                         <div className="text-white">{analysisResults.summary.recordingDuration}</div>
                                         <div className="text-gray-400">Beats:</div>
                                         <div className="text-white">{numBeats} beats</div>
+                                        {analysisResults.summary.mainsFrequency && (
+                                            <>
+                                                <div className="text-gray-400">Mains Filter:</div>
+                                                <div className="text-white">{analysisResults.summary.mainsFrequency} Hz</div>
+                                            </>
+                                        )}
                                     </div>
                                 </div>
                                 <div className="bg-slate-800/50 border border-slate-700/50 rounded-lg px-3 py-3 flex-1 mt-2">
@@ -209,15 +285,115 @@ export default function SessionReport({
                                         </div>
                                     </div>
                                 </div>
+                                {analysisResults.hrv.frequencyMetrics.welch && (
+                                    <table className="w-full text-xs text-gray-300 mb-3">
+                                        <thead>
+                                            <tr className="text-gray-500">
+                                                <th className="text-left font-normal">Band</th>
+                                                <th className="text-right font-normal">Welch ms²</th>
+                                                <th className="text-right font-normal">Lomb ms²</th>
+                                                <th className="text-right font-normal">nu</th>
+                                                <th className="text-right font-normal">Peak Hz</th>
+                                            </tr>
+                                        </thead>
+                                        <tbody className="font-mono">
+                                            {(['vlf', 'lf', 'hf'] as const).map(band => {
+                                                const welch = analysisResults.hrv.frequencyMetrics.welch!;
+                                                const lomb = analysisResults.hrv.frequencyMetrics.lombScargle;
+                                                return (
+                                                    <tr key={band}>
+                                                        <td className="font-sans">{band.toUpperCase()}</td>
+                                                        <td className="text-right">{welch[band].power.toFixed(0)}</td>
+                                                        <td className="text-right">{lomb ? lomb[band].power.toFixed(0) : '--'}</td>
+                                                        <td className="text-right">
+                                                            {band === 'lf' ? welch.lfNu.toFixed(0) : band === 'hf' ? welch.hfNu.toFixed(0) : ''}
+                                                        </td>
+                                                        <td className="text-right">{welch[band].peakFrequency.toFixed(3)}</td>
+                                                    </tr>
+                                                );
+                                            })}
+                                        </tbody>
+                                    </table>
+                                )}
+                                {analysisResults.hrv.history && analysisResults.hrv.history.points.length > 1 && (
+                                    <div className="text-xs text-gray-400 mb-3">
+                                        <RMSSDTrendSparkline points={analysisResults.hrv.history.points} />
+                                        <div>
+                                            RMSSD over {analysisResults.hrv.history.windowSeconds}s windows every {analysisResults.hrv.history.stepSeconds}s:{' '}
+                                            {Math.min(...analysisResults.hrv.history.points.map(p => p.rmssd)).toFixed(1)}-
+                                            {Math.max(...analysisResults.hrv.history.points.map(p => p.rmssd)).toFixed(1)} ms
+                                        </div>
+                                    </div>
+                                )}
+                                {analysisResults.hrv.correction && (
+                                    <div className="text-xs text-gray-400 mb-3">
+                                        RR artifacts corrected ({analysisResults.hrv.correction.method}):{' '}
+                                        <span className="text-white">{analysisResults.hrv.correction.percentCorrected.toFixed(1)}%</span>
+                                        {' '}({(Object.entries(analysisResults.hrv.correction.counts) as [RRArtifactType, number][])
+                                            .map(([type, count]) => `${RR_ARTIFACT_LABELS[type]} ${count}`)
+                                            .join(', ')})
+                                    </div>
+                                )}
+                                {analysisResults.hrv.nonlinearMetrics && (
+                                    <div className="grid grid-cols-2 gap-x-4 gap-y-1 text-xs mb-3">
+                                        <div className="flex justify-between">
+                                            <span className="text-gray-400">SD1 / SD2:</span>
+                                            <span className="font-mono text-pink-400">
+                                                {analysisResults.hrv.nonlinearMetrics.poincare
+                                                    ? `${analysisResults.hrv.nonlinearMetrics.poincare.sd1.toFixed(1)} / ${analysisResults.hrv.nonlinearMetrics.poincare.sd2.toFixed(1)} ms`
+                                                    : '--'}
+                                            </span>
+                                        </div>
+                                        <div className="flex justify-between">
+                                            <span className="text-gray-400">SampEn / ApEn:</span>
+                                            <span className="font-mono text-cyan-400">
+                                                {analysisResults.hrv.nonlinearMetrics.sampleEntropy?.toFixed(2) ?? '--'} / {analysisResults.hrv.nonlinearMetrics.approximateEntropy?.toFixed(2) ?? '--'}
+                                            </span>
+                                        </div>
+                                        <div className="flex justify-between">
+                                            <span className="text-gray-400">DFA α1:</span>
+                                            <span className="font-mono text-yellow-400">
+                                                {analysisResults.hrv.nonlinearMetrics.dfa.alpha1?.toFixed(2) ?? '--'}
+                                            </span>
+                                        </div>
+                                        <div className="flex justify-between">
+                                            <span className="text-gray-400">DFA α2:</span>
+                                            <span className="font-mono text-gray-300">
+                                                {analysisResults.hrv.nonlinearMetrics.dfa.alpha2?.toFixed(2) ?? '--'}
+                                            </span>
+                                        </div>
+                                    </div>
+                                )}
+                                {analysisResults.hrv.breathing && analysisResults.hrv.breathing.length > 0 && (
+                                    <div className="text-xs text-gray-400 mb-3 space-y-1">
+                                        {analysisResults.hrv.breathing.map(session => {
+                                            const mean = (values: number[]) =>
+                                                values.length > 0 ? values.reduce((sum, v) => sum + v, 0) / values.length : null;
+                                            const rsa = mean(session.samples.map(s => s.rsaAmplitude));
+                                            const coherence = mean(session.samples.map(s => s.coherence));
+                                            return (
+                                                <div key={session.startTime}>
+                                                    {session.mode === 'resonance' ? 'Resonance search' : `Paced breathing at ${session.breathsPerMinute}/min`}
+                                                    {' '}({formatClock(session.durationSeconds)}):{' '}
+                                                    <span className="text-white">
+                                                        RSA {rsa !== null ? rsa.toFixed(1) : '--'} BPM, coherence {coherence !== null ? coherence.toFixed(0) : '--'}%
+                                                    </span>
+                                                    {session.protocol && (
+                                                        <span className="text-teal-400">
+                                                            {' '}· resonance {session.protocol.resonanceRate !== null ? `${session.protocol.resonanceRate} breaths/min` : 'not found'}
+                                                            {' '}({session.protocol.steps.map(s => `${s.breathsPerMinute}: ${s.rsaAmplitude?.toFixed(1) ?? '--'}`).join(', ')})
+                                                        </span>
+                                                    )}
+                                                </div>
+                                            );
+                                        })}
+                                    </div>
+                                )}
                                 <div className="bg-slate-800/50 border border-slate-700/50 rounded-lg p-2">
                                     <div className="flex justify-between mb-1">
                                         <div className="text-gray-400 text-xs">State:</div>
                                         <div className="font-medium text-xs" style={{
-                                            color:
-                                                analysisResults.hrv.physiologicalState.state === "High Stress" ? "#ef4444" :
-                                                    analysisResults.hrv.physiologicalState.state === "Relaxed" ? "#22c55e" :
-                                                        analysisResults.hrv.physiologicalState.state === "Focused" ? "#3b82f6" :
-                                                            analysisResults.hrv.physiologicalState.state === "Fatigue" ? "#f97316" : "#94a3b8"
+                                            color: STRESS_STATE_COLORS[analysisResults.hrv.physiologicalState.state]
                                         }}>
                                             {analysisResults.hrv.physiologicalState.state}
                                         </div>
@@ -225,6 +401,18 @@ export default function SessionReport({
                                     <div className="text-xs text-gray-300">
                                         {analysisResults.hrv.assessment.description}
                                     </div>
+                                    {analysisResults.hrv.physiologicalState.factors.length > 0 && (
+                                        <ul className="text-xs text-gray-400 mt-1 space-y-0.5">
+                                            {analysisResults.hrv.physiologicalState.factors.map(factor => (
+                                                <li key={factor.name}>
+                                                    <span className={factor.effect === 'stress' ? 'text-orange-400' : factor.effect === 'recovery' ? 'text-green-400' : 'text-gray-300'}>
+                                                        {factor.name} {factor.value.toFixed(factor.unit === 'SD' ? 1 : 0)}{factor.unit && ` ${factor.unit}`}
+                                                    </span>
+                                                    : {factor.description}
+                                                </li>
+                                            ))}
+                                        </ul>
+                                    )}
                                 </div>
                             </div>
 
@@ -359,6 +547,18 @@ export default function SessionReport({
                                 <div className="text-xs text-gray-500 mt-1">
                                     {analysisResults.summary.rhythm.irregularBeats} irregular beats
                                 </div>
+                                {analysisResults.summary.rhythm.atrialFibrillation && (
+                                    analysisResults.summary.rhythm.atrialFibrillation.detected ? (
+                                        <div className="text-xs text-red-400 mt-1">
+                                            Possible AF: {analysisResults.summary.rhythm.atrialFibrillation.burden.toFixed(1)}% burden
+                                            {' '}({analysisResults.summary.rhythm.atrialFibrillation.episodes
+                                                .map(e => `${formatClock(e.start)}-${formatClock(e.end)}`)
+                                                .join(', ')})
+                                        </div>
+                                    ) : (
+                                        <div className="text-xs text-gray-500">No AF detected</div>
+                                    )
+                                )}
                             </div>
 
                             <div className="bg-slate-800/50 border border-slate-700/50 rounded-lg p-4">
@@ -375,6 +575,69 @@ export default function SessionReport({
                         </div>
                     </div>
 
+                    {/* Rhythm Events Section */}
+                    {analysisResults.summary.rhythm.episodes && (
+                        <div className="mb-6 bg-slate-800/50 border border-slate-700/50 rounded-lg p-4">
+                            <div className="text-gray-400 text-sm mb-2">Rhythm Events</div>
+                            {analysisResults.summary.rhythm.episodes.length === 0 ? (
+                                <div className="text-xs text-gray-500">No ectopic patterns, pauses or rate episodes detected</div>
+                            ) : (
+                                <>
+                                    <div className="flex flex-wrap gap-2 mb-2">
+                                        {(Object.entries(countRhythmEpisodes(analysisResults.summary.rhythm.episodes)) as [RhythmEpisodeType, number][])
+                                            .map(([type, count]) => (
+                                                <span
+                                                    key={type}
+                                                    className={`text-xs px-2 py-0.5 rounded bg-slate-900/60 ${severityColors[RHYTHM_EPISODE_SEVERITY[type]]}`}
+                                                >
+                                                    {type} × {count}
+                                                </span>
+                                            ))}
+                                    </div>
+                                    <div className="max-h-40 overflow-y-auto">
+                                        <table className="w-full text-xs">
+                                            <thead>
+                                                <tr className="text-gray-500">
+                                                    <th className="text-left font-normal">Event</th>
+                                                    <th className="text-left font-normal">Onset</th>
+                                                    <th className="text-left font-normal">Offset</th>
+                                                    <th className="text-right font-normal">Beats</th>
+                                                    <th className="text-right font-normal">Rate</th>
+                                                </tr>
+                                            </thead>
+                                            <tbody className="font-mono">
+                                                {analysisResults.summary.rhythm.episodes
+                                                    .filter(e => !COUNTED_ONLY_EPISODES.includes(e.type))
+                                                    .map(e => (
+                                                        <tr key={`${e.type}-${e.onset}`} className={severityColors[RHYTHM_EPISODE_SEVERITY[e.type]]}>
+                                                            <td className="font-sans">{e.type}</td>
+                                                            <td>{formatClock(e.onset)}</td>
+                                                            <td>{formatClock(e.offset)}</td>
+                                                            <td className="text-right">{e.type === 'Pause' ? '--' : e.beatCount}</td>
+                                                            <td className="text-right">{e.rate !== null ? `${e.rate.toFixed(0)} BPM` : '--'}</td>
+                                                        </tr>
+                                                    ))}
+                                            </tbody>
+                                        </table>
+                                    </div>
+                                </>
+                            )}
+                        </div>
+                    )}
+
+                    {/* Beat Browser Section */}
+                    {analysisResults.aiClassification.beats && analysisResults.aiClassification.beats.length > 0 &&
+                        analysisResults.aiClassification.signal && (
+                        <div className="mb-6 bg-slate-800/50 border border-slate-700/50 rounded-lg p-4">
+                            <div className="text-gray-400 text-sm mb-2">Beat Browser</div>
+                            <BeatBrowser
+                                beats={analysisResults.aiClassification.beats}
+                                ecgData={analysisResults.aiClassification.signal.data}
+                                sampleRate={analysisResults.aiClassification.signal.sampleRate}
+                            />
+                        </div>
+                    )}
+
                     {/* ECG Intervals Section */}
                     <div className="mb-2">
 
@@ -390,6 +653,7 @@ export default function SessionReport({
                                 <div className="text-xs text-gray-500 mt-1">
                                     {analysisResults.intervals.pr.status === 'normal' ? 'Normal' :
                                         analysisResults.intervals.pr.status === 'short' ? 'Short' : 'Prolonged'}
+                                    {formatIQR(analysisResults.intervals.pr.iqr)}
                                 </div>
                             </div>
 
@@ -401,6 +665,7 @@ export default function SessionReport({
                                 </div>
                                 <div className="text-xs text-gray-500 mt-1">
                                     {analysisResults.intervals.qrs.status === 'normal' ? 'Normal' : 'Wide'}
+                                    {formatIQR(analysisResults.intervals.qrs.iqr)}
                                 </div>
                             </div>
 
@@ -411,6 +676,7 @@ export default function SessionReport({
                                 </div>
                                 <div className="text-xs text-gray-500 mt-1">
                                     Raw measurement
+                                    {formatIQR(analysisResults.intervals.qt.iqr)}
                                 </div>
                             </div>
 
@@ -422,6 +688,82 @@ export default function SessionReport({
                                     Always consult qualified healthcare professionals for medical evaluation.
                                 </div>
                             </div>
+
+                            {/* QTc under every correction formula, the one used for the status highlighted */}
+                            {analysisResults.intervals.qtc.byFormula && QTC_FORMULAS.map(formula => {
+                                const value = analysisResults.intervals.qtc.byFormula?.[formula];
+                                const selected = formula === analysisResults.intervals.qtc.formula;
+                                const regression = analysisResults.intervals.summary?.qtRegression;
+                                return (
+                                    <div
+                                        key={formula}
+                                        className={`rounded-lg p-3 border ${selected ? 'bg-blue-900/30 border-blue-500/50' : 'bg-slate-800/50 border-slate-700/50'}`}
+                                    >
+                                        <div className="text-gray-400 text-xs mb-1">QTc {QTC_FORMULA_LABELS[formula]}</div>
+                                        <div className={`font-bold text-lg ${!selected ? 'text-gray-200' :
+                                                analysisResults.intervals.qtc.status === 'prolonged' ? 'text-red-400' :
+                                                    analysisResults.intervals.qtc.status === 'normal' ? 'text-green-400' : 'text-gray-400'
+                                            }`}>
+                                            {value !== undefined ? value.toFixed(0) : '--'} <span className="text-xs">ms</span>
+                                        </div>
+                                        <div className="text-xs text-gray-500 mt-1">
+                                            {!selected ? 'Comparison' :
+                                                analysisResults.intervals.qtc.status === 'prolonged' ? 'Prolonged' :
+                                                    analysisResults.intervals.qtc.status === 'normal' ? 'Normal' : 'Unknown'}
+                                            {formula === 'regression'
+                                                ? (regression ? ` · QT ∝ RR^${regression.exponent.toFixed(2)}` : ' · too few beats')
+                                                : formatIQR(analysisResults.intervals.summary?.qtcByFormula[formula]?.iqr)}
+                                        </div>
+                                    </div>
+                                );
+                            })}
+
+                            {analysisResults.intervals.summary && (
+                                <div className="col-span-5 text-xs text-gray-500">
+                                    Medians over {analysisResults.intervals.summary.includedBeats} of {analysisResults.intervals.summary.totalBeats} beats
+                                    {Object.keys(analysisResults.intervals.summary.exclusions).length > 0 && (
+                                        <> · excluded: {(Object.entries(analysisResults.intervals.summary.exclusions) as [BeatExclusionReason, number][])
+                                            .map(([reason, count]) => `${count} ${exclusionLabels[reason]}`)
+                                            .join(', ')}</>
+                                    )}
+                                </div>
+                            )}
+
+                            {analysisResults.intervals.timingBiased && (
+                                <div className="col-span-5 text-xs text-yellow-400">
+                                    No unfiltered samples were stored with this session, so onset/offset timing carries the live filter&apos;s phase lag
+                                </div>
+                            )}
+
+                            {analysisResults.intervals.st.trend && analysisResults.intervals.st.trend.length > 1 && (
+                                <div className="col-span-5 flex items-center gap-3 text-xs text-gray-500">
+                                    <STTrendSparkline trend={analysisResults.intervals.st.trend} calibrated={analysisResults.intervals.st.calibrated} />
+                                    <div>
+                                        ST level {analysisResults.intervals.st.calibrated
+                                            ? `${(analysisResults.intervals.st.deviation * 10).toFixed(1)} mm`
+                                            : `${analysisResults.intervals.st.deviation.toFixed(3)} (uncalibrated units)`}
+                                        {analysisResults.intervals.st.slope && analysisResults.intervals.st.slope !== 'unknown' && <> ({analysisResults.intervals.st.slope})</>}
+                                        {' '}· {analysisResults.intervals.st.episodes?.length
+                                            ? analysisResults.intervals.st.episodes
+                                                .map(e => `${e.type} ${formatClock(e.start)}-${formatClock(e.end)} (peak ${(e.peakDeviation * 10).toFixed(1)} mm)`)
+                                                .join(', ')
+                                            : analysisResults.intervals.st.calibrated ? 'no ST episodes' : 'episodes need a calibrated front end'}
+                                    </div>
+                                </div>
+                            )}
+
+                            {analysisResults.summary.referenceRanges && (
+                                <div className="col-span-5 text-xs text-gray-500">
+                                    Reference ranges: {analysisResults.summary.referenceProfile}
+                                    {' '}(HR {analysisResults.summary.referenceRanges.heartRate.min}-{analysisResults.summary.referenceRanges.heartRate.max} BPM,
+                                    {' '}PR {analysisResults.summary.referenceRanges.pr.min}-{analysisResults.summary.referenceRanges.pr.max} ms,
+                                    {' '}QRS ≤{analysisResults.summary.referenceRanges.qrsMax} ms,
+                                    {' '}QTc ≤{analysisResults.summary.referenceRanges.qtcMax} ms)
+                                    {analysisResults.summary.referenceRanges.adjustments.map(adjustment => (
+                                        <div key={adjustment}>· {adjustment}</div>
+                                    ))}
+                                </div>
+                            )}
                         </div>
                     </div>
                 </div>
@@ -0,0 +1,102 @@
+"use client";
+
+import React from 'react';
+import { HeartPulse } from 'lucide-react';
+import { HeartRateBeat, HeartRateWindowStats } from '../lib/heartRateTrend';
+
+interface TachogramPanelProps {
+  beats: HeartRateBeat[];          // Beats inside the visible window
+  stats: HeartRateWindowStats | null;
+  windowSeconds: number;
+  now: number;                     // Right edge of the plot (ms since epoch)
+  onClose: () => void;
+}
+
+const WIDTH = 400;
+const HEIGHT = 140;
+const MIN_RANGE_BPM = 20; // Keep the y-axis from zooming into noise on a steady rhythm
+
+export default function TachogramPanel({ beats, stats, windowSeconds, now, onClose }: TachogramPanelProps) {
+  const rated = beats.filter(beat => beat.heartRate !== null && beat.quality !== 'artifact');
+  const rates = rated.map(beat => beat.heartRate as number);
+
+  let low = rates.length > 0 ? Math.min(...rates) : 60;
+  let high = rates.length > 0 ? Math.max(...rates) : 100;
+  if (high - low < MIN_RANGE_BPM) {
+    const mid = (high + low) / 2;
+    low = mid - MIN_RANGE_BPM / 2;
+    high = mid + MIN_RANGE_BPM / 2;
+  }
+  low = Math.floor(low / 10) * 10;
+  high = Math.ceil(high / 10) * 10;
+
+  const start = now - windowSeconds * 1000;
+  const x = (timestamp: number) => ((timestamp - start) / (windowSeconds * 1000)) * WIDTH;
+  const y = (bpm: number) => HEIGHT - ((bpm - low) / (high - low)) * HEIGHT;
+
+  const goodPath = rated
+    .filter(beat => beat.quality === 'good')
+    .map(beat => `${x(beat.timestamp).toFixed(1)},${y(beat.heartRate as number).toFixed(1)}`)
+    .join(' ');
+
+  return (
+    <div className="absolute left-20 bottom-4 w-[28rem] bg-black/60 backdrop-blur-sm border border-white/20 rounded-xl p-4 text-white z-30">
+      <div className="flex items-center justify-between mb-2">
+        <h3 className="text-lg font-bold flex items-center gap-2">
+          <HeartPulse className="w-5 h-5 text-pink-400" />
+          Heart Rate Trend
+        </h3>
+        <button onClick={onClose} className="text-gray-400 hover:text-white">
+          ✕
+        </button>
+      </div>
+
+      <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-36 bg-black/40 rounded border border-white/10">
+        {[low, (low + high) / 2, high].map(level => (
+          <g key={level}>
+            <line x1={0} x2={WIDTH} y1={y(level)} y2={y(level)} stroke="rgba(255,255,255,0.1)" />
+            <text x={4} y={Math.min(Math.max(y(level) - 2, 10), HEIGHT - 2)} fontSize={9} fill="#9ca3af">
+              {Math.round(level)}
+            </text>
+          </g>
+        ))}
+        <polyline points={goodPath} fill="none" stroke="#f472b6" strokeWidth={1.5} />
+        {rated
+          .filter(beat => beat.quality === 'suspect')
+          .map(beat => (
+            <circle
+              key={beat.sampleIndex}
+              cx={x(beat.timestamp)}
+              cy={y(beat.heartRate as number)}
+              r={2.5}
+              fill="#facc15"
+            />
+          ))}
+      </svg>
+
+      <div className="flex justify-between text-[10px] text-gray-500 mt-1">
+        <span>-{windowSeconds}s</span>
+        <span>now</span>
+      </div>
+
+      <div className="grid grid-cols-3 gap-2 mt-2 text-center">
+        <div className="p-2 rounded-lg border border-white/20 bg-black/40">
+          <div className="text-xs text-gray-400">Min</div>
+          <div className="font-mono font-bold">{stats ? Math.round(stats.min) : '--'}</div>
+        </div>
+        <div className="p-2 rounded-lg border border-white/20 bg-black/40">
+          <div className="text-xs text-gray-400">Mean</div>
+          <div className="font-mono font-bold text-pink-400">{stats ? Math.round(stats.mean) : '--'}</div>
+        </div>
+        <div className="p-2 rounded-lg border border-white/20 bg-black/40">
+          <div className="text-xs text-gray-400">Max</div>
+          <div className="font-mono font-bold">{stats ? Math.round(stats.max) : '--'}</div>
+        </div>
+      </div>
+      <div className="text-xs text-gray-400 mt-2">
+        Beat-to-beat rate over the last {windowSeconds}s. Yellow dots mark beats more than 20% off the recent rhythm
+        (ectopic or missed beats) and are left out of the statistics.
+      </div>
+    </div>
+  );
+}
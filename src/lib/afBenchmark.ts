@@ -0,0 +1,257 @@
+import Papa from 'papaparse';
+import { AFDetectionResult, AFDetector, AFDetectorOptions, AFEpisode } from './afDetector';
+import { ECGFilterChain, FilterUtils, createFilterConfig } from './filters';
+import { PQRSTDetector } from './pqrstDetector';
+import { createQRSDetector } from './qrsDetectors';
+import { BenchmarkRecord } from './qrsBenchmark';
+
+// Offline AF detection benchmark against MIT-BIH rhythm annotations
+// Reference AF is every stretch between a '(AFIB' rhythm change and the next rhythm change.
+// Rhythm labels are the aux notes of the '+' annotations in the WFDB atr files. The bundled
+// <id>_annotations_1.csv files keep only the '+' markers, so the labels come from a rhythm
+// table (record, index, rhythm), or from an aux_note column when the annotations were exported
+// with one; records with neither are run for detected burden only. Scoring is by duration
+// (Se, +P, Sp over seconds of AF) plus the share of reference episodes that any detection overlaps
+
+export interface RhythmSegment {
+  rhythm: string; // MIT-BIH rhythm label without the parenthesis, e.g. 'AFIB', 'N', 'AFL'
+  start: number;  // Seconds
+  end: number;
+}
+
+export interface AFBenchmarkRecord extends BenchmarkRecord {
+  rhythm: RhythmSegment[]; // Empty when the record has no rhythm labels
+}
+
+export interface AFDurationCounts {
+  referenceSeconds: number; // Reference AF
+  detectedSeconds: number;  // Detected AF
+  overlapSeconds: number;   // Detected AF inside reference AF
+  nonAFSeconds: number;     // Reference non-AF
+  referenceEpisodes: number;
+  episodesFound: number;    // Reference episodes overlapped by a detection
+}
+
+export interface AFScores {
+  sensitivity: number | null;          // AF seconds detected / reference AF seconds
+  positivePredictivity: number | null; // AF seconds detected correctly / detected AF seconds
+  specificity: number | null;          // Non-AF seconds left undetected / reference non-AF seconds
+  episodeSensitivity: number | null;   // Share of reference episodes found
+}
+
+export interface AFRecordResult extends AFDurationCounts, AFScores {
+  recordId: string;
+  hasReference: boolean; // false when the record has no rhythm labels; counts and scores are then empty
+  durationSeconds: number;
+  detectedBurden: number; // %
+  detectedEpisodes: number;
+}
+
+export interface AFBenchmarkSummary {
+  records: AFRecordResult[];
+  gross: AFDurationCounts & AFScores; // Pooled over the records with rhythm labels
+}
+
+export interface AFBenchmarkOptions extends AFDetectorOptions {
+  sampleRate?: number;
+  useReferenceBeats?: boolean; // Score the AF detector alone, on the annotated beat positions
+  usePWaves?: boolean;
+}
+
+// MIT-BIH Arrhythmia Database records with atrial fibrillation episodes
+export const AF_RECORDS = ['201', '202', '203', '210', '219', '221', '222'];
+
+export interface RhythmChange {
+  index: number;  // Sample of the '+' annotation
+  rhythm: string; // Label with its parenthesis, e.g. '(AFIB'
+}
+
+const AF_RHYTHM = 'AFIB';
+
+const EMPTY_COUNTS: AFDurationCounts = {
+  referenceSeconds: 0,
+  detectedSeconds: 0,
+  overlapSeconds: 0,
+  nonAFSeconds: 0,
+  referenceEpisodes: 0,
+  episodesFound: 0
+};
+const EMPTY_SCORES: AFScores = {
+  sensitivity: null,
+  positivePredictivity: null,
+  specificity: null,
+  episodeSensitivity: null
+};
+
+// WFDB pads aux notes with NUL characters
+const cleanRhythm = (label: string | undefined) => (label ?? '').replace(/\0/g, '').trim();
+
+/**
+ * Rhythm segments covering a record, each lasting until the next rhythm change
+ * @param changes - Rhythm changes in any order; entries without a '(' label are ignored
+ */
+export function rhythmSegments(changes: RhythmChange[], sampleRate: number, totalSamples: number): RhythmSegment[] {
+  const sorted = changes
+    .filter(change => !isNaN(change.index) && change.rhythm.startsWith('('))
+    .sort((a, b) => a.index - b.index);
+
+  return sorted.map((change, i) => ({
+    rhythm: change.rhythm.slice(1),
+    start: change.index / sampleRate,
+    end: (i + 1 < sorted.length ? sorted[i + 1].index : totalSamples) / sampleRate
+  }));
+}
+
+// Rhythm segments from an annotation CSV with index, annotation_symbol and aux_note columns
+export function parseRhythmAnnotations(text: string, sampleRate: number, totalSamples: number): RhythmSegment[] {
+  const results = Papa.parse<{ index: string; annotation_symbol: string; aux_note?: string }>(text.trim(), { header: true });
+  return rhythmSegments(
+    results.data.map(row => ({ index: Number(row.index), rhythm: cleanRhythm(row.aux_note) })),
+    sampleRate,
+    totalSamples
+  );
+}
+
+// Rhythm changes per record from a rhythm table with record, index and rhythm columns
+export function parseRhythmTable(text: string): Map<string, RhythmChange[]> {
+  const results = Papa.parse<{ record: string; index: string; rhythm: string }>(text.trim(), { header: true });
+  const table = new Map<string, RhythmChange[]>();
+  for (const row of results.data) {
+    const change = { index: Number(row.index), rhythm: cleanRhythm(row.rhythm) };
+    if (!row.record || isNaN(change.index) || !change.rhythm.startsWith('(')) continue;
+    if (!table.has(row.record)) table.set(row.record, []);
+    (table.get(row.record) as RhythmChange[]).push(change);
+  }
+  return table;
+}
+
+// Rhythm changes that don't fall on a '+' marker of the record's annotation CSV (a mismatched export)
+export function unmatchedRhythmChanges(changes: RhythmChange[], annotationText: string): RhythmChange[] {
+  const results = Papa.parse<{ index: string; annotation_symbol: string }>(annotationText.trim(), { header: true });
+  const markers = new Set(results.data.filter(row => row.annotation_symbol === '+').map(row => Number(row.index)));
+  return changes.filter(change => !markers.has(change.index));
+}
+
+// Total seconds shared by two sets of non-overlapping intervals
+function overlapSeconds(a: { start: number; end: number }[], b: { start: number; end: number }[]): number {
+  return a.reduce(
+    (sum, x) => sum + b.reduce((inner, y) => inner + Math.max(0, Math.min(x.end, y.end) - Math.max(x.start, y.start)), 0),
+    0
+  );
+}
+
+const totalSeconds = (intervals: { start: number; end: number }[]) =>
+  intervals.reduce((sum, interval) => sum + (interval.end - interval.start), 0);
+
+/**
+ * Time agreement between detected and reference AF
+ * @param detected - Detected episodes
+ * @param reference - Rhythm segments covering the record
+ * @param durationSeconds - Record length
+ */
+export function countAFDurations(
+  detected: AFEpisode[],
+  reference: RhythmSegment[],
+  durationSeconds: number
+): AFDurationCounts {
+  const referenceAF = reference.filter(segment => segment.rhythm === AF_RHYTHM);
+  const referenceSeconds = totalSeconds(referenceAF);
+
+  return {
+    referenceSeconds,
+    detectedSeconds: totalSeconds(detected),
+    overlapSeconds: overlapSeconds(detected, referenceAF),
+    nonAFSeconds: durationSeconds - referenceSeconds,
+    referenceEpisodes: referenceAF.length,
+    episodesFound: referenceAF.filter(segment => overlapSeconds([segment], detected) > 0).length
+  };
+}
+
+// Se, +P, Sp and episode Se from duration counts (empty denominators give null)
+export function scoreAFDurations(counts: AFDurationCounts): AFScores {
+  const { referenceSeconds, detectedSeconds, overlapSeconds: overlap, nonAFSeconds } = counts;
+  return {
+    sensitivity: referenceSeconds > 0 ? overlap / referenceSeconds : null,
+    positivePredictivity: detectedSeconds > 0 ? overlap / detectedSeconds : null,
+    specificity: nonAFSeconds > 0 ? 1 - (detectedSeconds - overlap) / nonAFSeconds : null,
+    episodeSensitivity: counts.referenceEpisodes > 0 ? counts.episodesFound / counts.referenceEpisodes : null
+  };
+}
+
+// AF detection over one record, from the annotated or detected beats
+export function detectRecordAF(record: AFBenchmarkRecord, options: AFBenchmarkOptions = {}): AFDetectionResult {
+  const { sampleRate = 360, useReferenceBeats = true, usePWaves = true, ...detectorOptions } = options;
+
+  const signal = FilterUtils.filterSignal(record.signal, new ECGFilterChain(createFilterConfig(sampleRate)), 'zero-phase');
+  const beats = useReferenceBeats
+    ? record.referenceBeats.filter(index => index < signal.length)
+    : [...createQRSDetector('pan-tompkins', sampleRate).detectQRS(signal)].sort((a, b) => a - b);
+  const pWaves = usePWaves ? new PQRSTDetector(sampleRate).detectPWaves(signal, beats) : undefined;
+
+  return new AFDetector(detectorOptions).detect(beats.map(index => index / sampleRate), pWaves);
+}
+
+// Run the detector over one record and score it against the rhythm labels
+export function evaluateAFRecord(record: AFBenchmarkRecord, options: AFBenchmarkOptions = {}): AFRecordResult {
+  const durationSeconds = record.signal.length / (options.sampleRate ?? 360);
+  const result = detectRecordAF(record, options);
+  const hasReference = record.rhythm.length > 0;
+  const counts = hasReference
+    ? countAFDurations(result.episodes, record.rhythm, durationSeconds)
+    : { ...EMPTY_COUNTS, detectedSeconds: totalSeconds(result.episodes) };
+
+  return {
+    recordId: record.id,
+    hasReference,
+    durationSeconds,
+    detectedBurden: (totalSeconds(result.episodes) / durationSeconds) * 100,
+    detectedEpisodes: result.episodes.length,
+    ...counts,
+    ...(hasReference ? scoreAFDurations(counts) : EMPTY_SCORES)
+  };
+}
+
+// Pool the counts of the records that have rhythm labels
+export function summarizeAFBenchmark(records: AFRecordResult[]): AFBenchmarkSummary {
+  const pooled = records
+    .filter(r => r.hasReference)
+    .reduce<AFDurationCounts>(
+      (acc, r) => ({
+        referenceSeconds: acc.referenceSeconds + r.referenceSeconds,
+        detectedSeconds: acc.detectedSeconds + r.detectedSeconds,
+        overlapSeconds: acc.overlapSeconds + r.overlapSeconds,
+        nonAFSeconds: acc.nonAFSeconds + r.nonAFSeconds,
+        referenceEpisodes: acc.referenceEpisodes + r.referenceEpisodes,
+        episodesFound: acc.episodesFound + r.episodesFound
+      }),
+      EMPTY_COUNTS
+    );
+
+  return { records, gross: { ...pooled, ...scoreAFDurations(pooled) } };
+}
+
+// Benchmark the AF detector over a set of loaded records
+export function runAFBenchmark(records: AFBenchmarkRecord[], options: AFBenchmarkOptions = {}): AFBenchmarkSummary {
+  return summarizeAFBenchmark(records.map(record => evaluateAFRecord(record, options)));
+}
+
+// Plain-text results table, one row per record plus a gross row; '-' where there is no reference
+export function formatAFBenchmarkTable(summary: AFBenchmarkSummary): string {
+  const pct = (value: number | null, scale: number = 100) => (value === null ? '-' : (value * scale).toFixed(1)).padStart(7);
+  const header = 'Record  Min   Burden%    Ref%  Ep  Ref     Se%    +P%    Sp%   EpSe%';
+  const rows = summary.records.map(r =>
+    `${r.recordId.padEnd(6)} ${(r.durationSeconds / 60).toFixed(1).padStart(4)} ` +
+    `${pct(r.detectedBurden, 1)} ${pct(r.hasReference ? (r.referenceSeconds / r.durationSeconds) * 100 : null, 1)} ` +
+    `${String(r.detectedEpisodes).padStart(3)} ${(r.hasReference ? String(r.referenceEpisodes) : '-').padStart(4)}` +
+    `${pct(r.sensitivity)}${pct(r.positivePredictivity)}${pct(r.specificity)}${pct(r.episodeSensitivity)}`
+  );
+  const g = summary.gross;
+
+  return [
+    'AF detection (duration-based)',
+    header,
+    ...rows,
+    `${'Gross'.padEnd(6)} ${''.padStart(4)} ${''.padStart(7)} ${''.padStart(7)} ${''.padStart(3)} ${''.padStart(4)}` +
+    `${pct(g.sensitivity)}${pct(g.positivePredictivity)}${pct(g.specificity)}${pct(g.episodeSensitivity)}`
+  ].join('\n');
+}
@@ -1,8 +1,22 @@
-import { PanTompkinsDetector } from "./panTompkinsDetector";
+import { createQRSDetector, QRSDetectorName } from "./qrsDetectors";
+
+// 'instantaneous' (default): beat-to-beat rate from each accepted RR interval, follows
+// exercise onset and recovery within a few beats
+// 'averaged': moving average over the window with a slew limit (steady display, lags rate changes)
+export type BPMMode = 'averaged' | 'instantaneous';
+
+// Instantaneous mode rejects an RR interval deviating more than this from the recent median
+const RR_OUTLIER_TOLERANCE = 0.2;
+// Consecutive consistent rejections taken as a genuine rate change rather than artifacts
+const RR_REANCHOR_COUNT = 3;
 
 export class BPMCalculator {
   private bpmWindow: number[] = [];
   private bpmSmooth: number | null = null;
+  private mode: BPMMode;
+  private rrHistory: number[] = []; // Accepted RR intervals in samples (instantaneous mode)
+  private rejectedRR: number[] = []; // Consecutive rejected RR intervals
+  private instantaneousBPM: number | null = null;
   private sampleRate: number;
   private windowSize: number;
   private minBPM: number;
@@ -14,12 +28,14 @@ export class BPMCalculator {
     sampleRate: number = 360,
     windowSize: number = 5,
     minBPM: number = 40,
-    maxBPM: number = 200
+    maxBPM: number = 200,
+    mode: BPMMode = 'instantaneous'
   ) {
     this.sampleRate = sampleRate;
     this.windowSize = windowSize;
     this.minBPM = minBPM;
     this.maxBPM = maxBPM;
+    this.mode = mode;
     this.refractoryPeriod = Math.floor(sampleRate * 0.2); // 200ms refractory period = 72 samples at 360Hz
     this.minDistance = Math.floor(sampleRate * 0.08); // 80ms minimum distance = 29 samples at 360Hz
   }
@@ -70,14 +86,13 @@ export class BPMCalculator {
       }
     }
 
-    // Further filtering - keep only the highest peaks if there are too many
-    // Adjusted for 1000 points buffer
-    const maxPeaksFor1000Points = Math.floor(1000 / (this.sampleRate * 0.6)); // ~5 peaks max for 1000 points
-    if (peaks.length > maxPeaksFor1000Points) {
+    // Further filtering - keep only the highest peaks if there are more than maxBPM allows
+    const maxPeaks = this.getMaxPeaks(dataLength);
+    if (peaks.length > maxPeaks) {
       // Sort peaks by amplitude
       const peaksByAmplitude = [...peaks].sort((a, b) => data[b] - data[a]);
       // Keep only the top peaks
-      const topPeaks = peaksByAmplitude.slice(0, maxPeaksFor1000Points);
+      const topPeaks = peaksByAmplitude.slice(0, maxPeaks);
       // Re-sort by position
       peaks.length = 0;
       peaks.push(...topPeaks.sort((a, b) => a - b));
@@ -86,6 +101,15 @@ export class BPMCalculator {
     return this.filterPeaksByRate(peaks);
   }
 
+  /**
+   * Most beats a buffer can hold at maxBPM (one extra for a beat at each edge)
+   * @param length - Buffer length in samples
+   */
+  getMaxPeaks(length: number): number {
+    const durationSeconds = length / this.sampleRate;
+    return Math.floor(durationSeconds * this.maxBPM / 60) + 1;
+  }
+
   /**
    * Filter peaks by refractory period to avoid double-counting
    * @param peaks - Array of peak indices
@@ -157,6 +181,76 @@ export class BPMCalculator {
     return this.bpmSmooth;
   }
 
+  /**
+   * Feed one RR interval (instantaneous mode)
+   * Intervals outside the BPM range, or more than 20% away from the median of recent
+   * accepted intervals, are rejected as missed or extra beats. Three consecutive rejected
+   * intervals that agree with each other re-anchor the history, so a real step change
+   * (exercise onset, recovery) is followed within a few beats
+   * @param rrSamples - Interval between consecutive R-peaks in samples
+   * @returns Beat-to-beat BPM, or null if the interval was rejected
+   */
+  addRRInterval(rrSamples: number): number | null {
+    const bpm = (60 * this.sampleRate) / rrSamples;
+    if (bpm < this.minBPM || bpm > this.maxBPM) return null;
+
+    if (this.rrHistory.length >= RR_REANCHOR_COUNT) {
+      const reference = median(this.rrHistory);
+      if (Math.abs(rrSamples - reference) > RR_OUTLIER_TOLERANCE * reference) {
+        this.rejectedRR.push(rrSamples);
+        if (this.rejectedRR.length < RR_REANCHOR_COUNT) return null;
+
+        const rejectedMedian = median(this.rejectedRR);
+        const consistent = this.rejectedRR.every(
+          rr => Math.abs(rr - rejectedMedian) <= RR_OUTLIER_TOLERANCE * rejectedMedian
+        );
+        if (!consistent) {
+          this.rejectedRR.shift();
+          return null;
+        }
+        this.rrHistory = [...this.rejectedRR];
+        this.rejectedRR = [];
+        this.instantaneousBPM = bpm;
+        return bpm;
+      }
+    }
+
+    this.rejectedRR = [];
+    this.rrHistory.push(rrSamples);
+    if (this.rrHistory.length > Math.max(this.windowSize, RR_REANCHOR_COUNT)) {
+      this.rrHistory.shift();
+    }
+    this.instantaneousBPM = bpm;
+    return bpm;
+  }
+
+  /**
+   * Latest accepted beat-to-beat BPM (instantaneous mode)
+   */
+  getInstantaneousBPM(): number | null {
+    return this.instantaneousBPM;
+  }
+
+  setMode(mode: BPMMode): void {
+    this.mode = mode;
+  }
+
+  getMode(): BPMMode {
+    return this.mode;
+  }
+
+  /**
+   * Current display value for the active mode
+   * @param peaks - R-peak indices in the analysis window (used by the averaged mode)
+   * @returns BPM or null when no valid rate is available
+   */
+  getCurrentBPM(peaks: number[]): number | null {
+    if (this.mode === 'instantaneous') return this.instantaneousBPM;
+
+    const bpm = this.calculateBPMFromPeaks(peaks);
+    return bpm === null ? null : this.smoothBPM(bpm);
+  }
+
   /**
    * Complete BPM calculation pipeline
    * @param data - ECG data array
@@ -173,17 +267,17 @@ export class BPMCalculator {
   }
 
   /**
-   * Generate peak visualization data for 1000 points
-   * @param data - ECG data array (1000 points)
+   * Generate peak visualization data
+   * @param data - ECG data array
    * @param peaks - Peak indices
-   * @returns Array for peak visualization (1000 points)
+   * @returns Array for peak visualization (same length as data)
    */
   generatePeakVisualization(data: number[], peaks: number[]): number[] {
     const peakData = new Array(data.length).fill(0);
 
     peaks.forEach(peakIndex => {
       const peakValue = data[peakIndex];
-      // Create peak markers - adjusted for 360Hz and 1000 points
+      // Create peak markers - 20ms wide at any sample rate
       const markerWidth = Math.floor(this.sampleRate * 0.02); // 20ms marker width = ~7 samples at 360Hz
       for (let j = peakIndex - markerWidth; j <= peakIndex + markerWidth; j++) {
         if (j >= 0 && j < data.length) {
@@ -201,6 +295,9 @@ export class BPMCalculator {
   reset(): void {
     this.bpmWindow = [];
     this.bpmSmooth = null;
+    this.rrHistory = [];
+    this.rejectedRR = [];
+    this.instantaneousBPM = null;
   }
 
   /**
@@ -245,6 +342,12 @@ export class BPMCalculator {
   }
 }
 
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[mid - 1] + sorted[mid]) / 2 : sorted[mid];
+}
+
 /**
  * Peak detection with threshold and refractory period
  */
@@ -302,18 +405,22 @@ export function getQRSPeaks(signal: number[], sampleRate: number): number[] {
 
 /**
  * Get R-peaks using multiple methods for robustness
+ * @param detector - QRS detector to try first (see qrsDetectors.ts)
  */
-export function getRPeaks(signal: number[], sampleRate: number): number[] {
-  // 1. Try Pan-Tompkins first
-  const panTompkins = new PanTompkinsDetector(sampleRate);
-  let peaks = panTompkins.detectQRS(signal);
+export function getRPeaks(
+  signal: number[],
+  sampleRate: number,
+  detector: QRSDetectorName = 'pan-tompkins'
+): number[] {
+  // 1. Try the selected detector first
+  let peaks = createQRSDetector(detector, sampleRate).detectQRS(signal);
 
-  // 2. If Pan-Tompkins fails (no peaks), fallback to simple detection + QRS filtering
+  // 2. If it fails (no peaks), fallback to simple detection + QRS filtering
   if (!peaks || peaks.length === 0) {
     const rawPeaks = detectRPeaks(signal, sampleRate, 0.25, 300);
     peaks = rawPeaks.filter(idx => filterQRS(signal, idx, sampleRate));
   } else {
-    // Also filter Pan-Tompkins peaks by QRS morphology for extra robustness
+    // Also filter detected peaks by QRS morphology for extra robustness
     peaks = peaks.filter(idx => filterQRS(signal, idx, sampleRate));
   }
 
@@ -0,0 +1,224 @@
+import { HRVBeat } from './hrvWindows';
+import { detrendLinear, resampleRR, welchPSD, RESAMPLE_RATE_HZ } from './hrvSpectral';
+
+// Paced breathing and resonance-frequency biofeedback
+// Breathing near 6 breaths per minute drives heart rate in phase with respiration, and the
+// respiratory sinus arrhythmia (RSA) reaches its largest amplitude at the person's resonance
+// frequency (Lehrer et al. 2000). RSA amplitude is the mean peak-to-trough heart rate swing per
+// breath; coherence is the share of HRV power concentrated in the dominant 0.04-0.26 Hz peak
+// (McCraty et al. 2009). The resonance protocol breathes each rate for a fixed step and scores
+// the last minute of it, once the analysis window holds only that rate
+
+export type BreathPhase = 'inhale' | 'exhale';
+
+export interface PacerState {
+  phase: BreathPhase;
+  progress: number; // 0-1 through the current phase
+  volume: number;   // 0 (empty) to 1 (full), eased for the animation
+}
+
+export interface BiofeedbackMetrics {
+  rsaAmplitude: number;   // BPM, mean peak-to-trough heart rate per breath
+  coherence: number;      // 0-100, % of 0.0033-0.4 Hz power in the dominant peak
+  peakFrequency: number;  // Hz, dominant heart rate oscillation
+  beatCount: number;
+}
+
+export interface BiofeedbackSample extends BiofeedbackMetrics {
+  time: number; // Seconds from the start of the breathing session
+}
+
+export interface ResonanceStep {
+  breathsPerMinute: number;
+  rsaAmplitude: number | null; // null when the step had too few beats
+  coherence: number | null;
+  peakFrequency: number | null;
+}
+
+export interface ResonanceProtocolResult {
+  steps: ResonanceStep[];
+  resonanceRate: number | null; // Breaths per minute with the largest RSA amplitude
+}
+
+export interface BreathingSessionData {
+  mode: 'paced' | 'resonance';
+  startTime: number;        // ms since epoch
+  durationSeconds: number;
+  breathsPerMinute: number; // Rate for paced mode, last rate reached for the protocol
+  samples: BiofeedbackSample[];
+  protocol?: ResonanceProtocolResult;
+}
+
+// Rates stepped through from fast to slow, in breaths per minute
+export const RESONANCE_RATES = [7, 6.5, 6, 5.5, 5, 4.5];
+export const DEFAULT_STEP_SECONDS = 120;
+export const DEFAULT_BREATHS_PER_MINUTE = 6;
+// Shorter inhale than exhale favours vagal activity
+export const DEFAULT_INHALE_FRACTION = 0.4;
+export const ANALYSIS_WINDOW_S = 60;
+
+const COHERENCE_PEAK_BAND: [number, number] = [0.04, 0.26];
+const COHERENCE_TOTAL_BAND: [number, number] = [0.0033, 0.4];
+// Peak power is summed ±0.03 Hz around the maximum (McCraty et al. 2009), and never less than
+// the Hann window's main lobe (two bins either side), so a pure oscillation scores close to 100
+const COHERENCE_PEAK_HALF_WIDTH_HZ = 0.03;
+const HANN_MAIN_LOBE_BINS = 2;
+const MIN_ANALYSIS_BEATS = 20;
+
+/**
+ * Pacer position at a point in the breathing session
+ * @param elapsedSeconds Time since the pacer started
+ * @param breathsPerMinute Breathing rate
+ * @param inhaleFraction Fraction of each breath spent inhaling
+ */
+export function pacerState(
+  elapsedSeconds: number,
+  breathsPerMinute: number,
+  inhaleFraction: number = DEFAULT_INHALE_FRACTION
+): PacerState {
+  const period = 60 / breathsPerMinute;
+  const cycle = (elapsedSeconds % period) / period;
+  const ease = (x: number) => 0.5 - 0.5 * Math.cos(Math.PI * x);
+
+  if (cycle < inhaleFraction) {
+    const progress = cycle / inhaleFraction;
+    return { phase: 'inhale', progress, volume: ease(progress) };
+  }
+  const progress = (cycle - inhaleFraction) / (1 - inhaleFraction);
+  return { phase: 'exhale', progress, volume: 1 - ease(progress) };
+}
+
+/**
+ * RSA amplitude and coherence over the most recent analysis window
+ * @param beats Beats in time order (HRVCalculator clock)
+ * @param breathsPerMinute Paced rate, which sets the breath cycles used for RSA
+ * @returns null with fewer than 20 beats in the window
+ */
+export function computeBiofeedback(
+  beats: HRVBeat[],
+  breathsPerMinute: number,
+  windowSeconds: number = ANALYSIS_WINDOW_S
+): BiofeedbackMetrics | null {
+  if (beats.length === 0) return null;
+  const end = beats[beats.length - 1].time;
+  const window = beats.filter(beat => beat.time > end - windowSeconds);
+  if (window.length < MIN_ANALYSIS_BEATS) return null;
+
+  // Peak-to-trough heart rate in each complete breath, counted back from the latest beat
+  const period = 60 / breathsPerMinute;
+  const swings: number[] = [];
+  for (let cycleEnd = end; cycleEnd - period >= window[0].time; cycleEnd -= period) {
+    const rates = window
+      .filter(beat => beat.time > cycleEnd - period && beat.time <= cycleEnd)
+      .map(beat => 60000 / beat.rr);
+    if (rates.length >= 2) swings.push(Math.max(...rates) - Math.min(...rates));
+  }
+
+  // Coherence from the spectrum of the evenly resampled tachogram
+  const { values } = resampleRR(window.map(beat => beat.rr), RESAMPLE_RATE_HZ);
+  const { frequencies, psd } = welchPSD(detrendLinear(values), RESAMPLE_RATE_HZ);
+  const inBand = (k: number, [low, high]: [number, number]) => frequencies[k] >= low && frequencies[k] < high;
+
+  let peakIndex = -1;
+  for (let k = 0; k < frequencies.length; k++) {
+    if (inBand(k, COHERENCE_PEAK_BAND) && (peakIndex < 0 || psd[k] > psd[peakIndex])) peakIndex = k;
+  }
+  const resolution = frequencies.length > 1 ? frequencies[1] - frequencies[0] : 0;
+  const halfWidth = Math.max(COHERENCE_PEAK_HALF_WIDTH_HZ, HANN_MAIN_LOBE_BINS * resolution + 1e-9);
+  let total = 0;
+  let peak = 0;
+  for (let k = 0; k < frequencies.length; k++) {
+    if (!inBand(k, COHERENCE_TOTAL_BAND)) continue;
+    total += psd[k];
+    if (peakIndex >= 0 && Math.abs(frequencies[k] - frequencies[peakIndex]) <= halfWidth) peak += psd[k];
+  }
+
+  return {
+    rsaAmplitude: swings.length > 0 ? swings.reduce((sum, s) => sum + s, 0) / swings.length : 0,
+    coherence: total > 0 ? (peak / total) * 100 : 0,
+    peakFrequency: peakIndex >= 0 ? frequencies[peakIndex] : 0,
+    beatCount: window.length
+  };
+}
+
+/**
+ * Steps through breathing rates and scores each one to find the resonance frequency
+ */
+export class ResonanceProtocol {
+  private rates: number[];
+  private stepSeconds: number;
+  private steps: ResonanceStep[] = [];
+
+  /**
+   * @param rates Breaths per minute, in the order they are breathed
+   * @param stepSeconds Time at each rate; at least the analysis window so the score sees only that rate
+   */
+  constructor(rates: number[] = RESONANCE_RATES, stepSeconds: number = DEFAULT_STEP_SECONDS) {
+    if (rates.length === 0) {
+      throw new Error('Resonance protocol needs at least one breathing rate');
+    }
+    if (stepSeconds < ANALYSIS_WINDOW_S) {
+      throw new Error(`Resonance protocol steps must last at least ${ANALYSIS_WINDOW_S}s`);
+    }
+    this.rates = [...rates];
+    this.stepSeconds = stepSeconds;
+  }
+
+  get totalSeconds(): number {
+    return this.rates.length * this.stepSeconds;
+  }
+
+  get stepCount(): number {
+    return this.rates.length;
+  }
+
+  /**
+   * Step being breathed at a point in the protocol
+   * @returns null once every rate has been breathed
+   */
+  stepAt(
+    elapsedSeconds: number
+  ): { index: number; breathsPerMinute: number; startSeconds: number; remainingSeconds: number } | null {
+    const index = Math.floor(elapsedSeconds / this.stepSeconds);
+    if (index >= this.rates.length) return null;
+    return {
+      index,
+      breathsPerMinute: this.rates[index],
+      startSeconds: index * this.stepSeconds,
+      remainingSeconds: (index + 1) * this.stepSeconds - elapsedSeconds
+    };
+  }
+
+  /**
+   * Score every step that has ended, each on the analysis window before its own end; call
+   * regularly while the protocol runs
+   * @param elapsedSeconds Time since the protocol started
+   * @param beats Beats since the protocol started, times in seconds from its start
+   * @returns true once the last step has been scored
+   */
+  update(elapsedSeconds: number, beats: HRVBeat[]): boolean {
+    while (this.steps.length < this.rates.length && elapsedSeconds >= (this.steps.length + 1) * this.stepSeconds) {
+      const breathsPerMinute = this.rates[this.steps.length];
+      const stepEnd = (this.steps.length + 1) * this.stepSeconds;
+      const metrics = computeBiofeedback(beats.filter(beat => beat.time <= stepEnd), breathsPerMinute);
+      this.steps.push({
+        breathsPerMinute,
+        rsaAmplitude: metrics?.rsaAmplitude ?? null,
+        coherence: metrics?.coherence ?? null,
+        peakFrequency: metrics?.peakFrequency ?? null
+      });
+    }
+    return this.steps.length === this.rates.length;
+  }
+
+  /**
+   * Scored steps so far and the rate with the largest RSA amplitude (coherence breaks ties)
+   */
+  getResult(): ResonanceProtocolResult {
+    const scored = this.steps.filter(step => step.rsaAmplitude !== null);
+    const best = [...scored].sort(
+      (a, b) => (b.rsaAmplitude as number) - (a.rsaAmplitude as number) || (b.coherence ?? 0) - (a.coherence ?? 0)
+    )[0];
+    return { steps: [...this.steps], resonanceRate: best ? best.breathsPerMinute : null };
+  }
+}
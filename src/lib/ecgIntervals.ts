@@ -1,11 +1,40 @@
 import type { PQRSTPoint } from './pqrstDetector';
+import { ReferenceProfile, ReferenceRanges, getReferenceRanges } from './referenceRanges';
+
+// Fiducials that precede their R-peak; every other point follows it
+const PRE_R_TYPES: PQRSTPoint['type'][] = ['Pon', 'P', 'Poff', 'QRSon', 'Q'];
+
+// Heart-rate correction of the QT interval. Bazett overcorrects above ~90 BPM;
+// Fridericia, Framingham and Hodges hold up better at exercise rates, and the
+// subject-specific regression fits QT = a * RR^b on the session's own beats
+export type QTcFormula = 'bazett' | 'fridericia' | 'framingham' | 'hodges' | 'regression';
+
+export const QTC_FORMULA_LABELS: Record<QTcFormula, string> = {
+  bazett: 'Bazett',
+  fridericia: 'Fridericia',
+  framingham: 'Framingham',
+  hodges: 'Hodges',
+  regression: 'Subject regression'
+};
+
+export const QTC_FORMULAS = Object.keys(QTC_FORMULA_LABELS) as QTcFormula[];
+
+// Power-law QT/RR relation of one subject: QT = coefficient * RR^exponent (RR in s)
+export interface QTRRRegression {
+  exponent: number;
+  coefficient: number; // QT in ms at RR = 1 s
+  r2: number;
+  pairs: number;
+}
 
 export interface ECGIntervals {
   rr: number;       // RR interval in ms
   pr: number;       // PR interval in ms
   qrs: number;      // QRS duration in ms
   qt: number;       // QT interval in ms
-  qtc: number;      // Corrected QT interval in ms
+  qtc: number;      // Corrected QT interval in ms, using qtcFormula
+  qtcFormula: QTcFormula; // Formula actually applied (regression falls back to Fridericia until fitted)
+  qtcByFormula: Partial<Record<QTcFormula, number>>; // Every formula that could be evaluated
   bpm: number;      // Heart rate in bpm
   status: {         // Status indicators for each interval
     rr: 'normal' | 'short' | 'long' | 'unknown';
@@ -17,49 +46,284 @@ export interface ECGIntervals {
   };
 }
 
+// Why a beat was left out of the session aggregates
+export type BeatExclusionReason =
+  | 'incomplete'            // QRS boundaries or T wave not found
+  | 'no-rr'                 // First beat, no preceding R for RR/QTc
+  | 'rr-out-of-range'       // RR outside 300-2000 ms (30-200 BPM)
+  | 'ectopic'               // RR more than 20% away from the local median RR (premature/missed beat)
+  | 'implausible-interval'; // PR, QRS or QT outside physiological bounds
+
+export interface BeatIntervals {
+  beatIndex: number;   // Position of the complex in the analysed beats
+  rPeak: number;       // Absolute R-peak position
+  rr: number | null;   // All intervals in ms, null when not measurable
+  pr: number | null;
+  qrs: number | null;
+  qt: number | null;
+  qtc: number | null;  // Using the calculator's QTc formula
+  exclusionReason: BeatExclusionReason | null; // null if the beat counts towards aggregates
+}
+
+export interface IntervalStatistic {
+  median: number;
+  q1: number;
+  q3: number;
+  iqr: number;
+  count: number; // Beats with this interval measured
+}
+
+export interface IntervalSummary {
+  rr: IntervalStatistic | null;
+  pr: IntervalStatistic | null;
+  qrs: IntervalStatistic | null;
+  qt: IntervalStatistic | null;
+  qtc: IntervalStatistic | null;
+  qtcFormula: QTcFormula;
+  qtcByFormula: Partial<Record<QTcFormula, IntervalStatistic>>;
+  qtRegression: QTRRRegression | null;
+  totalBeats: number;
+  includedBeats: number;
+  exclusions: Partial<Record<BeatExclusionReason, number>>;
+}
+
+const ECTOPIC_RR_TOLERANCE = 0.2;
+// Ectopy is judged against the median of this many surrounding RR intervals, so rate changes aren't ectopic
+const ECTOPIC_MEDIAN_WINDOW = 11;
+// The regression needs enough beats over a wide enough RR range to pin down the exponent
+const MIN_REGRESSION_PAIRS = 20;
+const MIN_REGRESSION_RR_SPAN_MS = 150;
+// Live QT/RR pairs kept for the regression (~5 minutes at 120 BPM)
+const MAX_LIVE_QT_RR_PAIRS = 600;
+// Physiological bounds for a single-beat measurement (ms)
+const PLAUSIBLE_PR: [number, number] = [60, 400];
+const PLAUSIBLE_QRS: [number, number] = [40, 200];
+const PLAUSIBLE_QT: [number, number] = [200, 700];
+
+/**
+ * Group PQRST points into complexes, one per R wave
+ * Pre-R fiducials (P wave, QRS onset, Q) join the next R, everything else the previous R
+ * @param points Points in any order; grouping uses absolutePosition
+ * @param sampleRate Sampling rate in Hz
+ */
+export function groupIntoComplexes(points: PQRSTPoint[], sampleRate: number): PQRSTPoint[][] {
+  if (points.length === 0) return [];
+  
+  // Sort points by position
+  const sortedPoints = [...points].sort((a, b) => a.absolutePosition - b.absolutePosition);
+  
+  // Minimum distance between R waves: 200ms refractory period (72 samples at 360Hz)
+  const minRRDistance = Math.floor(sampleRate * 0.2);
+  
+  // One complex per R wave
+  const rPositions: number[] = [];
+  for (const point of sortedPoints) {
+    if (point.type !== 'R') continue;
+    const lastRPosition = rPositions[rPositions.length - 1];
+    if (lastRPosition !== undefined && point.absolutePosition - lastRPosition < minRRDistance) {
+      // Too close to previous R wave, skip this one (likely noise)
+      continue;
+    }
+    rPositions.push(point.absolutePosition);
+  }
+  if (rPositions.length === 0) return [];
+  
+  const complexes: PQRSTPoint[][] = rPositions.map(() => []);
+  let nextR = 0; // First R at or after the current point
+  for (const point of sortedPoints) {
+    while (nextR < rPositions.length && rPositions[nextR] < point.absolutePosition) nextR++;
+  
+    if (point.type === 'R') {
+      if (rPositions[nextR] === point.absolutePosition) complexes[nextR].push(point);
+    } else if (PRE_R_TYPES.includes(point.type)) {
+      if (nextR < rPositions.length) complexes[nextR].push(point);
+    } else {
+      const previousR = rPositions[nextR] === point.absolutePosition ? nextR : nextR - 1;
+      if (previousR >= 0) complexes[previousR].push(point);
+    }
+  }
+  
+  return complexes;
+}
+
+/**
+ * Fit QT = a * RR^b by least squares on ln(QT) vs ln(RR)
+ * @param pairs QT and RR in ms, one pair per beat
+ * @returns null with too few beats, too narrow an RR range or an implausible exponent
+ */
+export function fitQTRRRegression(pairs: { qt: number; rr: number }[]): QTRRRegression | null {
+  const valid = pairs.filter(p => p.qt > 0 && p.rr > 0);
+  if (valid.length < MIN_REGRESSION_PAIRS) return null;
+  
+  const rrs = valid.map(p => p.rr);
+  if (Math.max(...rrs) - Math.min(...rrs) < MIN_REGRESSION_RR_SPAN_MS) return null;
+  
+  const xs = valid.map(p => Math.log(p.rr / 1000));
+  const ys = valid.map(p => Math.log(p.qt));
+  const meanX = xs.reduce((a, b) => a + b, 0) / xs.length;
+  const meanY = ys.reduce((a, b) => a + b, 0) / ys.length;
+  let sxx = 0;
+  let sxy = 0;
+  let syy = 0;
+  for (let i = 0; i < xs.length; i++) {
+    sxx += (xs[i] - meanX) ** 2;
+    sxy += (xs[i] - meanX) * (ys[i] - meanY);
+    syy += (ys[i] - meanY) ** 2;
+  }
+  if (sxx === 0) return null;
+  
+  const exponent = sxy / sxx;
+  // Published individual exponents lie well inside (0, 1); anything else is measurement noise
+  if (exponent <= 0 || exponent >= 1) return null;
+  
+  return {
+    exponent,
+    coefficient: Math.exp(meanY - exponent * meanX),
+    r2: syy > 0 ? (sxy * sxy) / (sxx * syy) : 0,
+    pairs: valid.length
+  };
+}
+
+/**
+ * Heart-rate corrected QT
+ * @param qt QT interval in ms
+ * @param rr RR interval in ms
+ * @param formula Correction formula
+ * @param regression Subject fit, required for 'regression'
+ * @returns QTc in ms, or null if the formula cannot be evaluated
+ */
+export function correctQT(
+  qt: number,
+  rr: number,
+  formula: QTcFormula,
+  regression: QTRRRegression | null = null
+): number | null {
+  if (qt <= 0 || rr <= 0) return null;
+  const rrSeconds = rr / 1000;
+  
+  switch (formula) {
+    case 'bazett':
+      return qt / Math.sqrt(rrSeconds);
+    case 'fridericia':
+      return qt / Math.cbrt(rrSeconds);
+    case 'framingham':
+      return qt + 154 * (1 - rrSeconds);
+    case 'hodges':
+      return qt + 1.75 * (60 / rrSeconds - 60);
+    case 'regression':
+      return regression ? qt / Math.pow(rrSeconds, regression.exponent) : null;
+  }
+}
+
+// Linear-interpolated quantile of sorted values
+function quantile(sorted: number[], q: number): number {
+  const position = (sorted.length - 1) * q;
+  const lower = Math.floor(position);
+  const upper = Math.ceil(position);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (position - lower);
+}
+
+function intervalStatistic(values: number[]): IntervalStatistic | null {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const q1 = quantile(sorted, 0.25);
+  const q3 = quantile(sorted, 0.75);
+  return { median: quantile(sorted, 0.5), q1, q3, iqr: q3 - q1, count: sorted.length };
+}
+
 export class ECGIntervalCalculator {
   private sampleRate: number;
-  private gender: 'male' | 'female' = 'male';
+  private profile: ReferenceProfile = { gender: 'male' };
+  private ranges: ReferenceRanges = getReferenceRanges(this.profile);
   private lastIntervals: ECGIntervals | null = null;
+  private qtcFormula: QTcFormula = 'bazett';
+  private qtRegression: QTRRRegression | null = null;
+  private liveQTRRPairs: { rPeak: number; qt: number; rr: number }[] = [];
   
   constructor(sampleRate: number = 360) { // Updated default from 500 to 360
     this.sampleRate = sampleRate;
   }
   
   setGender(gender: 'male' | 'female') {
-    this.gender = gender;
+    this.setReferenceProfile({ ...this.profile, gender });
+  }
+  
+  /**
+   * Classify intervals against the normal limits for this subject
+   * @param profile Age, sex, training status and medications
+   */
+  setReferenceProfile(profile: ReferenceProfile) {
+    this.profile = { ...profile };
+    this.ranges = getReferenceRanges(this.profile);
+  }
+  
+  getReferenceRanges(): ReferenceRanges {
+    return this.ranges;
+  }
+  
+  setQTcFormula(formula: QTcFormula) {
+    this.qtcFormula = formula;
+  }
+  
+  getQTcFormula(): QTcFormula {
+    return this.qtcFormula;
+  }
+  
+  /**
+   * Subject QT/RR fit from the live beats or the last calculateBeatIntervals call (null until enough beats)
+   */
+  getQTRRRegression(): QTRRRegression | null {
+    return this.qtRegression;
+  }
+  
+  // Selected formula, or Fridericia while the regression has not been fitted
+  private effectiveQTcFormula(): QTcFormula {
+    return this.qtcFormula === 'regression' && !this.qtRegression ? 'fridericia' : this.qtcFormula;
+  }
+  
+  // QTc under every formula that can be evaluated
+  private correctAll(qt: number, rr: number): Partial<Record<QTcFormula, number>> {
+    const result: Partial<Record<QTcFormula, number>> = {};
+    for (const formula of QTC_FORMULAS) {
+      const qtc = correctQT(qt, rr, formula, this.qtRegression);
+      if (qtc !== null) result[formula] = qtc;
+    }
+    return result;
   }
   
   /**
    * Calculate all ECG intervals from PQRST points
-   * @param pqrstPoints Array of detected PQRST points
+   * @param pqrstPoints Array of detected PQRST points; absolutePosition must be a monotonic
+   *   sample count (not a circular-buffer index), as RR and the live QT/RR pairs are keyed on it
    * @returns ECG intervals or null if not enough points
    */
   calculateIntervals(pqrstPoints: PQRSTPoint[]): ECGIntervals | null {
     // Group points by their PQRST complex
-    const complexes = this.groupIntoComplexes(pqrstPoints);
+    const complexes = groupIntoComplexes(pqrstPoints, this.sampleRate);
     
     // Need at least one complete complex to calculate intervals
     if (complexes.length < 1) {
       return this.lastIntervals;
     }
     
-    // Use the most recent complex for calculations
-    const latestComplex = complexes[complexes.length - 1];
-    
-    // Check if complex has all required points
-    if (!this.isCompleteComplex(latestComplex)) {
+    // Use the most recent complete complex (the newest beat usually has no T wave yet)
+    let latestIndex = complexes.length - 1;
+    while (latestIndex >= 0 && !this.isCompleteComplex(complexes[latestIndex])) {
+      latestIndex--;
+    }
+    if (latestIndex < 0) {
       return this.lastIntervals;
     }
+    const latestComplex = complexes[latestIndex];
     
-    // Calculate RR interval (need at least 2 complexes)
+    // Calculate RR interval (need a previous complex)
     let rrInterval = 0;
-    if (complexes.length >= 2) {
+    if (latestIndex >= 1) {
       const currentR = this.findPointByType(latestComplex, 'R');
-      const previousR = this.findPointByType(complexes[complexes.length - 2], 'R');
+      const previousR = this.findPointByType(complexes[latestIndex - 1], 'R');
       
-      if (currentR && previousR) {
-        const sampleDiff = Math.abs(currentR.absolutePosition - previousR.absolutePosition);
+      if (currentR && previousR && currentR.absolutePosition > previousR.absolutePosition) {
+        const sampleDiff = currentR.absolutePosition - previousR.absolutePosition;
         rrInterval = (sampleDiff / this.sampleRate) * 1000; // Convert to ms
       }
     }
@@ -72,31 +336,27 @@ export class ECGIntervalCalculator {
     // Calculate heart rate from RR interval
     const bpm = rrInterval > 0 ? 60000 / rrInterval : 0;
     
-    // Calculate PR interval
-    const pPoint = this.findPointByType(latestComplex, 'P');
-    const qPoint = this.findPointByType(latestComplex, 'Q');
-    const prInterval = (pPoint && qPoint) ? 
-      ((qPoint.index - pPoint.index) / this.sampleRate) * 1000 : 0;
-    
-    // Calculate QRS duration
-    const qPoint2 = this.findPointByType(latestComplex, 'Q');
-    const sPoint = this.findPointByType(latestComplex, 'S');
-    const qrsDuration = (qPoint2 && sPoint) ? 
-      ((sPoint.index - qPoint2.index) / this.sampleRate) * 1000 : 0;
-    
-    // Calculate QT interval
-    const tPoint = this.findPointByType(latestComplex, 'T');
-    const qtInterval = (qPoint2 && tPoint) ? 
-      ((tPoint.index - qPoint2.index) / this.sampleRate) * 1000 : 0;
+    const { pr: prInterval, qrs: qrsDuration, qt: qtInterval } = this.measureComplex(latestComplex);
     
     // If RR interval isn't available, try to get it from BPM
     if (rrInterval < 100 && bpm > 0) {
       rrInterval = 60000 / bpm;
     }
     
-    // Calculate QTc using Bazett's formula
-    const qtcInterval = (qtInterval > 0 && rrInterval >= 100) ? 
-      qtInterval / Math.sqrt(rrInterval / 1000) : 0;
+    // Each new beat measured live refines the subject regression
+    const latestR = this.findPointByType(latestComplex, 'R');
+    const lastPair = this.liveQTRRPairs[this.liveQTRRPairs.length - 1];
+    if (latestR && qtInterval > 0 && latestIndex >= 1 && rrInterval >= 300 && rrInterval <= 2000 &&
+        (!lastPair || latestR.absolutePosition > lastPair.rPeak)) {
+      this.liveQTRRPairs.push({ rPeak: latestR.absolutePosition, qt: qtInterval, rr: rrInterval });
+      if (this.liveQTRRPairs.length > MAX_LIVE_QT_RR_PAIRS) this.liveQTRRPairs.shift();
+      this.qtRegression = fitQTRRRegression(this.liveQTRRPairs);
+    }
+    
+    // Calculate QTc with the selected formula (all formulas are kept for comparison)
+    const qtcFormula = this.effectiveQTcFormula();
+    const qtcByFormula = (qtInterval > 0 && rrInterval >= 100) ? this.correctAll(qtInterval, rrInterval) : {};
+    const qtcInterval = qtcByFormula[qtcFormula] ?? 0;
     
     // Determine status for each interval
     const status = {
@@ -115,6 +375,8 @@ export class ECGIntervalCalculator {
       qrs: qrsDuration,
       qt: qtInterval,
       qtc: qtcInterval,
+      qtcFormula,
+      qtcByFormula,
       bpm: bpm,
       status
     };
@@ -124,49 +386,166 @@ export class ECGIntervalCalculator {
   }
   
   /**
-   * Groups PQRST points into cardiac complexes
-   * Updated for 360Hz sampling rate - improved temporal resolution
+   * Measure every complete complex
+   * @param pqrstPoints Array of detected PQRST points (with onsets/offsets when delineated)
+   * @returns One entry per R wave, excluded beats flagged with the reason
    */
-  private groupIntoComplexes(points: PQRSTPoint[]): PQRSTPoint[][] {
-    if (points.length === 0) return [];
+  calculateBeatIntervals(pqrstPoints: PQRSTPoint[]): BeatIntervals[] {
+    const complexes = groupIntoComplexes(pqrstPoints, this.sampleRate);
+    const measured = complexes.map((complex, beatIndex) => {
+      const r = this.findPointByType(complex, 'R') as PQRSTPoint; // Every complex is built around an R
+      const previousR = beatIndex > 0 ? this.findPointByType(complexes[beatIndex - 1], 'R') : null;
+      const rr = previousR ? ((r.absolutePosition - previousR.absolutePosition) / this.sampleRate) * 1000 : null;
+      const { pr, qrs, qt } = this.measureComplex(complex);
+      return { beatIndex, rPeak: r.absolutePosition, rr, pr, qrs, qt };
+    });
     
-    // Sort points by position
-    const sortedPoints = [...points].sort((a, b) => a.absolutePosition - b.absolutePosition);
+    // Fit the subject's QT/RR relation on every measurable beat in range
+    this.qtRegression = fitQTRRRegression(
+      measured
+        .filter(b => b.qt > 0 && b.rr !== null && b.rr >= 300 && b.rr <= 2000)
+        .map(b => ({ qt: b.qt, rr: b.rr as number }))
+    );
+    const qtcFormula = this.effectiveQTcFormula();
     
-    const complexes: PQRSTPoint[][] = [];
-    let currentComplex: PQRSTPoint[] = [];
-    let lastRPosition = -1;
+    const beats: BeatIntervals[] = measured.map(({ beatIndex, rPeak, rr, pr, qrs, qt }) => ({
+      beatIndex,
+      rPeak,
+      rr,
+      pr: pr > 0 ? pr : null,
+      qrs: qrs > 0 ? qrs : null,
+      qt: qt > 0 ? qt : null,
+      qtc: rr !== null ? correctQT(qt, rr, qtcFormula, this.qtRegression) : null,
+      exclusionReason: null
+    }));
     
-    // Minimum distance between R waves for 360Hz (approximately 216 samples = 600ms at 360Hz)
-    const minRRDistance = Math.floor(this.sampleRate * 0.6); // 600ms minimum
+    // Ectopy is judged against the median of the in-range RR intervals around each beat
+    const inRange = (rr: number | null): rr is number => rr !== null && rr >= 300 && rr <= 2000;
+    const half = Math.floor(ECTOPIC_MEDIAN_WINDOW / 2);
+    const localMedianRR = beats.map((_, index) => {
+      const window = beats
+        .slice(Math.max(0, index - half), index + half + 1)
+        .map(b => b.rr)
+        .filter(inRange);
+      return window.length > 0 ? quantile(window.sort((a, b) => a - b), 0.5) : 0;
+    });
+    const outside = (value: number | null, [low, high]: [number, number]) =>
+      value !== null && (value < low || value > high);
     
-    // Group points by R wave
-    for (const point of sortedPoints) {
-      if (point.type === 'R') {
-        // Check if this R wave is far enough from the last one
-        if (lastRPosition !== -1 && 
-            Math.abs(point.absolutePosition - lastRPosition) < minRRDistance) {
-          // Too close to previous R wave, skip this one (likely noise)
-          continue;
-        }
-        
-        // If we already have an R wave, start a new complex
-        if (lastRPosition !== -1) {
-          complexes.push(currentComplex);
-          currentComplex = [];
-        }
-        lastRPosition = point.absolutePosition;
+    beats.forEach((beat, index) => {
+      if (beat.qrs === null || beat.qt === null) {
+        beat.exclusionReason = 'incomplete';
+      } else if (beat.rr === null) {
+        beat.exclusionReason = 'no-rr';
+      } else if (beat.rr < 300 || beat.rr > 2000) {
+        beat.exclusionReason = 'rr-out-of-range';
+      } else if (Math.abs(beat.rr - localMedianRR[index]) > ECTOPIC_RR_TOLERANCE * localMedianRR[index]) {
+        beat.exclusionReason = 'ectopic';
+      } else if (outside(beat.pr, PLAUSIBLE_PR) || outside(beat.qrs, PLAUSIBLE_QRS) || outside(beat.qt, PLAUSIBLE_QT)) {
+        beat.exclusionReason = 'implausible-interval';
+      }
+    });
+    
+    return beats;
+  }
+  
+  /**
+   * Median and IQR of each interval over the beats that were not excluded
+   * (a beat without a P wave still contributes its QRS and QT)
+   */
+  summarizeBeatIntervals(beats: BeatIntervals[]): IntervalSummary {
+    const included = beats.filter(b => b.exclusionReason === null);
+    const values = (key: 'rr' | 'pr' | 'qrs' | 'qt' | 'qtc') =>
+      included.map(b => b[key]).filter((v): v is number => v !== null);
+    
+    const exclusions: Partial<Record<BeatExclusionReason, number>> = {};
+    for (const beat of beats) {
+      if (beat.exclusionReason) {
+        exclusions[beat.exclusionReason] = (exclusions[beat.exclusionReason] ?? 0) + 1;
       }
-      
-      currentComplex.push(point);
     }
     
-    // Add the last complex
-    if (currentComplex.length > 0) {
-      complexes.push(currentComplex);
+    const qtcByFormula: Partial<Record<QTcFormula, IntervalStatistic>> = {};
+    for (const formula of QTC_FORMULAS) {
+      const corrected = included
+        .map(b => b.qt !== null && b.rr !== null ? correctQT(b.qt, b.rr, formula, this.qtRegression) : null)
+        .filter((v): v is number => v !== null);
+      const statistic = intervalStatistic(corrected);
+      if (statistic) qtcByFormula[formula] = statistic;
     }
     
-    return complexes;
+    return {
+      rr: intervalStatistic(values('rr')),
+      pr: intervalStatistic(values('pr')),
+      qrs: intervalStatistic(values('qrs')),
+      qt: intervalStatistic(values('qt')),
+      qtc: intervalStatistic(values('qtc')),
+      qtcFormula: this.effectiveQTcFormula(),
+      qtcByFormula,
+      qtRegression: this.qtRegression,
+      totalBeats: beats.length,
+      includedBeats: included.length,
+      exclusions
+    };
+  }
+  
+  /**
+   * Session-level intervals from per-beat medians, with the usual status flags
+   * @returns null when no beat survived the exclusion rules
+   */
+  intervalsFromSummary(summary: IntervalSummary): ECGIntervals | null {
+    if (summary.includedBeats === 0 || !summary.rr) return null;
+    
+    const rr = summary.rr.median;
+    const bpm = 60000 / rr;
+    const pr = summary.pr?.median ?? 0;
+    const qrs = summary.qrs?.median ?? 0;
+    const qt = summary.qt?.median ?? 0;
+    const qtc = summary.qtc?.median ?? 0;
+    const qtcByFormula: Partial<Record<QTcFormula, number>> = {};
+    for (const [formula, statistic] of Object.entries(summary.qtcByFormula) as [QTcFormula, IntervalStatistic][]) {
+      qtcByFormula[formula] = statistic.median;
+    }
+    
+    return {
+      rr,
+      pr,
+      qrs,
+      qt,
+      qtc,
+      qtcFormula: summary.qtcFormula,
+      qtcByFormula,
+      bpm,
+      status: {
+        rr: this.getRRStatus(rr),
+        pr: this.getPRStatus(pr),
+        qrs: this.getQRSStatus(qrs),
+        qt: this.getQTStatus(qt),
+        qtc: this.getQTcStatus(qtc),
+        bpm: this.getBPMStatus(bpm)
+      }
+    };
+  }
+  
+  /**
+   * PR, QRS and QT of one complex in ms (0 when a fiducial is missing)
+   * Clinical definitions use wave boundaries: PR = P onset -> QRS onset,
+   * QRS = QRS onset -> QRS offset, QT = QRS onset -> T offset.
+   * Without delineation the peaks stand in (P -> Q, Q -> S, Q -> T)
+   */
+  private measureComplex(complex: PQRSTPoint[]): { pr: number; qrs: number; qt: number } {
+    const pStart = this.findPointByType(complex, 'Pon') ?? this.findPointByType(complex, 'P');
+    const qrsStart = this.findPointByType(complex, 'QRSon') ?? this.findPointByType(complex, 'Q');
+    const qrsEnd = this.findPointByType(complex, 'QRSoff') ?? this.findPointByType(complex, 'S');
+    const tEnd = this.findPointByType(complex, 'Toff') ?? this.findPointByType(complex, 'T');
+    const toMs = (from: PQRSTPoint | null, to: PQRSTPoint | null) =>
+      from && to ? ((to.absolutePosition - from.absolutePosition) / this.sampleRate) * 1000 : 0;
+    
+    return {
+      pr: toMs(pStart, qrsStart),
+      qrs: toMs(qrsStart, qrsEnd),
+      qt: toMs(qrsStart, tEnd)
+    };
   }
   
   /**
@@ -186,54 +565,51 @@ export class ECGIntervalCalculator {
   /**
    * Finds a point by type in a complex
    */
-  private findPointByType(complex: PQRSTPoint[], type: string): PQRSTPoint | null {
+  private findPointByType(complex: PQRSTPoint[], type: PQRSTPoint['type']): PQRSTPoint | null {
     return complex.find(p => p.type === type) || null;
   }
   
   /**
-   * Status determination methods based on clinical ranges
-   * Updated thresholds optimized for 360Hz precision
+   * Status determination methods based on the subject's reference ranges
+   * (adult defaults: RR 600-1000 ms, PR 120-200 ms, QRS <=120 ms, QTc <=450/470 ms)
    */
   private getRRStatus(rr: number): 'normal' | 'short' | 'long' | 'unknown' {
     if (rr === 0) return 'unknown';
-    if (rr < 600) return 'short';   // <600ms (>100 BPM)
-    if (rr > 1000) return 'long';   // >1000ms (<60 BPM)
+    if (rr < this.ranges.rr.min) return 'short';
+    if (rr > this.ranges.rr.max) return 'long';
     return 'normal';
   }
   
   private getPRStatus(pr: number): 'normal' | 'short' | 'long' | 'unknown' {
     if (pr === 0) return 'unknown';
-    if (pr < 120) return 'short';   // <120ms (shorter than normal conduction)
-    if (pr > 200) return 'long';    // >200ms (1st degree AV block threshold)
+    if (pr < this.ranges.pr.min) return 'short';   // Shorter than normal conduction
+    if (pr > this.ranges.pr.max) return 'long';    // 1st degree AV block
     return 'normal';
   }
   
   private getQRSStatus(qrs: number): 'normal' | 'wide' | 'unknown' {
     if (qrs === 0) return 'unknown';
-    if (qrs > 120) return 'wide';   // >120ms (bundle branch block threshold)
+    if (qrs > this.ranges.qrsMax) return 'wide';   // Bundle branch block range
     return 'normal';
   }
   
   private getQTStatus(qt: number): 'normal' | 'prolonged' | 'unknown' {
     if (qt === 0) return 'unknown';
-    // Gender-specific QT thresholds (uncorrected)
-    const threshold = this.gender === 'male' ? 440 : 460;
-    if (qt > threshold) return 'prolonged';
+    if (qt > this.ranges.qtMax) return 'prolonged';
     return 'normal';
   }
   
   private getQTcStatus(qtc: number): 'normal' | 'prolonged' | 'unknown' {
     if (qtc === 0) return 'unknown';
-    // Gender-specific QTc thresholds (Bazett corrected)
-    const threshold = this.gender === 'male' ? 450 : 470;
-    if (qtc > threshold) return 'prolonged';
+    // Applied to whichever formula is selected
+    if (qtc > this.ranges.qtcMax) return 'prolonged';
     return 'normal';
   }
   
   private getBPMStatus(bpm: number): 'normal' | 'bradycardia' | 'tachycardia' | 'unknown' {
     if (bpm === 0) return 'unknown';
-    if (bpm < 60) return 'bradycardia';   // <60 BPM
-    if (bpm > 100) return 'tachycardia';  // >100 BPM
+    if (bpm < this.ranges.heartRate.min) return 'bradycardia';
+    if (bpm > this.ranges.heartRate.max) return 'tachycardia';
     return 'normal';
   }
   
@@ -249,6 +625,8 @@ export class ECGIntervalCalculator {
    */
   reset(): void {
     this.lastIntervals = null;
+    this.qtRegression = null;
+    this.liveQTRRPairs = [];
   }
   
   /**
@@ -0,0 +1,314 @@
+// IIR Filter Design
+// Computes Butterworth and Chebyshev type I filters as second-order sections
+// at runtime, so the ECG chain works at any sampling rate (250, 360, 500, 1000Hz...)
+// Follows the scipy.signal design path: analog prototype -> frequency transform
+// -> bilinear transform (with pre-warping) -> pole/zero pairing into biquads
+// Reference: https://docs.scipy.org/doc/scipy/reference/generated/scipy.signal.iirfilter.html
+
+export type FilterFamily = 'butterworth' | 'chebyshev1';
+export type FilterBandType = 'lowpass' | 'highpass' | 'bandpass' | 'bandstop';
+
+// One biquad in scipy "sos" layout: [b0, b1, b2, a0, a1, a2] with a0 normalised to 1
+export type SOSSection = [number, number, number, number, number, number];
+
+export interface FilterDesignSpec {
+    family?: FilterFamily;
+    type: FilterBandType;
+    order: number;                        // Prototype order (band filters end up 2x this)
+    cutoff: number | [number, number];    // Hz; pair of edges for bandpass/bandstop
+    sampleRate: number;                   // Hz
+    rippleDb?: number;                    // Passband ripple for Chebyshev I (default 0.5dB)
+}
+
+// ---------- Minimal complex arithmetic ----------
+
+interface Complex {
+    re: number;
+    im: number;
+}
+
+const c = (re: number, im: number = 0): Complex => ({ re, im });
+const cAdd = (a: Complex, b: Complex): Complex => c(a.re + b.re, a.im + b.im);
+const cSub = (a: Complex, b: Complex): Complex => c(a.re - b.re, a.im - b.im);
+const cMul = (a: Complex, b: Complex): Complex => c(a.re * b.re - a.im * b.im, a.re * b.im + a.im * b.re);
+const cScale = (a: Complex, s: number): Complex => c(a.re * s, a.im * s);
+const cAbs = (a: Complex): number => Math.hypot(a.re, a.im);
+
+function cDiv(a: Complex, b: Complex): Complex {
+    const denom = b.re * b.re + b.im * b.im;
+    return c((a.re * b.re + a.im * b.im) / denom, (a.im * b.re - a.re * b.im) / denom);
+}
+
+function cSqrt(a: Complex): Complex {
+    const r = cAbs(a);
+    const re = Math.sqrt((r + a.re) / 2);
+    const im = Math.sqrt(Math.max(0, (r - a.re) / 2));
+    return c(re, a.im < 0 ? -im : im);
+}
+
+function cProd(values: Complex[]): Complex {
+    return values.reduce((acc, v) => cMul(acc, v), c(1));
+}
+
+// Zeros, poles and gain of a filter
+interface ZPK {
+    z: Complex[];
+    p: Complex[];
+    k: number;
+}
+
+// ---------- Analog prototypes (cutoff 1 rad/s) ----------
+
+function butterworthPrototype(order: number): ZPK {
+    const p: Complex[] = [];
+    for (let m = -order + 1; m < order; m += 2) {
+        const theta = (Math.PI * m) / (2 * order);
+        p.push(c(-Math.cos(theta), -Math.sin(theta)));
+    }
+    return { z: [], p, k: 1 };
+}
+
+function chebyshev1Prototype(order: number, rippleDb: number): ZPK {
+    const eps = Math.sqrt(Math.pow(10, rippleDb / 10) - 1);
+    const mu = Math.asinh(1 / eps) / order;
+    const p: Complex[] = [];
+    for (let m = -order + 1; m < order; m += 2) {
+        const theta = (Math.PI * m) / (2 * order);
+        // -sinh(mu + j*theta)
+        p.push(c(-Math.sinh(mu) * Math.cos(theta), -Math.cosh(mu) * Math.sin(theta)));
+    }
+    let k = cProd(p.map(pole => cScale(pole, -1))).re;
+    if (order % 2 === 0) {
+        k /= Math.sqrt(1 + eps * eps);
+    }
+    return { z: [], p, k };
+}
+
+// ---------- Analog frequency transforms ----------
+
+function lowpassToLowpass({ z, p, k }: ZPK, wo: number): ZPK {
+    const degree = p.length - z.length;
+    return {
+        z: z.map(v => cScale(v, wo)),
+        p: p.map(v => cScale(v, wo)),
+        k: k * Math.pow(wo, degree)
+    };
+}
+
+function lowpassToHighpass({ z, p, k }: ZPK, wo: number): ZPK {
+    const degree = p.length - z.length;
+    const gain = cDiv(cProd(z.map(v => cScale(v, -1))), cProd(p.map(v => cScale(v, -1)))).re;
+    return {
+        z: [...z.map(v => cDiv(c(wo), v)), ...Array.from({ length: degree }, () => c(0))],
+        p: p.map(v => cDiv(c(wo), v)),
+        k: k * gain
+    };
+}
+
+function lowpassToBandpass({ z, p, k }: ZPK, wo: number, bw: number): ZPK {
+    const degree = p.length - z.length;
+    const split = (v: Complex): Complex[] => {
+        const scaled = cScale(v, bw / 2);
+        const root = cSqrt(cSub(cMul(scaled, scaled), c(wo * wo)));
+        return [cAdd(scaled, root), cSub(scaled, root)];
+    };
+    return {
+        z: [...z.flatMap(split), ...Array.from({ length: degree }, () => c(0))],
+        p: p.flatMap(split),
+        k: k * Math.pow(bw, degree)
+    };
+}
+
+function lowpassToBandstop({ z, p, k }: ZPK, wo: number, bw: number): ZPK {
+    const degree = p.length - z.length;
+    const split = (v: Complex): Complex[] => {
+        const inverted = cDiv(c(bw / 2), v);
+        const root = cSqrt(cSub(cMul(inverted, inverted), c(wo * wo)));
+        return [cAdd(inverted, root), cSub(inverted, root)];
+    };
+    const notchZeros: Complex[] = [];
+    for (let i = 0; i < degree; i++) {
+        notchZeros.push(c(0, wo), c(0, -wo));
+    }
+    const gain = cDiv(cProd(z.map(v => cScale(v, -1))), cProd(p.map(v => cScale(v, -1)))).re;
+    return {
+        z: [...z.flatMap(split), ...notchZeros],
+        p: p.flatMap(split),
+        k: k * gain
+    };
+}
+
+// ---------- Bilinear transform ----------
+
+function bilinear({ z, p, k }: ZPK, sampleRate: number): ZPK {
+    const fs2 = c(2 * sampleRate);
+    const degree = p.length - z.length;
+    const zd = z.map(v => cDiv(cAdd(fs2, v), cSub(fs2, v)));
+    const pd = p.map(v => cDiv(cAdd(fs2, v), cSub(fs2, v)));
+    // Zeros at infinity land on Nyquist
+    for (let i = 0; i < degree; i++) {
+        zd.push(c(-1));
+    }
+    const gain = cDiv(cProd(z.map(v => cSub(fs2, v))), cProd(p.map(v => cSub(fs2, v)))).re;
+    return { z: zd, p: pd, k: k * gain };
+}
+
+// ---------- Pole/zero pairing into second-order sections ----------
+
+const IMAG_TOLERANCE = 1e-10;
+
+// Polynomial [1, c1, c2] in z^-1 for one root, or a pair of roots
+function rootsToPoly(roots: Complex[]): [number, number, number] {
+    if (roots.length === 1) {
+        return [1, -roots[0].re, 0];
+    }
+    const [r1, r2] = roots;
+    const sum = cAdd(r1, r2);
+    const prod = cMul(r1, r2);
+    return [1, -sum.re, prod.re];
+}
+
+// Group roots into real-coefficient pairs: conjugate pairs first, then real roots two by two
+function groupRoots(roots: Complex[]): Complex[][] {
+    const complexRoots = roots.filter(r => r.im > IMAG_TOLERANCE);
+    const realRoots = roots
+        .filter(r => Math.abs(r.im) <= IMAG_TOLERANCE)
+        .map(r => c(r.re))
+        .sort((a, b) => a.re - b.re);
+
+    const groups: Complex[][] = complexRoots.map(r => [r, c(r.re, -r.im)]);
+    for (let i = 0; i < realRoots.length; i += 2) {
+        groups.push(realRoots.slice(i, i + 2));
+    }
+    return groups;
+}
+
+function zpkToSOS({ z, p, k }: ZPK): SOSSection[] {
+    const poleGroups = groupRoots(p);
+    // Sections ordered with the poles closest to the unit circle last (as scipy does)
+    poleGroups.sort((a, b) => cAbs(a[0]) - cAbs(b[0]));
+
+    // Match each pole group with the nearest unused zeros, most critical poles first
+    let complexZeros = z.filter(r => r.im > IMAG_TOLERANCE);
+    let realZeros = z.filter(r => Math.abs(r.im) <= IMAG_TOLERANCE).map(r => c(r.re));
+    const nearest = (candidates: Complex[], target: Complex): number => {
+        let best = 0;
+        for (let i = 1; i < candidates.length; i++) {
+            if (cAbs(cSub(candidates[i], target)) < cAbs(cSub(candidates[best], target))) {
+                best = i;
+            }
+        }
+        return best;
+    };
+
+    const zeroGroups: Complex[][] = new Array(poleGroups.length);
+    for (let g = poleGroups.length - 1; g >= 0; g--) {
+        const pole = poleGroups[g][0];
+        const chosen: Complex[] = [];
+
+        if (poleGroups[g].length === 2 && complexZeros.length > 0 &&
+            (realZeros.length < 2 || cAbs(cSub(complexZeros[nearest(complexZeros, pole)], pole)) <
+                cAbs(cSub(realZeros[nearest(realZeros, pole)], pole)))) {
+            // A conjugate zero pair fills the section on its own
+            const zero = complexZeros[nearest(complexZeros, pole)];
+            complexZeros = complexZeros.filter(r => r !== zero);
+            chosen.push(zero, c(zero.re, -zero.im));
+        } else {
+            while (chosen.length < poleGroups[g].length && realZeros.length > 0) {
+                const idx = nearest(realZeros, pole);
+                chosen.push(realZeros[idx]);
+                realZeros = realZeros.filter((_, i) => i !== idx);
+            }
+        }
+        zeroGroups[g] = chosen;
+    }
+
+    return poleGroups.map((poles, i) => {
+        const a = rootsToPoly(poles);
+        const b = zeroGroups[i].length > 0 ? rootsToPoly(zeroGroups[i]) : [1, 0, 0];
+        const gain = i === 0 ? k : 1;
+        return [b[0] * gain, b[1] * gain, b[2] * gain, a[0], a[1], a[2]];
+    });
+}
+
+// ---------- Public design API ----------
+
+function validateSpec(spec: FilterDesignSpec): number[] {
+    const nyquist = spec.sampleRate / 2;
+    const edges = Array.isArray(spec.cutoff) ? spec.cutoff : [spec.cutoff];
+    const isBand = spec.type === 'bandpass' || spec.type === 'bandstop';
+
+    if (!Number.isInteger(spec.order) || spec.order < 1) {
+        throw new Error(`Filter order must be a positive integer, got ${spec.order}`);
+    }
+    if (isBand !== (edges.length === 2)) {
+        throw new Error(`${spec.type} filter needs ${isBand ? 'two cutoff frequencies' : 'a single cutoff frequency'}`);
+    }
+    if (edges.some(f => f <= 0 || f >= nyquist)) {
+        throw new Error(`Cutoff ${edges.join('-')}Hz must lie between 0 and Nyquist (${nyquist}Hz)`);
+    }
+    if (isBand && edges[0] >= edges[1]) {
+        throw new Error(`Band edges must be increasing, got ${edges.join('-')}Hz`);
+    }
+    return edges;
+}
+
+/**
+ * Design a digital IIR filter as cascaded second-order sections
+ * @param spec - Filter family, band type, order, cutoff(s) and sampling rate
+ * @returns Biquad sections in [b0, b1, b2, a0, a1, a2] layout
+ */
+export function designFilter(spec: FilterDesignSpec): SOSSection[] {
+    const edges = validateSpec(spec);
+    const family = spec.family ?? 'butterworth';
+
+    // Pre-warp the digital cutoffs so they land exactly after the bilinear transform
+    const warped = edges.map(f => 2 * spec.sampleRate * Math.tan((Math.PI * f) / spec.sampleRate));
+
+    const prototype = family === 'chebyshev1'
+        ? chebyshev1Prototype(spec.order, spec.rippleDb ?? 0.5)
+        : butterworthPrototype(spec.order);
+
+    let analog: ZPK;
+    switch (spec.type) {
+        case 'lowpass':
+            analog = lowpassToLowpass(prototype, warped[0]);
+            break;
+        case 'highpass':
+            analog = lowpassToHighpass(prototype, warped[0]);
+            break;
+        case 'bandpass':
+            analog = lowpassToBandpass(prototype, Math.sqrt(warped[0] * warped[1]), warped[1] - warped[0]);
+            break;
+        case 'bandstop':
+            analog = lowpassToBandstop(prototype, Math.sqrt(warped[0] * warped[1]), warped[1] - warped[0]);
+            break;
+    }
+
+    return zpkToSOS(bilinear(analog, spec.sampleRate));
+}
+
+/**
+ * Butterworth design shortcut (maximally flat passband)
+ */
+export function butterworth(
+    order: number,
+    cutoff: number | [number, number],
+    type: FilterBandType,
+    sampleRate: number
+): SOSSection[] {
+    return designFilter({ family: 'butterworth', type, order, cutoff, sampleRate });
+}
+
+/**
+ * Chebyshev type I design shortcut (steeper roll-off, equiripple passband)
+ */
+export function chebyshev1(
+    order: number,
+    rippleDb: number,
+    cutoff: number | [number, number],
+    type: FilterBandType,
+    sampleRate: number
+): SOSSection[] {
+    return designFilter({ family: 'chebyshev1', type, order, cutoff, sampleRate, rippleDb });
+}
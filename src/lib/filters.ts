@@ -1,113 +1,405 @@
-// ECG Signal Processing Filters for 360Hz Sampling Rate
-// Optimized Butterworth IIR digital filters for medical-grade ECG processing
+// ECG Signal Processing Filters
+// Butterworth/Chebyshev IIR digital filters for medical-grade ECG processing
+// Coefficients are designed at runtime from the sampling rate (see filterDesign.ts),
+// defaults reproduce the original scipy-generated 360Hz filters exactly
 // Reference: https://docs.scipy.org/doc/scipy/reference/generated/scipy.signal.butter.html
 
-// High-Pass Butterworth IIR digital filter
-// Sampling rate: 360.0 Hz, frequency: 0.5 Hz
-// Filter is order 2, implemented as second-order sections (biquads)
-// Purpose: Remove baseline drift and DC offset
-export class HighpassFilter {
-    private z1_0: number = 0.0;
-    private z2_0: number = 0.0;
+import { designFilter, FilterFamily, SOSSection } from './filterDesign';
+import { cubicSplineInterpolate } from './interpolation';
+import { atrousApproximation } from './wavelet';
+
+// Baseline wander estimators
+// 'highpass' - 0.5Hz IIR high-pass (streaming, the original behaviour)
+// 'median'   - two-stage 200ms / 600ms median filter (streaming with a fixed delay, or offline)
+// 'spline'   - cubic spline through PR-segment knots (offline, needs R-peak positions)
+// 'wavelet'  - à trous wavelet approximation below ~0.5Hz (offline)
+// 'none'     - leave the baseline untouched
+export type BaselineMethod = 'none' | 'highpass' | 'median' | 'spline' | 'wavelet';
+
+// Filter chain configuration - one object describes the whole baseline -> LP -> Notch chain
+export interface ECGFilterConfig {
+    sampleRate: number; // Hz
+    family: FilterFamily;
+    rippleDb: number; // Passband ripple, only used by Chebyshev designs
+    baseline: BaselineMethod;
+    highpass: {
+        cutoff: number; // Hz
+        order: number;
+    };
+    lowpass: {
+        cutoff: number; // Hz
+        order: number;
+    };
+    notch: {
+        centerFreq: number; // Hz
+        bandwidth: [number, number]; // Hz
+        order: number;
+        harmonics?: number; // Multiples of centerFreq to notch (1 = fundamental only, 0 = notch disabled)
+    };
+}
+
+export type MainsFrequency = 50 | 60;
+
+// Notch presets for both mains standards, each also removing the first harmonic
+export const MAINS_NOTCH_PRESETS: Record<MainsFrequency, ECGFilterConfig['notch']> = {
+    50: { centerFreq: 50, bandwidth: [48, 52], order: 2, harmonics: 2 },
+    60: { centerFreq: 60, bandwidth: [58, 62], order: 2, harmonics: 2 }
+};
+
+export const DEFAULT_FILTER_CONFIG: ECGFilterConfig = {
+    sampleRate: 360,
+    family: 'butterworth',
+    rippleDb: 0.5,
+    baseline: 'highpass',
+    highpass: { cutoff: 0.5, order: 2 },
+    lowpass: { cutoff: 30, order: 2 },
+    notch: { centerFreq: 50, bandwidth: [48, 52], order: 2 }
+};
+
+// Build a chain configuration for another acquisition board, e.g. createFilterConfig(500)
+export function createFilterConfig(
+    sampleRate: number,
+    overrides: Partial<Omit<ECGFilterConfig, 'sampleRate'>> = {}
+): ECGFilterConfig {
+    return {
+        ...DEFAULT_FILTER_CONFIG,
+        ...overrides,
+        sampleRate,
+        highpass: { ...DEFAULT_FILTER_CONFIG.highpass, ...overrides.highpass },
+        lowpass: { ...DEFAULT_FILTER_CONFIG.lowpass, ...overrides.lowpass },
+        notch: { ...DEFAULT_FILTER_CONFIG.notch, ...overrides.notch }
+    };
+}
+
+// Swap the notch stage of a configuration for the given mains frequency
+export function withMainsNotch(config: ECGFilterConfig, mainsFrequency: MainsFrequency): ECGFilterConfig {
+    return { ...config, notch: { ...MAINS_NOTCH_PRESETS[mainsFrequency] } };
+}
+
+// Cascade of second-order sections (biquads), Direct Form II
+export class BiquadFilter {
+    private sections: SOSSection[];
+    private z1: number[];
+    private z2: number[];
+
+    constructor(sections: SOSSection[]) {
+        this.sections = sections;
+        this.z1 = new Array(sections.length).fill(0);
+        this.z2 = new Array(sections.length).fill(0);
+    }
 
     process(inputSample: number): number {
         let output: number = inputSample;
 
-        // Biquad section 0
-        const x0: number = output - (-1.98765881 * this.z1_0) - (0.98773450 * this.z2_0);
-        output = 0.99384833 * x0 + -1.98769666 * this.z1_0 + 0.99384833 * this.z2_0;
-        this.z2_0 = this.z1_0;
-        this.z1_0 = x0;
+        for (let i = 0; i < this.sections.length; i++) {
+            const [b0, b1, b2, , a1, a2] = this.sections[i];
+            const x: number = output - (a1 * this.z1[i]) - (a2 * this.z2[i]);
+            output = b0 * x + b1 * this.z1[i] + b2 * this.z2[i];
+            this.z2[i] = this.z1[i];
+            this.z1[i] = x;
+        }
 
         return output;
     }
 
     reset(): void {
-        this.z1_0 = 0.0;
-        this.z2_0 = 0.0;
+        this.z1.fill(0);
+        this.z2.fill(0);
+    }
+
+    getSections(): SOSSection[] {
+        return this.sections.map(section => [...section] as SOSSection);
     }
 }
 
-// Low-Pass Butterworth IIR digital filter
-// Sampling rate: 360.0 Hz, frequency: 30.0 Hz
-// Filter is order 2, implemented as second-order sections (biquads)
+// High-Pass IIR digital filter
+// Default: 360.0 Hz sampling, 0.5 Hz cutoff, order 2
+// Purpose: Remove baseline drift and DC offset
+export class HighpassFilter extends BiquadFilter {
+    constructor(
+        sampleRate: number = DEFAULT_FILTER_CONFIG.sampleRate,
+        cutoff: number = DEFAULT_FILTER_CONFIG.highpass.cutoff,
+        order: number = DEFAULT_FILTER_CONFIG.highpass.order,
+        family: FilterFamily = DEFAULT_FILTER_CONFIG.family,
+        rippleDb: number = DEFAULT_FILTER_CONFIG.rippleDb
+    ) {
+        super(designFilter({ family, type: 'highpass', order, cutoff, sampleRate, rippleDb }));
+    }
+}
+
+// Low-Pass IIR digital filter
+// Default: 360.0 Hz sampling, 30.0 Hz cutoff, order 2
 // Purpose: Remove high-frequency noise while preserving ECG morphology
-export class LowpassFilter {
-    private z1_0: number = 0.0;
-    private z2_0: number = 0.0;
+export class LowpassFilter extends BiquadFilter {
+    constructor(
+        sampleRate: number = DEFAULT_FILTER_CONFIG.sampleRate,
+        cutoff: number = DEFAULT_FILTER_CONFIG.lowpass.cutoff,
+        order: number = DEFAULT_FILTER_CONFIG.lowpass.order,
+        family: FilterFamily = DEFAULT_FILTER_CONFIG.family,
+        rippleDb: number = DEFAULT_FILTER_CONFIG.rippleDb
+    ) {
+        super(designFilter({ family, type: 'lowpass', order, cutoff, sampleRate, rippleDb }));
+    }
+}
 
-    process(inputSample: number): number {
-        let output: number = inputSample;
+// Band-Stop IIR digital filter (Notch Filter)
+// Default: 360.0 Hz sampling, [48.0, 52.0] Hz stop band, order 2 (two biquads)
+// Purpose: Remove 50Hz or 60Hz power line interference, optionally with its harmonics
+// Harmonic k notches the same band shifted to k * center; harmonics at or above Nyquist are skipped
+export class NotchFilter extends BiquadFilter {
+    constructor(
+        sampleRate: number = DEFAULT_FILTER_CONFIG.sampleRate,
+        bandwidth: [number, number] = DEFAULT_FILTER_CONFIG.notch.bandwidth,
+        order: number = DEFAULT_FILTER_CONFIG.notch.order,
+        family: FilterFamily = DEFAULT_FILTER_CONFIG.family,
+        rippleDb: number = DEFAULT_FILTER_CONFIG.rippleDb,
+        harmonics: number = 1
+    ) {
+        const center = (bandwidth[0] + bandwidth[1]) / 2;
+        const sections: SOSSection[] = [];
+        for (let k = 1; k <= harmonics; k++) {
+            const band: [number, number] = [bandwidth[0] + (k - 1) * center, bandwidth[1] + (k - 1) * center];
+            if (band[1] >= sampleRate / 2) break;
+            sections.push(...designFilter({ family, type: 'bandstop', order, cutoff: band, sampleRate, rippleDb }));
+        }
+        super(sections);
+    }
+}
 
-        // Biquad section 0
-        const x0: number = output - (-1.27963242 * this.z1_0) - (0.47759225 * this.z2_0);
-        output = 0.04948996 * x0 + 0.09897991 * this.z1_0 + 0.04948996 * this.z2_0;
-        this.z2_0 = this.z1_0;
-        this.z1_0 = x0;
+// Median baseline windows (de Chazal et al. 2004): 200ms removes QRS and P waves,
+// 600ms removes T waves, leaving only the baseline
+const MEDIAN_BASELINE_WINDOWS_MS: [number, number] = [200, 600];
 
-        return output;
+// Spline knots: mean level of a short window in the PR segment, this far before each R-peak
+const PR_KNOT_OFFSET_MS = 70;
+const PR_KNOT_WINDOW_MS = 20;
+
+// Wavelet approximation is kept down to roughly this frequency
+const WAVELET_BASELINE_CUTOFF_HZ = 0.5;
+
+// Odd window length in samples for a duration in milliseconds
+function medianWindowLength(durationMs: number, sampleRate: number): number {
+    const length = Math.max(1, Math.round((durationMs / 1000) * sampleRate));
+    return length % 2 === 0 ? length + 1 : length;
+}
+
+// Median of the most recent `size` samples, kept sorted for O(size) updates
+class SlidingMedian {
+    private size: number;
+    private history: number[] = [];
+    private sorted: number[] = [];
+
+    constructor(size: number) {
+        this.size = size;
+    }
+
+    push(value: number): number {
+        this.history.push(value);
+        this.sorted.splice(this.lowerBound(value), 0, value);
+
+        if (this.history.length > this.size) {
+            const removed = this.history.shift() as number;
+            this.sorted.splice(this.lowerBound(removed), 1);
+        }
+
+        const mid = this.sorted.length >> 1;
+        return this.sorted.length % 2 === 1
+            ? this.sorted[mid]
+            : (this.sorted[mid - 1] + this.sorted[mid]) / 2;
     }
 
     reset(): void {
-        this.z1_0 = 0.0;
-        this.z2_0 = 0.0;
+        this.history = [];
+        this.sorted = [];
+    }
+
+    private lowerBound(value: number): number {
+        let lo = 0;
+        let hi = this.sorted.length;
+        while (lo < hi) {
+            const mid = (lo + hi) >> 1;
+            if (this.sorted[mid] < value) lo = mid + 1;
+            else hi = mid;
+        }
+        return lo;
     }
 }
 
-// Band-Stop Butterworth IIR digital filter (Notch Filter)
-// Sampling rate: 360.0 Hz, frequency: [48.0, 52.0] Hz
-// Filter is order 2, implemented as second-order sections (biquads)
-// Purpose: Remove 50Hz power line interference (48-52Hz band)
-export class NotchFilter {
-    private z1_0: number = 0.0;
-    private z2_0: number = 0.0;
-    private z1_1: number = 0.0;
-    private z2_1: number = 0.0;
+// Centered running median; the window is mirrored at both ends of the record
+function medianFilter(signal: number[], windowLength: number): number[] {
+    const n = signal.length;
+    if (n === 0) return [];
+
+    const half = Math.min((windowLength - 1) / 2, n - 1);
+    const extended = [
+        ...signal.slice(1, half + 1).reverse(),
+        ...signal,
+        ...signal.slice(n - 1 - half, n - 1).reverse()
+    ];
+
+    const window = new SlidingMedian(2 * half + 1);
+    const output: number[] = [];
+    extended.forEach((sample, i) => {
+        const median = window.push(sample);
+        if (i >= 2 * half) output.push(median);
+    });
+
+    return output;
+}
 
-    process(inputSample: number): number {
-        let output: number = inputSample;
+// Streaming two-stage median baseline removal
+// Each stage is centered on its window, so the output lags the input by half of both windows
+// (300 + 100 = 400ms at the default windows) but has no phase distortion
+export class MedianBaselineFilter {
+    private stage1: SlidingMedian;
+    private stage2: SlidingMedian;
+    private delayLine: number[] = [];
+    private delay: number;
+
+    constructor(sampleRate: number = DEFAULT_FILTER_CONFIG.sampleRate) {
+        const [short, long] = MEDIAN_BASELINE_WINDOWS_MS.map(ms => medianWindowLength(ms, sampleRate));
+        this.stage1 = new SlidingMedian(short);
+        this.stage2 = new SlidingMedian(long);
+        this.delay = (short - 1) / 2 + (long - 1) / 2;
+    }
 
-        // Biquad section 0
-        const x0: number = output - (-1.21708497 * this.z1_0) - (0.95085885 * this.z2_0);
-        output = 0.95183262 * x0 + -1.22439830 * this.z1_0 + 0.95183262 * this.z2_0;
-        this.z2_0 = this.z1_0;
-        this.z1_0 = x0;
+    process(inputSample: number): number {
+        const baseline = this.stage2.push(this.stage1.push(inputSample));
 
-        // Biquad section 1
-        const x1: number = output - (-1.29217906 * this.z1_1) - (0.95280880 * this.z2_1);
-        output = 1.00000000 * x1 + -1.28635883 * this.z1_1 + 1.00000000 * this.z2_1;
-        this.z2_1 = this.z1_1;
-        this.z1_1 = x1;
+        this.delayLine.push(inputSample);
+        const delayed = this.delayLine.length > this.delay
+            ? this.delayLine.shift() as number
+            : this.delayLine[0];
 
-        return output;
+        return delayed - baseline;
     }
 
     reset(): void {
-        this.z1_0 = 0.0;
-        this.z2_0 = 0.0;
-        this.z1_1 = 0.0;
-        this.z2_1 = 0.0;
+        this.stage1.reset();
+        this.stage2.reset();
+        this.delayLine = [];
+    }
+
+    // Output lag in samples
+    getDelay(): number {
+        return this.delay;
+    }
+}
+
+// Offline baseline estimators - each returns the estimated baseline, same length as the input
+export class BaselineEstimator {
+    // Two-stage median filter (200ms then 600ms)
+    static median(signal: number[], sampleRate: number): number[] {
+        const [short, long] = MEDIAN_BASELINE_WINDOWS_MS.map(ms => medianWindowLength(ms, sampleRate));
+        return medianFilter(medianFilter(signal, short), long);
+    }
+
+    // Cubic spline through one isoelectric knot per beat, taken in the PR segment
+    // Falls back to the median estimate when there are too few beats to fit a curve
+    static spline(signal: number[], sampleRate: number, rPeaks: number[]): number[] {
+        const offset = Math.round((PR_KNOT_OFFSET_MS / 1000) * sampleRate);
+        const knotX: number[] = [];
+        const knotY: number[] = [];
+
+        [...rPeaks].sort((a, b) => a - b).forEach(peak => {
+            const level = BaselineEstimator.prSegmentLevel(signal, sampleRate, peak);
+            if (level === null) return;
+            if (knotX.length > 0 && peak - offset <= knotX[knotX.length - 1]) return;
+
+            knotX.push(peak - offset);
+            knotY.push(level);
+        });
+
+        if (knotX.length < 2) {
+            return BaselineEstimator.median(signal, sampleRate);
+        }
+
+        return cubicSplineInterpolate(knotX, knotY, signal.map((_, i) => i));
+    }
+
+    // Isoelectric reference for one beat: mean level of the PR segment before the R-peak
+    // Returns null when the window falls outside the signal
+    static prSegmentLevel(signal: number[], sampleRate: number, rPeak: number): number | null {
+        const center = rPeak - Math.round((PR_KNOT_OFFSET_MS / 1000) * sampleRate);
+        const halfWindow = Math.max(1, Math.round((PR_KNOT_WINDOW_MS / 2000) * sampleRate));
+        const start = center - halfWindow;
+        const end = center + halfWindow;
+        if (start < 0 || end >= signal.length) return null;
+
+        let sum = 0;
+        for (let i = start; i <= end; i++) sum += signal[i];
+        return sum / (end - start + 1);
+    }
+
+    // À trous wavelet approximation: each level halves the retained band,
+    // deepest level whose band still reaches WAVELET_BASELINE_CUTOFF_HZ (8 levels at 360Hz)
+    static wavelet(signal: number[], sampleRate: number): number[] {
+        const levels = Math.max(1, Math.floor(Math.log2(sampleRate / (2 * WAVELET_BASELINE_CUTOFF_HZ))));
+        return atrousApproximation(signal, levels);
+    }
+
+    // Estimate with the given method; 'highpass' and 'none' have no offline estimate and return zeros
+    static estimate(
+        signal: number[],
+        method: BaselineMethod,
+        sampleRate: number,
+        rPeaks: number[] = []
+    ): number[] {
+        switch (method) {
+            case 'median':
+                return BaselineEstimator.median(signal, sampleRate);
+            case 'spline':
+                return BaselineEstimator.spline(signal, sampleRate, rPeaks);
+            case 'wavelet':
+                return BaselineEstimator.wavelet(signal, sampleRate);
+            default:
+                return new Array(signal.length).fill(0);
+        }
+    }
+
+    // Subtract the estimated baseline from the signal
+    static remove(
+        signal: number[],
+        method: BaselineMethod,
+        sampleRate: number,
+        rPeaks: number[] = []
+    ): number[] {
+        const baseline = BaselineEstimator.estimate(signal, method, sampleRate, rPeaks);
+        return signal.map((sample, i) => sample - baseline[i]);
     }
 }
 
-// Combined ECG Filter Chain for 360Hz
-// Applies highpass -> lowpass -> notch filtering in sequence
+// Combined ECG Filter Chain
+// Applies baseline removal -> lowpass -> notch filtering in sequence
+// Streaming baseline stage: high-pass for 'highpass', delayed median filter for 'median',
+// nothing for 'none'. 'spline' and 'wavelet' need the whole record, so sample-by-sample
+// processing falls back to the high-pass; FilterUtils.filterSignal applies them properly
 export class ECGFilterChain {
-    private highpass: HighpassFilter;
+    private config: ECGFilterConfig;
+    private baseline: SampleFilter | null;
     private lowpass: LowpassFilter;
     private notch: NotchFilter;
 
-    constructor() {
-        this.highpass = new HighpassFilter();
-        this.lowpass = new LowpassFilter();
-        this.notch = new NotchFilter();
+    constructor(config: ECGFilterConfig = DEFAULT_FILTER_CONFIG) {
+        const { sampleRate, family, rippleDb } = config;
+        this.config = config;
+        this.baseline = ECGFilterChain.createBaselineStage(config);
+        this.lowpass = new LowpassFilter(sampleRate, config.lowpass.cutoff, config.lowpass.order, family, rippleDb);
+        this.notch = new NotchFilter(
+            sampleRate,
+            config.notch.bandwidth,
+            config.notch.order,
+            family,
+            rippleDb,
+            config.notch.harmonics ?? 1
+        );
     }
 
     process(inputSample: number): number {
         let output = inputSample;
         
-        // Apply filters in sequence: HP -> LP -> Notch
-        output = this.highpass.process(output);
+        // Apply filters in sequence: baseline -> LP -> Notch
+        if (this.baseline) output = this.baseline.process(output);
         output = this.lowpass.process(output);
         output = this.notch.process(output);
         
@@ -115,20 +407,48 @@ export class ECGFilterChain {
     }
 
     reset(): void {
-        this.highpass.reset();
+        this.baseline?.reset();
         this.lowpass.reset();
         this.notch.reset();
     }
+
+    // Replace only the notch stage (e.g. once the mains frequency is known), keeping baseline/LP state
+    setNotchConfig(notch: ECGFilterConfig['notch']): void {
+        const { sampleRate, family, rippleDb } = this.config;
+        this.config = { ...this.config, notch };
+        this.notch = new NotchFilter(sampleRate, notch.bandwidth, notch.order, family, rippleDb, notch.harmonics ?? 1);
+    }
+
+    getConfig(): ECGFilterConfig {
+        return this.config;
+    }
+
+    // Output lag of the streaming baseline stage in samples (0 except for the median filter)
+    getDelay(): number {
+        return this.baseline instanceof MedianBaselineFilter ? this.baseline.getDelay() : 0;
+    }
+
+    private static createBaselineStage(config: ECGFilterConfig): SampleFilter | null {
+        const { sampleRate, family, rippleDb } = config;
+        switch (config.baseline) {
+            case 'none':
+                return null;
+            case 'median':
+                return new MedianBaselineFilter(sampleRate);
+            default:
+                return new HighpassFilter(sampleRate, config.highpass.cutoff, config.highpass.order, family, rippleDb);
+        }
+    }
 }
 
 // Multi-channel ECG filter for simultaneous processing
 export class MultiChannelECGFilter {
     private filterChains: ECGFilterChain[];
 
-    constructor(numChannels: number = 3) {
+    constructor(numChannels: number = 3, config: ECGFilterConfig = DEFAULT_FILTER_CONFIG) {
         this.filterChains = Array(numChannels)
             .fill(null)
-            .map(() => new ECGFilterChain());
+            .map(() => new ECGFilterChain(config));
     }
 
     process(samples: number[]): number[] {
@@ -142,22 +462,95 @@ export class MultiChannelECGFilter {
     }
 }
 
+// Anything with per-sample processing and resettable state
+export interface SampleFilter {
+    process(inputSample: number): number;
+    reset(): void;
+}
+
+export type FilterMode = 'causal' | 'zero-phase';
+
+// Padding used on each side for zero-phase filtering, long enough for the
+// 0.5Hz high-pass to settle
+const ZERO_PHASE_PAD_SECONDS = 1.5;
+
 // Utility functions for filter management
 export class FilterUtils {
-    static createSingleChannelFilter(): ECGFilterChain {
-        return new ECGFilterChain();
+    static createSingleChannelFilter(config: ECGFilterConfig = DEFAULT_FILTER_CONFIG): ECGFilterChain {
+        return new ECGFilterChain(config);
     }
 
-    static createMultiChannelFilter(channels: number): MultiChannelECGFilter {
-        return new MultiChannelECGFilter(channels);
+    static createMultiChannelFilter(
+        channels: number,
+        config: ECGFilterConfig = DEFAULT_FILTER_CONFIG
+    ): MultiChannelECGFilter {
+        return new MultiChannelECGFilter(channels, config);
     }
 
     // Apply filtering to an array of samples
-    static filterSignal(signal: number[], filterChain: ECGFilterChain): number[] {
+    // 'causal' runs the chain once (real-time behaviour, introduces phase delay)
+    // 'zero-phase' runs it forward and backward for offline analysis of stored recordings
+    // Median, spline and wavelet baselines are estimated on the whole record and subtracted
+    // first, then the remaining stages run without a baseline stage (rPeaks feed the spline knots)
+    static filterSignal(
+        signal: number[],
+        filterChain: ECGFilterChain,
+        mode: FilterMode = 'causal',
+        rPeaks: number[] = []
+    ): number[] {
+        const config = filterChain.getConfig();
+        if (config.baseline === 'median' || config.baseline === 'spline' || config.baseline === 'wavelet') {
+            const detrended = BaselineEstimator.remove(signal, config.baseline, config.sampleRate, rPeaks);
+            return FilterUtils.filterSignal(detrended, new ECGFilterChain({ ...config, baseline: 'none' }), mode);
+        }
+
+        if (mode === 'zero-phase') {
+            const padLength = Math.round(filterChain.getConfig().sampleRate * ZERO_PHASE_PAD_SECONDS);
+            return FilterUtils.zeroPhaseFilter(signal, filterChain, padLength);
+        }
+
         filterChain.reset();
         return signal.map(sample => filterChain.process(sample));
     }
 
+    // Forward-backward (filtfilt-style) filtering: no phase shift, squared magnitude response
+    // The signal is extended at both ends by odd reflection so the start-up transients
+    // of the IIR stages settle in the padding instead of distorting the first/last beats
+    static zeroPhaseFilter(signal: number[], filter: SampleFilter, padLength: number): number[] {
+        const n = signal.length;
+        if (n === 0) return [];
+
+        const pad = Math.max(0, Math.min(padLength, n - 1));
+        const first = signal[0];
+        const last = signal[n - 1];
+        const extended: number[] = [];
+
+        for (let i = pad; i >= 1; i--) {
+            extended.push(2 * first - signal[i]);
+        }
+        // Element by element: spreading a full-length record overflows the call stack
+        for (const sample of signal) {
+            extended.push(sample);
+        }
+        for (let i = n - 2; i >= n - 1 - pad; i--) {
+            extended.push(2 * last - signal[i]);
+        }
+
+        // Forward pass
+        filter.reset();
+        const forward = extended.map(sample => filter.process(sample));
+
+        // Backward pass
+        filter.reset();
+        const backward: number[] = new Array(forward.length);
+        for (let i = forward.length - 1; i >= 0; i--) {
+            backward[i] = filter.process(forward[i]);
+        }
+        filter.reset();
+
+        return backward.slice(pad, pad + n);
+    }
+
     // Filter multiple channels simultaneously
     static filterMultiChannelSignal(
         signals: number[][], 
@@ -185,23 +578,31 @@ export { HighpassFilter as Highpass };
 export { LowpassFilter as Lowpass };
 export { NotchFilter as Notch };
 
+// Human-readable filter specifications derived from a chain configuration
+export function describeFilterConfig(config: ECGFilterConfig) {
+    return {
+        SAMPLING_RATE: config.sampleRate, // Hz
+        FAMILY: config.family,
+        BASELINE: config.baseline,
+        HIGHPASS: {
+            cutoff: config.highpass.cutoff, // Hz
+            order: config.highpass.order,
+            purpose: "Remove baseline drift and DC offset"
+        },
+        LOWPASS: {
+            cutoff: config.lowpass.cutoff, // Hz
+            order: config.lowpass.order,
+            purpose: "Remove high-frequency noise"
+        },
+        NOTCH: {
+            centerFreq: config.notch.centerFreq, // Hz
+            bandwidth: config.notch.bandwidth, // Hz
+            order: config.notch.order,
+            harmonics: config.notch.harmonics ?? 1,
+            purpose: "Remove power line interference"
+        }
+    };
+}
+
 // Filter specifications for reference
-export const FILTER_SPECS = {
-    SAMPLING_RATE: 360, // Hz
-    HIGHPASS: {
-        cutoff: 0.5, // Hz
-        order: 2,
-        purpose: "Remove baseline drift and DC offset"
-    },
-    LOWPASS: {
-        cutoff: 30, // Hz
-        order: 2,
-        purpose: "Remove high-frequency noise"
-    },
-    NOTCH: {
-        centerFreq: 50, // Hz
-        bandwidth: [48, 52], // Hz
-        order: 2,
-        purpose: "Remove power line interference"
-    }
-};
\ No newline at end of file
+export const FILTER_SPECS = describeFilterConfig(DEFAULT_FILTER_CONFIG);
\ No newline at end of file
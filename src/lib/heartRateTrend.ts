@@ -0,0 +1,153 @@
+// Beat-to-beat heart-rate series with wall-clock timestamps
+// Every detected beat is kept (up to maxBeats) together with its instantaneous rate and a
+// quality flag, so trends can be queried over arbitrary time windows after the fact
+
+// 'good': plausible RR consistent with the recent rhythm
+// 'suspect': plausible RR more than 20% away from the recent median (ectopic or missed beat)
+// 'artifact': RR outside 300-2000 ms (30-200 BPM), or the first beat with no RR
+export type BeatQuality = 'good' | 'suspect' | 'artifact';
+
+export interface HeartRateBeat {
+  timestamp: number;        // Wall-clock time of the R-peak (ms since epoch)
+  sampleIndex: number;      // Absolute R-peak sample index
+  rrMs: number | null;      // Interval from the previous beat, null for the first beat
+  heartRate: number | null; // Instantaneous rate (60000 / rrMs)
+  quality: BeatQuality;
+}
+
+export interface HeartRateWindowStats {
+  mean: number;
+  min: number;
+  max: number;
+  beatCount: number; // Beats that contributed to the statistics
+}
+
+const MIN_RR_MS = 300;
+const MAX_RR_MS = 2000;
+const SUSPECT_TOLERANCE = 0.2;
+const REFERENCE_BEATS = 5;
+
+export class HeartRateTrend {
+  private beats: HeartRateBeat[] = [];
+  private sampleRate: number;
+  private maxBeats: number;
+
+  constructor(sampleRate: number = 360, maxBeats: number = 7200) { // ~1 hour at 120 BPM
+    this.sampleRate = sampleRate;
+    this.maxBeats = maxBeats;
+  }
+
+  /**
+   * Build a trend from a recording's R-peaks
+   * @param peaks - Absolute R-peak indices, ascending
+   * @param sampleRate - Sampling rate in Hz
+   * @param startTime - Wall-clock time of sample 0 (ms since epoch)
+   */
+  static fromPeaks(peaks: number[], sampleRate: number, startTime: number = 0): HeartRateTrend {
+    const trend = new HeartRateTrend(sampleRate, Math.max(peaks.length, 1));
+    for (const peak of peaks) {
+      trend.addBeat(peak, startTime + (peak / sampleRate) * 1000);
+    }
+    return trend;
+  }
+
+  /**
+   * Record a detected beat
+   * @param sampleIndex - Absolute R-peak sample index
+   * @param timestamp - Wall-clock time of the R-peak (ms since epoch)
+   * @returns The stored beat
+   */
+  addBeat(sampleIndex: number, timestamp: number = Date.now()): HeartRateBeat {
+    const previous = this.beats[this.beats.length - 1];
+    const rrMs = previous ? ((sampleIndex - previous.sampleIndex) / this.sampleRate) * 1000 : null;
+
+    const beat: HeartRateBeat = {
+      timestamp,
+      sampleIndex,
+      rrMs,
+      heartRate: rrMs && rrMs > 0 ? 60000 / rrMs : null,
+      quality: this.classifyRR(rrMs)
+    };
+
+    this.beats.push(beat);
+    if (this.beats.length > this.maxBeats) {
+      this.beats.shift();
+    }
+    return beat;
+  }
+
+  // Compare against the median of the last few good beats
+  private classifyRR(rrMs: number | null): BeatQuality {
+    if (rrMs === null || rrMs < MIN_RR_MS || rrMs > MAX_RR_MS) return 'artifact';
+
+    const reference: number[] = [];
+    for (let i = this.beats.length - 1; i >= 0 && reference.length < REFERENCE_BEATS; i--) {
+      const beat = this.beats[i];
+      if (beat.quality === 'good' && beat.rrMs !== null) reference.push(beat.rrMs);
+    }
+    // Not enough history yet: accept any plausible interval
+    if (reference.length < 3) return 'good';
+
+    reference.sort((a, b) => a - b);
+    const median = reference[Math.floor(reference.length / 2)];
+    return Math.abs(rrMs - median) > SUSPECT_TOLERANCE * median ? 'suspect' : 'good';
+  }
+
+  /**
+   * Beats whose timestamp falls inside [start, end]
+   * @param start - Window start (ms since epoch), defaults to the first beat
+   * @param end - Window end (ms since epoch), defaults to the last beat
+   */
+  getBeats(start: number = -Infinity, end: number = Infinity): HeartRateBeat[] {
+    return this.beats.filter(beat => beat.timestamp >= start && beat.timestamp <= end);
+  }
+
+  getLatest(): HeartRateBeat | null {
+    return this.beats[this.beats.length - 1] ?? null;
+  }
+
+  /**
+   * Min/max/mean instantaneous rate over a time window
+   * @param start - Window start (ms since epoch)
+   * @param end - Window end (ms since epoch)
+   * @param qualities - Beat qualities included in the statistics
+   * @returns Statistics, or null if no beat in the window qualifies
+   */
+  getStats(
+    start: number = -Infinity,
+    end: number = Infinity,
+    qualities: BeatQuality[] = ['good']
+  ): HeartRateWindowStats | null {
+    const rates = this.getBeats(start, end)
+      .filter(beat => beat.heartRate !== null && qualities.includes(beat.quality))
+      .map(beat => beat.heartRate as number);
+
+    if (rates.length === 0) return null;
+
+    return {
+      mean: rates.reduce((sum, hr) => sum + hr, 0) / rates.length,
+      min: Math.min(...rates),
+      max: Math.max(...rates),
+      beatCount: rates.length
+    };
+  }
+
+  /**
+   * Statistics over the trailing window ending at the latest beat
+   * @param seconds - Window length in seconds
+   * @param qualities - Beat qualities included in the statistics
+   */
+  getRecentStats(seconds: number, qualities: BeatQuality[] = ['good']): HeartRateWindowStats | null {
+    const latest = this.getLatest();
+    if (!latest) return null;
+    return this.getStats(latest.timestamp - seconds * 1000, latest.timestamp, qualities);
+  }
+
+  getBeatCount(): number {
+    return this.beats.length;
+  }
+
+  reset(): void {
+    this.beats = [];
+  }
+}
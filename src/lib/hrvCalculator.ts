@@ -1,20 +1,131 @@
+import { HRVSpectrum, SpectralMethod, computeHRVSpectrum } from './hrvSpectral';
+import { NonlinearHRV, computeNonlinearHRV } from './hrvNonlinear';
+import { RRCorrectionMethod, RRCorrectionResult, correctRRIntervals } from './rrCorrection';
+import { DEFAULT_HRV_WINDOW, HRVBeat, HRVWindowConfig, HRVWindowPoint, computeHRVWindow } from './hrvWindows';
+import { StressAssessment, StressBaselineStore, assessStress } from './stressIndex';
+
+// Earlier history windows forming the RMSSD baseline when none is persisted (30 minutes at 30 s steps)
+const MAX_BASELINE_WINDOWS = 60;
+// Beats kept for windowed history (several hours at resting rates)
+const MAX_LOGGED_BEATS = 20000;
+
 export class HRVCalculator {
   private rrIntervals: number[] = [];
   private maxIntervals: number = 300; // Keep last 5 minutes at 60 BPM
+  private correctionMethod: RRCorrectionMethod = 'interpolate';
+  // Derived results of the current intervals; cleared whenever the intervals change
+  private correctionCache: RRCorrectionResult | null = null;
+  private spectrumCache: Map<SpectralMethod, HRVSpectrum | null> = new Map();
+  private nonlinearCache: NonlinearHRV | null = null;
+  // Every accepted beat with its time, and window metrics computed from it at each step
+  private beatLog: HRVBeat[] = [];
+  private elapsed: number = 0; // Seconds since the first interval, rejected intervals included
+  private windowConfig: HRVWindowConfig = DEFAULT_HRV_WINDOW;
+  private history: HRVWindowPoint[] = [];
+  private nextWindowEnd: number = DEFAULT_HRV_WINDOW.windowSeconds;
+  // Live monitoring persists each window's RMSSD as the user's baseline; offline analysis doesn't
+  private baselineStore: StressBaselineStore | null = null;
+  private lastIntervalAt: number = 0; // ms since epoch when the latest interval arrived
 
   /**
    * Add new RR interval
    * @param interval - RR interval in milliseconds
    */
   addRRInterval(interval: number): void {
+    if (interval > 0) this.elapsed += interval / 1000; // Time passes even for rejected intervals
+    this.lastIntervalAt = Date.now();
+
     if (interval > 300 && interval < 2000) { // Valid RR interval range (30-200 BPM)
       this.rrIntervals.push(interval);
+      this.clearCaches();
       
       // Keep only recent intervals
       if (this.rrIntervals.length > this.maxIntervals) {
         this.rrIntervals.shift();
       }
+
+      this.beatLog.push({ time: this.elapsed, rr: interval });
+      if (this.beatLog.length > MAX_LOGGED_BEATS) {
+        this.beatLog.shift();
+      }
     }
+
+    this.advanceHistory();
+  }
+
+  /**
+   * Configure the rolling window used for the HRV history; the history is rebuilt from the logged beats
+   * @param config - Window length and step in seconds
+   */
+  setHRVWindow(config: HRVWindowConfig): void {
+    if (!(config.windowSeconds > 0) || !(config.stepSeconds > 0)) {
+      throw new Error('HRV window and step must be positive');
+    }
+    this.windowConfig = { ...config };
+    this.history = [];
+    this.nextWindowEnd = config.windowSeconds;
+    this.advanceHistory();
+  }
+
+  /**
+   * Persist window RMSSD values to, and take the stress baseline from, a store kept across sessions
+   */
+  setBaselineStore(store: StressBaselineStore | null): void {
+    this.baselineStore = store;
+  }
+
+  getHRVWindow(): HRVWindowConfig {
+    return { ...this.windowConfig };
+  }
+
+  /**
+   * Logged beats that ended after a time on this calculator's clock
+   * @param time - Seconds, e.g. from getClockTime() when a measurement started
+   */
+  getBeatsSince(time: number): HRVBeat[] {
+    return this.beatLog.filter(beat => beat.time > time);
+  }
+
+  /**
+   * Current time on this calculator's clock: the latest interval plus the wall time since it arrived
+   */
+  getClockTime(): number {
+    if (this.lastIntervalAt === 0) return this.elapsed;
+    return this.elapsed + (Date.now() - this.lastIntervalAt) / 1000;
+  }
+
+  /**
+   * Window metrics over time, oldest first (one point per step once a full window is available)
+   */
+  getHRVHistory(): HRVWindowPoint[] {
+    return [...this.history];
+  }
+
+  /**
+   * Choose how detected artifacts are corrected before any metric is computed
+   * @param method - 'interpolate' keeps every beat (Kubios default), 'delete' drops non-NN intervals
+   */
+  setCorrectionMethod(method: RRCorrectionMethod): void {
+    if (method === this.correctionMethod) return;
+    this.correctionMethod = method;
+    this.clearCaches();
+  }
+
+  /**
+   * Ectopic, missed, extra and long/short beats found in the stored intervals, and how many were corrected
+   */
+  getRRCorrection(): RRCorrectionResult {
+    if (!this.correctionCache) {
+      this.correctionCache = correctRRIntervals(this.rrIntervals, this.correctionMethod);
+    }
+    return this.correctionCache;
+  }
+
+  /**
+   * Artifact-corrected (NN) intervals that every metric is computed from
+   */
+  getNNIntervals(): number[] {
+    return this.getRRCorrection().nn;
   }
 
   /**
@@ -37,7 +148,7 @@ export class HRVCalculator {
    * Measures short-term HRV
    */
   calculateRMSSD(rrIntervals?: number[]): number {
-    const intervals = rrIntervals ?? this.rrIntervals;
+    const intervals = rrIntervals ?? this.getNNIntervals();
     if (intervals.length < 2) return 0;
 
     const differences = intervals.slice(1).map((rr, i) => 
@@ -53,7 +164,7 @@ export class HRVCalculator {
      * Measures overall HRV
      */
     calculateSDNN(rrIntervals?: number[]): number {
-      const intervals = rrIntervals ?? this.rrIntervals;
+      const intervals = rrIntervals ?? this.getNNIntervals();
       if (intervals.length < 2) return 0;
   
       const mean = intervals.reduce((sum, rr) => sum + rr, 0) / intervals.length;
@@ -67,10 +178,11 @@ export class HRVCalculator {
    * Percentage of successive RR intervals that differ by more than 50ms
    */
   calculatePNN50(): number {
-    if (this.rrIntervals.length < 2) return 0;
+    const intervals = this.getNNIntervals();
+    if (intervals.length < 2) return 0;
 
-    const differences = this.rrIntervals.slice(1).map((rr, i) => 
-      Math.abs(rr - this.rrIntervals[i])
+    const differences = intervals.slice(1).map((rr, i) => 
+      Math.abs(rr - intervals[i])
     );
 
     const nn50Count = differences.filter(diff => diff > 50).length;
@@ -82,17 +194,18 @@ export class HRVCalculator {
    * Approximates geometric measures
    */
   calculateTriangularIndex(): number {
-    if (this.rrIntervals.length < 20) return 0;
+    const intervals = this.getNNIntervals();
+    if (intervals.length < 20) return 0;
 
     // Create histogram with 7.8125ms bins (1/128 second)
     const binWidth = 7.8125;
-    const minRR = Math.min(...this.rrIntervals);
-    const maxRR = Math.max(...this.rrIntervals);
+    const minRR = Math.min(...intervals);
+    const maxRR = Math.max(...intervals);
     const numBins = Math.ceil((maxRR - minRR) / binWidth);
     
     const histogram = new Array(numBins).fill(0);
     
-    this.rrIntervals.forEach(rr => {
+    intervals.forEach(rr => {
       const binIndex = Math.floor((rr - minRR) / binWidth);
       if (binIndex >= 0 && binIndex < numBins) {
         histogram[binIndex]++;
@@ -100,33 +213,42 @@ export class HRVCalculator {
     });
 
     const maxBinCount = Math.max(...histogram);
-    return maxBinCount > 0 ? this.rrIntervals.length / maxBinCount : 0;
+    return maxBinCount > 0 ? intervals.length / maxBinCount : 0;
+  }
+
+  /**
+   * Frequency-domain HRV of the stored intervals
+   * @param method - Welch on the 4 Hz resampled tachogram, or Lomb-Scargle on the beat times
+   * @returns VLF/LF/HF power in ms², normalized units and peaks; null with less than a minute of beats
+   */
+  calculateFrequencyDomain(method: SpectralMethod = 'welch'): HRVSpectrum | null {
+    if (!this.spectrumCache.has(method)) {
+      this.spectrumCache.set(method, computeHRVSpectrum(this.getNNIntervals(), method));
+    }
+    return this.spectrumCache.get(method) ?? null;
   }
 
   /**
-   * Simple frequency domain analysis
-   * Calculates LF/HF ratio approximation
+   * Nonlinear HRV of the stored intervals: Poincaré SD1/SD2, ApEn, SampEn and DFA alpha1/alpha2
+   * Entropies need 50 beats, alpha1 50 and alpha2 200; missing values are null
+   */
+  calculateNonlinear(): NonlinearHRV {
+    if (!this.nonlinearCache) {
+      this.nonlinearCache = computeNonlinearHRV(this.getNNIntervals());
+    }
+    return this.nonlinearCache;
+  }
+
+  /**
+   * LF and HF power (ms², Welch) and their ratio
    */
   calculateLFHFRatio(): { lf: number; hf: number; ratio: number } {
-    if (this.rrIntervals.length < 30) {
+    const spectrum = this.calculateFrequencyDomain('welch');
+    if (!spectrum) {
       return { lf: 0, hf: 0, ratio: 0 };
     }
-
-    // Simplified frequency analysis
-    // This is a basic approximation - for accurate FFT, use a proper library
-    const differences = this.rrIntervals.slice(1).map((rr, i) => rr - this.rrIntervals[i]);
     
-    // Low frequency component (approximate)
-    const slowChanges = differences.filter((_, i) => i % 4 === 0); // ~0.04-0.15 Hz approx
-    const lf = slowChanges.reduce((sum, val) => sum + Math.abs(val), 0) / slowChanges.length;
-    
-    // High frequency component (approximate)
-    const fastChanges = differences.filter((_, i) => i % 2 === 0); // ~0.15-0.4 Hz approx
-    const hf = fastChanges.reduce((sum, val) => sum + Math.abs(val), 0) / fastChanges.length;
-    
-    const ratio = hf > 0 ? lf / hf : 0;
-    
-    return { lf, hf, ratio };
+    return { lf: spectrum.lf.power, hf: spectrum.hf.power, ratio: spectrum.lfHfRatio };
   }
 
   /**
@@ -165,6 +287,9 @@ export class HRVCalculator {
     pnn50: number;
     triangularIndex: number;
     lfhf: { lf: number; hf: number; ratio: number };
+    frequency: { welch: HRVSpectrum | null; lombScargle: HRVSpectrum | null };
+    nonlinear: NonlinearHRV;
+    correction: RRCorrectionResult;
     sampleCount: number;
     assessment: { status: string; color: string; description: string };
   } {
@@ -174,6 +299,12 @@ export class HRVCalculator {
       pnn50: this.calculatePNN50(),
       triangularIndex: this.calculateTriangularIndex(),
       lfhf: this.calculateLFHFRatio(),
+      frequency: {
+        welch: this.calculateFrequencyDomain('welch'),
+        lombScargle: this.calculateFrequencyDomain('lomb-scargle')
+      },
+      nonlinear: this.calculateNonlinear(),
+      correction: this.getRRCorrection(),
       sampleCount: this.rrIntervals.length,
       assessment: this.getHRVAssessment()
     };
@@ -184,6 +315,11 @@ export class HRVCalculator {
    */
   reset(): void {
     this.rrIntervals = [];
+    this.clearCaches();
+    this.beatLog = [];
+    this.elapsed = 0;
+    this.history = [];
+    this.nextWindowEnd = this.windowConfig.windowSeconds;
   }
 
   /**
@@ -194,141 +330,30 @@ export class HRVCalculator {
   }
 
   /**
-   * Get mental state estimation
+   * Stress/recovery state from Baevsky's stress index and the latest windowed RMSSD against this
+   * user's baseline, with the contributing factors. The baseline is the persisted windows from
+   * earlier sessions and this one, or without a store the earlier history windows; either way
+   * only windows that ended before the latest one began, so none shares its beats
    */
-  getMentalState(): { state: string; confidence: number } {
-    const metrics = this.getAllMetrics();
-    
-    // Default state if we don't have enough data
-    if (metrics.sampleCount < 30) {
-      return { state: "Analyzing", confidence: 0 };
-    }
-    
-    const RMSSD = metrics.rmssd;
-    const SDNN = metrics.sdnn;
-    const pNN50 = metrics.pnn50;
-    const LF_HF = metrics.lfhf.ratio;
-    const entropy = metrics.triangularIndex / 20; // Normalize as a proxy for entropy
-    const meanRR = this.rrIntervals.length > 0
-      ? this.rrIntervals.reduce((sum, rr) => sum + rr, 0) / this.rrIntervals.length
-      : 0;
-    const BPM = meanRR > 0 ? 60 / (meanRR / 1000) : 0; // Convert mean RR to BPM
-    
-    let state = "Neutral";
-    let confidence = 0.6; // Default confidence
-    
-    // Mental state detection algorithm
-    if (RMSSD < 25 && SDNN < 50 && BPM > 90) {
-      state = "High Stress";
-      confidence = 0.7 + (90 - RMSSD) / 100;
-    } else if (RMSSD > 40 && pNN50 > 30 && LF_HF < 1.5) {
-      state = "Relaxed";
-      confidence = 0.7 + (RMSSD - 40) / 100;
-    } else if (pNN50 < 10 && LF_HF > 2.0) {
-      state = "Focused";
-      confidence = 0.7 + (LF_HF - 2.0) / 3;
-    } else if (SDNN < 30 && entropy < 0.6) {
-      state = "Fatigue";
-      confidence = 0.7 + (0.6 - entropy) / 0.5;
-    } else {
-      state = "Neutral";
-      // Calculate confidence based on how close we are to any threshold
-      const stressDistance = Math.min(
-        Math.abs(RMSSD - 25) / 25,
-        Math.abs(SDNN - 50) / 50,
-        Math.abs(BPM - 90) / 90
-      );
-      const relaxedDistance = Math.min(
-        Math.abs(RMSSD - 40) / 40,
-        Math.abs(pNN50 - 30) / 30,
-        Math.abs(LF_HF - 1.5) / 1.5
-      );
-      const focusedDistance = Math.min(
-        Math.abs(pNN50 - 10) / 10,
-        Math.abs(LF_HF - 2.0) / 2.0
-      );
-      const fatigueDistance = Math.min(
-        Math.abs(SDNN - 30) / 30,
-        Math.abs(entropy - 0.6) / 0.6
-      );
-      
-      // Higher confidence when we're clearly in the neutral state
-      confidence = 0.6 + Math.min(stressDistance, relaxedDistance, focusedDistance, fatigueDistance) * 0.4;
+  getStressAssessment(): StressAssessment {
+    const latest = this.history[this.history.length - 1];
+    const { windowSeconds } = this.windowConfig;
+    let baselineLnRmssd: number[] = [];
+    if (latest && this.baselineStore) {
+      baselineLnRmssd = this.baselineStore.getBaseline(this.toWallClock(latest.time - windowSeconds), windowSeconds);
+    } else if (latest) {
+      baselineLnRmssd = this.history
+        .filter(point => point.time <= latest.time - windowSeconds && point.rmssd > 0)
+        .slice(-MAX_BASELINE_WINDOWS)
+        .map(point => Math.log(point.rmssd));
     }
-    
-    // Cap confidence at 0.95
-    confidence = Math.min(0.95, confidence);
-    
-    return { state, confidence };
-  }
 
-  /**
-   * Get physiological state estimation based on HRV metrics
-   */
-  getPhysiologicalState(): { state: string; confidence: number } {
-    const metrics = this.getAllMetrics();
-    
-    // Default state if we don't have enough data
-    if (metrics.sampleCount < 30) {
-      return { state: "Analyzing", confidence: 0 };
-    }
-    
-    const RMSSD = metrics.rmssd;
-    const SDNN = metrics.sdnn;
-    const pNN50 = metrics.pnn50;
-    const LF_HF = metrics.lfhf.ratio;
-    const entropy = metrics.triangularIndex / 20; // Normalize as a proxy for entropy
-    const meanRR = this.rrIntervals.length > 0
-      ? this.rrIntervals.reduce((sum, rr) => sum + rr, 0) / this.rrIntervals.length
-      : 0;
-    const BPM = meanRR > 0 ? 60 / (meanRR / 1000) : 0; // Convert mean RR to BPM
-    
-    let state = "Neutral";
-    let confidence = 0.6; // Default confidence
-    
-    // Physiological state detection algorithm
-    if (RMSSD < 25 && SDNN < 50 && BPM > 90) {
-      state = "High Stress";
-      confidence = 0.7 + (90 - RMSSD) / 100;
-    } else if (RMSSD > 40 && pNN50 > 30 && LF_HF < 1.5) {
-      state = "Relaxed";
-      confidence = 0.7 + (RMSSD - 40) / 100;
-    } else if (pNN50 < 10 && LF_HF > 2.0) {
-      state = "Focused";
-      confidence = 0.7 + (LF_HF - 2.0) / 3;
-    } else if (SDNN < 30 && entropy < 0.6) {
-      state = "Fatigue";
-      confidence = 0.7 + (0.6 - entropy) / 0.5;
-    } else {
-      state = "Neutral";
-      // Calculate confidence based on how close we are to any threshold
-      const stressDistance = Math.min(
-        Math.abs(RMSSD - 25) / 25,
-        Math.abs(SDNN - 50) / 50,
-        Math.abs(BPM - 90) / 90
-      );
-      const relaxedDistance = Math.min(
-        Math.abs(RMSSD - 40) / 40,
-        Math.abs(pNN50 - 30) / 30,
-        Math.abs(LF_HF - 1.5) / 1.5
-      );
-      const focusedDistance = Math.min(
-        Math.abs(pNN50 - 10) / 10,
-        Math.abs(LF_HF - 2.0) / 2.0
-      );
-      const fatigueDistance = Math.min(
-        Math.abs(SDNN - 30) / 30,
-        Math.abs(entropy - 0.6) / 0.6
-      );
-      
-      // Higher confidence when we're clearly in the neutral state
-      confidence = 0.6 + Math.min(stressDistance, relaxedDistance, focusedDistance, fatigueDistance) * 0.4;
-    }
-    
-    // Cap confidence at 0.95
-    confidence = Math.min(0.95, confidence);
-    
-    return { state, confidence };
+    return assessStress({
+      nn: this.getNNIntervals(),
+      rmssd: latest ? latest.rmssd : null,
+      baselineLnRmssd,
+      lfHfRatio: this.calculateFrequencyDomain('welch')?.lfHfRatio ?? null
+    });
   }
 
   /**
@@ -347,7 +372,7 @@ export class HRVCalculator {
     const spectralResults = this.welchPeriodogram(filteredRR);
     const lfPower = spectralResults.lfPower;
     const hfPower = spectralResults.hfPower;
-    const lfhfRatio = lfPower / hfPower;
+    const lfhfRatio = hfPower > 0 ? lfPower / hfPower : 0;
     
     return {
       rmssd,
@@ -364,35 +389,11 @@ export class HRVCalculator {
    * @param rrIntervals - Raw RR intervals
    */
   private removeArtifacts(rrIntervals: number[]): number[] {
-    // Implement artifact removal logic (e.g., median filtering, interpolation)
-    // For simplicity, let's apply a basic median filter here
-    const filtered = [...rrIntervals]; // Shallow copy for filtering
-    const windowSize = 3;
-    const halfWindow = Math.floor(windowSize / 2);
-    
-    for (let i = halfWindow; i < filtered.length - halfWindow; i++) {
-      const window = filtered.slice(i - halfWindow, i + halfWindow + 1);
-      const median = this.calculateMedian(window);
-      filtered[i] = median;
-    }
-    
-    // Remove intervals that are too short or too long
+    // Out-of-range values are never beats; the rest go through ectopic/missed/extra correction
     const lowerBound = 300;
     const upperBound = 2000;
-    return filtered.filter(interval => interval >= lowerBound && interval <= upperBound);
-  }
-
-  /**
-   * Calculate median value from an array of numbers
-   * @param values - Input array
-   */
-  private calculateMedian(values: number[]): number {
-    const sorted = [...values].sort((a, b) => a - b);
-    const mid = Math.floor(sorted.length / 2);
-    
-    return sorted.length % 2 === 0
-      ? (sorted[mid - 1] + sorted[mid]) / 2
-      : sorted[mid];
+    const inRange = rrIntervals.filter(interval => interval >= lowerBound && interval <= upperBound);
+    return correctRRIntervals(inRange, this.correctionMethod).nn;
   }
 
   /**
@@ -400,56 +401,39 @@ export class HRVCalculator {
    * @param rrIntervals - Filtered RR intervals
    */
   private welchPeriodogram(rrIntervals: number[]) {
-    // Implement Welch's method (averaged periodograms)
-    // For simplicity, let's return dummy values here
-    const lfPower = 0;
-    const hfPower = 0;
+    const spectrum = computeHRVSpectrum(rrIntervals, 'welch');
+    const lfPower = spectrum?.lf.power ?? 0;
+    const hfPower = spectrum?.hf.power ?? 0;
     
     return { lfPower, hfPower };
   }
 
   /**
-   * Determine physiological state based on HRV metrics and demographic factors
-   * @param hrvMetrics - HRV metrics object
-   * @param demographicFactors - Demographic factors object
+   * Add a history point for every window that has ended since the last one
    */
-  determinePhysiologicalState(
-    hrvMetrics: { rmssd: number; sdnn: number; lfhfRatio: number },
-    demographicFactors: { age: number }
-  ) {
-    // Create a weighted score incorporating multiple factors
-    let stressScore = 0;
-    
-    // RMSSD is inversely related to stress (lower = more stress)
-    stressScore += this.mapValue(hrvMetrics.rmssd, 0, 50, 10, 0);
-    
-    // LF/HF ratio directly correlates with sympathetic activation
-    stressScore += this.mapValue(hrvMetrics.lfhfRatio, 0.5, 3, 0, 10);
-    
-    // SDNN reduction indicates stress
-    stressScore += this.mapValue(hrvMetrics.sdnn, 0, 100, 10, 0);
-    
-    // Adjust for demographic factors (age significantly affects HRV)
-    if (demographicFactors.age > 50) {
-      stressScore *= 0.85; // Reduced HRV is normal in older individuals
+  private advanceHistory(): void {
+    const { windowSeconds, stepSeconds } = this.windowConfig;
+    while (this.nextWindowEnd <= this.elapsed) {
+      const point = computeHRVWindow(this.beatLog, this.nextWindowEnd, windowSeconds, this.correctionMethod);
+      if (point) {
+        this.history.push(point);
+        this.baselineStore?.add(point.rmssd, windowSeconds, this.toWallClock(point.time));
+      }
+      this.nextWindowEnd += stepSeconds;
     }
-    
-    // Determine state based on score
-    if (stressScore > 15) return { state: "High Stress", confidence: this.mapValue(stressScore, 15, 30, 0.7, 1) };
-    if (stressScore < 5) return { state: "Relaxed", confidence: this.mapValue(stressScore, 5, 0, 0.7, 1) };
-    if (stressScore < 10) return { state: "Focused", confidence: 1 - Math.abs(stressScore - 7.5) / 5 };
-    return { state: "Fatigue", confidence: 1 - Math.abs(stressScore - 12.5) / 5 };
+  }
+
+  // ms since epoch of a time on this calculator's clock, anchored at the latest interval's arrival
+  private toWallClock(time: number): number {
+    return this.lastIntervalAt - (this.elapsed - time) * 1000;
   }
 
   /**
-   * Map a value from one range to another
-   * @param value - Input value
-   * @param inMin - Input range minimum
-   * @param inMax - Input range maximum
-   * @param outMin - Output range minimum
-   * @param outMax - Output range maximum
+   * Drop results derived from the previous intervals
    */
-  private mapValue(value: number, inMin: number, inMax: number, outMin: number, outMax: number) {
-    return ((value - inMin) * (outMax - outMin)) / (inMax - inMin) + outMin;
+  private clearCaches(): void {
+    this.correctionCache = null;
+    this.spectrumCache.clear();
+    this.nonlinearCache = null;
   }
 }
\ No newline at end of file
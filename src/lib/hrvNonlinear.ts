@@ -0,0 +1,203 @@
+// Nonlinear HRV measures on an RR series (ms)
+// Poincaré descriptors (Brennan et al. 2001), approximate entropy (Pincus 1991), sample entropy
+// (Richman & Moorman 2000) and detrended fluctuation analysis (Peng et al. 1995) with the
+// usual short-term (4-16 beats) and long-term (16-64 beats) scaling exponents
+
+export interface PoincareMetrics {
+  sd1: number;   // ms, short-term (beat-to-beat) variability across the identity line
+  sd2: number;   // ms, long-term variability along the identity line
+  ratio: number; // SD1 / SD2
+}
+
+export interface DFAMetrics {
+  alpha1: number | null; // 4-16 beats; ~0.75 at the aerobic threshold, ~0.5 at the anaerobic threshold
+  alpha2: number | null; // 16-64 beats
+}
+
+export interface NonlinearHRV {
+  poincare: PoincareMetrics | null;
+  approximateEntropy: number | null;
+  sampleEntropy: number | null;
+  dfa: DFAMetrics;
+}
+
+// Embedding dimension and tolerance (fraction of SD) used for both entropies
+const ENTROPY_DIMENSION = 2;
+const ENTROPY_TOLERANCE = 0.2;
+const MIN_ENTROPY_BEATS = 50;
+
+const DFA_SHORT_SCALES: [number, number] = [4, 16];
+const DFA_LONG_SCALES: [number, number] = [16, 64];
+// Beats needed for a stable exponent (several windows at the largest scale)
+const MIN_ALPHA1_BEATS = 50;
+const MIN_ALPHA2_BEATS = 200;
+
+const standardDeviation = (values: number[]): number => {
+  const mean = values.reduce((sum, v) => sum + v, 0) / values.length;
+  return Math.sqrt(values.reduce((sum, v) => sum + (v - mean) ** 2, 0) / values.length);
+};
+
+/**
+ * Poincaré plot descriptors
+ * @param rr RR intervals in ms
+ * @returns null with fewer than 3 intervals
+ */
+export function poincare(rr: number[]): PoincareMetrics | null {
+  if (rr.length < 3) return null;
+
+  const differences = rr.slice(1).map((value, i) => value - rr[i]);
+  const sd1 = standardDeviation(differences) / Math.SQRT2;
+  const sdnn = standardDeviation(rr);
+  const sd2 = Math.sqrt(Math.max(0, 2 * sdnn * sdnn - sd1 * sd1));
+
+  return { sd1, sd2, ratio: sd2 > 0 ? sd1 / sd2 : 0 };
+}
+
+// Template matches within tolerance r (Chebyshev distance) for every template of length m
+function countMatches(rr: number[], m: number, r: number, includeSelf: boolean, templates: number): number[] {
+  const counts = new Array(templates).fill(0);
+  for (let i = 0; i < templates; i++) {
+    for (let j = includeSelf ? 0 : i + 1; j < templates; j++) {
+      let match = true;
+      for (let k = 0; k < m; k++) {
+        if (Math.abs(rr[i + k] - rr[j + k]) > r) {
+          match = false;
+          break;
+        }
+      }
+      if (match) {
+        counts[i]++;
+        if (!includeSelf) counts[j]++;
+      }
+    }
+  }
+  return counts;
+}
+
+/**
+ * Approximate entropy ApEn(m, r), self-matches included
+ * @param rr RR intervals in ms
+ * @param m Embedding dimension
+ * @param tolerance Match tolerance as a fraction of the series SD
+ */
+export function approximateEntropy(
+  rr: number[],
+  m: number = ENTROPY_DIMENSION,
+  tolerance: number = ENTROPY_TOLERANCE
+): number | null {
+  if (rr.length < MIN_ENTROPY_BEATS) return null;
+  const r = tolerance * standardDeviation(rr);
+
+  const phi = (dimension: number) => {
+    const templates = rr.length - dimension + 1;
+    const counts = countMatches(rr, dimension, r, true, templates);
+    return counts.reduce((sum, c) => sum + Math.log(c / templates), 0) / templates;
+  };
+
+  return phi(m) - phi(m + 1);
+}
+
+/**
+ * Sample entropy SampEn(m, r), self-matches excluded
+ * @param rr RR intervals in ms
+ * @param m Embedding dimension
+ * @param tolerance Match tolerance as a fraction of the series SD
+ * @returns null when the series is too short or no template of length m + 1 matches
+ */
+export function sampleEntropy(
+  rr: number[],
+  m: number = ENTROPY_DIMENSION,
+  tolerance: number = ENTROPY_TOLERANCE
+): number | null {
+  if (rr.length < MIN_ENTROPY_BEATS) return null;
+  const r = tolerance * standardDeviation(rr);
+
+  // Same number of templates for both lengths so the counts are comparable
+  const templates = rr.length - m;
+  const b = countMatches(rr, m, r, false, templates).reduce((sum, c) => sum + c, 0);
+  const a = countMatches(rr, m + 1, r, false, templates).reduce((sum, c) => sum + c, 0);
+  if (a === 0 || b === 0) return null;
+
+  return -Math.log(a / b);
+}
+
+// Root-mean-square fluctuation of the integrated series around per-window linear fits
+function fluctuation(profile: number[], scale: number): number {
+  const windows = Math.floor(profile.length / scale);
+  let total = 0;
+
+  for (let w = 0; w < windows; w++) {
+    const start = w * scale;
+    const meanX = (scale - 1) / 2;
+    let meanY = 0;
+    for (let i = 0; i < scale; i++) meanY += profile[start + i];
+    meanY /= scale;
+
+    let sxx = 0;
+    let sxy = 0;
+    for (let i = 0; i < scale; i++) {
+      sxx += (i - meanX) ** 2;
+      sxy += (i - meanX) * (profile[start + i] - meanY);
+    }
+    const slope = sxy / sxx;
+    for (let i = 0; i < scale; i++) {
+      total += (profile[start + i] - meanY - slope * (i - meanX)) ** 2;
+    }
+  }
+
+  return Math.sqrt(total / (windows * scale));
+}
+
+// Slope of log F(n) against log n over [minScale, maxScale]
+function scalingExponent(profile: number[], [minScale, maxScale]: [number, number]): number {
+  const xs: number[] = [];
+  const ys: number[] = [];
+  for (let n = minScale; n <= maxScale; n++) {
+    const f = fluctuation(profile, n);
+    if (f <= 0) continue;
+    xs.push(Math.log10(n));
+    ys.push(Math.log10(f));
+  }
+
+  const meanX = xs.reduce((sum, x) => sum + x, 0) / xs.length;
+  const meanY = ys.reduce((sum, y) => sum + y, 0) / ys.length;
+  let sxx = 0;
+  let sxy = 0;
+  for (let i = 0; i < xs.length; i++) {
+    sxx += (xs[i] - meanX) ** 2;
+    sxy += (xs[i] - meanX) * (ys[i] - meanY);
+  }
+  return sxy / sxx;
+}
+
+/**
+ * Detrended fluctuation analysis
+ * @param rr RR intervals in ms
+ * @returns Short- and long-term exponents; each is null until enough beats are available
+ */
+export function detrendedFluctuation(rr: number[]): DFAMetrics {
+  if (rr.length < MIN_ALPHA1_BEATS) return { alpha1: null, alpha2: null };
+
+  const mean = rr.reduce((sum, v) => sum + v, 0) / rr.length;
+  const profile: number[] = [];
+  let cumulative = 0;
+  for (const value of rr) {
+    cumulative += value - mean;
+    profile.push(cumulative);
+  }
+
+  return {
+    alpha1: scalingExponent(profile, DFA_SHORT_SCALES),
+    alpha2: rr.length >= MIN_ALPHA2_BEATS ? scalingExponent(profile, DFA_LONG_SCALES) : null
+  };
+}
+
+// All nonlinear measures of one RR series
+export function computeNonlinearHRV(rr: number[]): NonlinearHRV {
+  return {
+    poincare: poincare(rr),
+    approximateEntropy: approximateEntropy(rr),
+    sampleEntropy: sampleEntropy(rr),
+    dfa: detrendedFluctuation(rr)
+  };
+}
@@ -0,0 +1,294 @@
+import { cubicSplineInterpolate } from './interpolation';
+
+// Frequency-domain HRV (Task Force of the ESC/NASPE, 1996)
+// Welch: the RR tachogram is resampled to an even 4 Hz grid with a cubic spline, linearly
+// detrended and averaged over Hann-windowed, 50%-overlapping segments.
+// Lomb-Scargle: evaluated directly on the uneven beat times, so no interpolation is involved.
+// Both PSDs are one-sided in ms²/Hz; band powers are integrated to ms²
+
+export type SpectralMethod = 'welch' | 'lomb-scargle';
+
+export interface SpectralBand {
+  power: number;         // ms²
+  peakFrequency: number; // Hz, 0 when the band is empty
+}
+
+export interface HRVSpectrum {
+  method: SpectralMethod;
+  frequencies: number[]; // Hz
+  psd: number[];         // ms²/Hz
+  vlf: SpectralBand;
+  lf: SpectralBand;
+  hf: SpectralBand;
+  totalPower: number;    // VLF + LF + HF, ms²
+  lfNu: number;          // LF / (LF + HF) * 100
+  hfNu: number;          // HF / (LF + HF) * 100
+  lfHfRatio: number;
+}
+
+export const HRV_BANDS = {
+  vlf: [0.0033, 0.04],
+  lf: [0.04, 0.15],
+  hf: [0.15, 0.4]
+} as const;
+
+export const RESAMPLE_RATE_HZ = 4;
+
+// 256 samples at 4 Hz: 64 s segments resolve 0.016 Hz, enough to separate LF from VLF
+const WELCH_SEGMENT_SAMPLES = 256;
+// Lomb-Scargle frequency grid spacing
+const LOMB_STEP_HZ = 0.001;
+// Shorter recordings cannot resolve LF (Task Force recommends >= 2 minutes, 1 minute for HF)
+const MIN_DURATION_S = 60;
+
+/**
+ * Resample an RR series onto an even time grid
+ * @param rrIntervals RR intervals in ms
+ * @param sampleRate Output rate in Hz
+ * @returns Grid times (s, from the first beat) and RR values (ms)
+ */
+export function resampleRR(
+  rrIntervals: number[],
+  sampleRate: number = RESAMPLE_RATE_HZ
+): { times: number[]; values: number[] } {
+  const beatTimes = rrTimes(rrIntervals);
+  if (beatTimes.length < 2) return { times: [], values: [] };
+
+  const start = beatTimes[0];
+  const count = Math.floor((beatTimes[beatTimes.length - 1] - start) * sampleRate) + 1;
+  const times = Array.from({ length: count }, (_, i) => start + i / sampleRate);
+  return { times, values: cubicSplineInterpolate(beatTimes, rrIntervals, times) };
+}
+
+// Remove the least-squares line
+export function detrendLinear(values: number[]): number[] {
+  const n = values.length;
+  if (n < 2) return values.map(() => 0);
+
+  const meanX = (n - 1) / 2;
+  const meanY = values.reduce((sum, v) => sum + v, 0) / n;
+  let sxx = 0;
+  let sxy = 0;
+  for (let i = 0; i < n; i++) {
+    sxx += (i - meanX) ** 2;
+    sxy += (i - meanX) * (values[i] - meanY);
+  }
+  const slope = sxy / sxx;
+  return values.map((v, i) => v - meanY - slope * (i - meanX));
+}
+
+/**
+ * Welch PSD with Hann-windowed, 50%-overlapping segments
+ * @param values Evenly sampled, detrended series
+ * @param sampleRate Sampling rate in Hz
+ * @param segmentLength Samples per segment (shortened to the series length if needed)
+ */
+export function welchPSD(
+  values: number[],
+  sampleRate: number,
+  segmentLength: number = WELCH_SEGMENT_SAMPLES
+): { frequencies: number[]; psd: number[] } {
+  const segment = Math.min(segmentLength, values.length);
+  if (segment < 2) return { frequencies: [], psd: [] };
+
+  const nfft = nextPowerOfTwo(segment);
+  const step = Math.max(1, Math.floor(segment / 2));
+  const window = Array.from({ length: segment }, (_, i) => 0.5 - 0.5 * Math.cos((2 * Math.PI * i) / (segment - 1)));
+  const windowPower = window.reduce((sum, w) => sum + w * w, 0);
+  const bins = nfft / 2 + 1;
+  const psd = new Array(bins).fill(0);
+  let segments = 0;
+
+  for (let start = 0; start + segment <= values.length; start += step) {
+    const re = new Array(nfft).fill(0);
+    const im = new Array(nfft).fill(0);
+    const piece = detrendLinear(values.slice(start, start + segment));
+    for (let i = 0; i < segment; i++) re[i] = piece[i] * window[i];
+    fft(re, im);
+
+    for (let k = 0; k < bins; k++) {
+      // One-sided density: double every bin except DC and Nyquist
+      const scale = k === 0 || k === nfft / 2 ? 1 : 2;
+      psd[k] += (scale * (re[k] * re[k] + im[k] * im[k])) / (sampleRate * windowPower);
+    }
+    segments++;
+  }
+
+  return {
+    frequencies: Array.from({ length: bins }, (_, k) => (k * sampleRate) / nfft),
+    psd: psd.map(p => p / segments)
+  };
+}
+
+/**
+ * Lomb-Scargle PSD of an unevenly sampled series
+ * @param times Sample times in s
+ * @param values Mean-removed samples
+ * @param frequencies Frequencies to evaluate in Hz (all > 0)
+ */
+export function lombScarglePSD(times: number[], values: number[], frequencies: number[]): number[] {
+  const n = times.length;
+  if (n < 2) return frequencies.map(() => 0);
+  const span = times[n - 1] - times[0];
+
+  return frequencies.map(f => {
+    const omega = 2 * Math.PI * f;
+
+    // Time offset that makes the sine and cosine terms orthogonal
+    let sin2 = 0;
+    let cos2 = 0;
+    for (const t of times) {
+      sin2 += Math.sin(2 * omega * t);
+      cos2 += Math.cos(2 * omega * t);
+    }
+    const tau = Math.atan2(sin2, cos2) / (2 * omega);
+
+    let yc = 0;
+    let ys = 0;
+    let cc = 0;
+    let ss = 0;
+    for (let i = 0; i < n; i++) {
+      const c = Math.cos(omega * (times[i] - tau));
+      const s = Math.sin(omega * (times[i] - tau));
+      yc += values[i] * c;
+      ys += values[i] * s;
+      cc += c * c;
+      ss += s * s;
+    }
+    const power = 0.5 * ((cc > 0 ? (yc * yc) / cc : 0) + (ss > 0 ? (ys * ys) / ss : 0));
+
+    // Scaled to a one-sided density comparable with the Welch PSD (mean sample spacing span/n)
+    return (2 * power * span) / n;
+  });
+}
+
+/**
+ * Band powers, normalized units and LF/HF from a PSD
+ */
+export function bandPowers(
+  frequencies: number[],
+  psd: number[],
+  method: SpectralMethod
+): HRVSpectrum {
+  const band = ([low, high]: readonly [number, number]): SpectralBand => {
+    let power = 0;
+    let peakFrequency = 0;
+    let peak = -Infinity;
+    for (let k = 0; k < frequencies.length; k++) {
+      const f = frequencies[k];
+      if (f < low || f >= high) continue;
+      const df = k + 1 < frequencies.length ? frequencies[k + 1] - f : f - frequencies[k - 1];
+      power += psd[k] * df;
+      if (psd[k] > peak) {
+        peak = psd[k];
+        peakFrequency = f;
+      }
+    }
+    return { power, peakFrequency };
+  };
+
+  const vlf = band(HRV_BANDS.vlf);
+  const lf = band(HRV_BANDS.lf);
+  const hf = band(HRV_BANDS.hf);
+  const lfPlusHf = lf.power + hf.power;
+
+  return {
+    method,
+    frequencies,
+    psd,
+    vlf,
+    lf,
+    hf,
+    totalPower: vlf.power + lf.power + hf.power,
+    lfNu: lfPlusHf > 0 ? (lf.power / lfPlusHf) * 100 : 0,
+    hfNu: lfPlusHf > 0 ? (hf.power / lfPlusHf) * 100 : 0,
+    lfHfRatio: hf.power > 0 ? lf.power / hf.power : 0
+  };
+}
+
+/**
+ * Spectral HRV of an RR series
+ * @param rrIntervals RR intervals in ms, artifacts already removed
+ * @param method Welch on the 4 Hz resampled tachogram, or Lomb-Scargle on the beat times
+ * @returns null when the series spans less than a minute
+ */
+export function computeHRVSpectrum(rrIntervals: number[], method: SpectralMethod = 'welch'): HRVSpectrum | null {
+  if (rrIntervals.length < 2) return null;
+  const beatTimes = rrTimes(rrIntervals);
+  if (beatTimes[beatTimes.length - 1] - beatTimes[0] < MIN_DURATION_S) return null;
+
+  if (method === 'lomb-scargle') {
+    const values = detrendUneven(beatTimes, rrIntervals);
+    const count = Math.round(HRV_BANDS.hf[1] / LOMB_STEP_HZ);
+    const frequencies = Array.from({ length: count }, (_, i) => (i + 1) * LOMB_STEP_HZ);
+    return bandPowers(frequencies, lombScarglePSD(beatTimes, values, frequencies), method);
+  }
+
+  const { values } = resampleRR(rrIntervals, RESAMPLE_RATE_HZ);
+  const { frequencies, psd } = welchPSD(detrendLinear(values), RESAMPLE_RATE_HZ);
+  return bandPowers(frequencies, psd, method);
+}
+
+// Each RR interval is placed at the time of the beat that ends it
+function rrTimes(rrIntervals: number[]): number[] {
+  const times: number[] = [];
+  let t = 0;
+  for (const rr of rrIntervals) {
+    t += rr / 1000;
+    times.push(t);
+  }
+  return times;
+}
+
+// Least-squares line removal against the actual sample times
+function detrendUneven(times: number[], values: number[]): number[] {
+  const n = times.length;
+  const meanT = times.reduce((sum, t) => sum + t, 0) / n;
+  const meanY = values.reduce((sum, v) => sum + v, 0) / n;
+  let stt = 0;
+  let sty = 0;
+  for (let i = 0; i < n; i++) {
+    stt += (times[i] - meanT) ** 2;
+    sty += (times[i] - meanT) * (values[i] - meanY);
+  }
+  const slope = stt > 0 ? sty / stt : 0;
+  return values.map((v, i) => v - meanY - slope * (times[i] - meanT));
+}
+
+function nextPowerOfTwo(n: number): number {
+  let p = 1;
+  while (p < n) p *= 2;
+  return p;
+}
+
+// In-place iterative radix-2 FFT; length must be a power of two
+function fft(re: number[], im: number[]): void {
+  const n = re.length;
+  for (let i = 1, j = 0; i < n; i++) {
+    let bit = n >> 1;
+    for (; j & bit; bit >>= 1) j ^= bit;
+    j ^= bit;
+    if (i < j) {
+      [re[i], re[j]] = [re[j], re[i]];
+      [im[i], im[j]] = [im[j], im[i]];
+    }
+  }
+
+  for (let size = 2; size <= n; size *= 2) {
+    const angle = (-2 * Math.PI) / size;
+    for (let start = 0; start < n; start += size) {
+      for (let k = 0; k < size / 2; k++) {
+        const wr = Math.cos(angle * k);
+        const wi = Math.sin(angle * k);
+        const a = start + k;
+        const b = a + size / 2;
+        const tr = re[b] * wr - im[b] * wi;
+        const ti = re[b] * wi + im[b] * wr;
+        re[b] = re[a] - tr;
+        im[b] = im[a] - ti;
+        re[a] += tr;
+        im[a] += ti;
+      }
+    }
+  }
+}
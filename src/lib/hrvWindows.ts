@@ -0,0 +1,76 @@
+import { computeHRVSpectrum } from './hrvSpectral';
+import { detrendedFluctuation, poincare } from './hrvNonlinear';
+import { RRCorrectionMethod, correctRRIntervals } from './rrCorrection';
+
+// Time-windowed HRV
+// Metrics over the whole beat buffer mix several minutes of changing physiology, so for trends
+// each point is computed over a fixed window of beats ending at that time, and a new point is
+// added every step (for example RMSSD over the last 60 s, every 30 s)
+
+export interface HRVWindowConfig {
+  windowSeconds: number;
+  stepSeconds: number;
+}
+
+export interface HRVWindowPoint {
+  time: number;             // Window end, seconds from the first beat
+  beatCount: number;
+  meanHR: number;           // BPM
+  rmssd: number;            // ms
+  sdnn: number;             // ms
+  pnn50: number;            // %
+  lfHfRatio: number | null; // Null for windows under a minute
+  sd1: number | null;       // ms
+  dfaAlpha1: number | null; // Null below 50 beats
+  percentCorrected: number; // RR artifacts corrected inside the window
+}
+
+export interface HRVBeat {
+  time: number; // Seconds from the first beat to the end of this interval
+  rr: number;   // ms
+}
+
+export const HRV_WINDOW_PRESETS: Record<string, HRVWindowConfig> = {
+  '1 min': { windowSeconds: 60, stepSeconds: 30 },
+  '2 min': { windowSeconds: 120, stepSeconds: 30 },
+  '5 min': { windowSeconds: 300, stepSeconds: 30 }
+};
+
+export const DEFAULT_HRV_WINDOW: HRVWindowConfig = HRV_WINDOW_PRESETS['1 min'];
+
+// A window with fewer beats is not summarized
+const MIN_WINDOW_BEATS = 10;
+
+/**
+ * Metrics of the beats in (end - windowSeconds, end]
+ * @param beats Beats in time order
+ * @param method Artifact correction applied to the window before the metrics
+ * @returns null when the window holds too few beats
+ */
+export function computeHRVWindow(
+  beats: HRVBeat[],
+  end: number,
+  windowSeconds: number,
+  method: RRCorrectionMethod = 'interpolate'
+): HRVWindowPoint | null {
+  const rr = beats.filter(beat => beat.time > end - windowSeconds && beat.time <= end).map(beat => beat.rr);
+  if (rr.length < MIN_WINDOW_BEATS) return null;
+
+  const correction = correctRRIntervals(rr, method);
+  const nn = correction.nn;
+  const mean = nn.reduce((sum, value) => sum + value, 0) / nn.length;
+  const differences = nn.slice(1).map((value, i) => value - nn[i]);
+
+  return {
+    time: end,
+    beatCount: rr.length,
+    meanHR: 60000 / mean,
+    rmssd: Math.sqrt(differences.reduce((sum, d) => sum + d * d, 0) / differences.length),
+    sdnn: Math.sqrt(nn.reduce((sum, value) => sum + (value - mean) ** 2, 0) / nn.length),
+    pnn50: (differences.filter(d => Math.abs(d) > 50).length / differences.length) * 100,
+    lfHfRatio: computeHRVSpectrum(nn)?.lfHfRatio ?? null,
+    sd1: poincare(nn)?.sd1 ?? null,
+    dfaAlpha1: detrendedFluctuation(nn).alpha1,
+    percentCorrected: correction.percentCorrected
+  };
+}
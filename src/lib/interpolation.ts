@@ -0,0 +1,62 @@
+/**
+ * Natural cubic spline interpolation
+ * @param xs - Knot positions, strictly increasing
+ * @param ys - Knot values
+ * @param queryXs - Positions to evaluate, must be sorted ascending
+ * @returns Interpolated values; queries outside the knots hold the end values
+ */
+export function cubicSplineInterpolate(xs: number[], ys: number[], queryXs: number[]): number[] {
+  const n = xs.length;
+  if (n === 0) return queryXs.map(() => 0);
+  if (n === 1) return queryXs.map(() => ys[0]);
+
+  // Second derivatives via the tridiagonal system (natural boundary: M0 = Mn-1 = 0)
+  const m = new Array(n).fill(0);
+  if (n > 2) {
+    const diag = new Array(n).fill(0);
+    const rhs = new Array(n).fill(0);
+    const upper = new Array(n).fill(0);
+
+    for (let i = 1; i < n - 1; i++) {
+      const hPrev = xs[i] - xs[i - 1];
+      const hNext = xs[i + 1] - xs[i];
+      diag[i] = 2 * (hPrev + hNext);
+      upper[i] = hNext;
+      rhs[i] = 6 * ((ys[i + 1] - ys[i]) / hNext - (ys[i] - ys[i - 1]) / hPrev);
+    }
+
+    // Thomas algorithm (forward sweep, then back substitution)
+    for (let i = 2; i < n - 1; i++) {
+      const factor = (xs[i] - xs[i - 1]) / diag[i - 1];
+      diag[i] -= factor * upper[i - 1];
+      rhs[i] -= factor * rhs[i - 1];
+    }
+    for (let i = n - 2; i >= 1; i--) {
+      m[i] = (rhs[i] - upper[i] * m[i + 1]) / diag[i];
+    }
+  }
+
+  const result: number[] = [];
+  let seg = 0;
+  for (const x of queryXs) {
+    if (x <= xs[0]) {
+      result.push(ys[0]);
+      continue;
+    }
+    if (x >= xs[n - 1]) {
+      result.push(ys[n - 1]);
+      continue;
+    }
+    while (seg < n - 2 && x > xs[seg + 1]) seg++;
+
+    const h = xs[seg + 1] - xs[seg];
+    const a = (xs[seg + 1] - x) / h;
+    const b = (x - xs[seg]) / h;
+    result.push(
+      a * ys[seg] + b * ys[seg + 1] +
+      ((a * a * a - a) * m[seg] + (b * b * b - b) * m[seg + 1]) * (h * h) / 6
+    );
+  }
+
+  return result;
+}
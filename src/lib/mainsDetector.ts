@@ -0,0 +1,73 @@
+import type { MainsFrequency } from './filters';
+
+export interface MainsDetectionResult {
+  frequency: MainsFrequency | null; // null when no mains hum stands out of the noise floor
+  ratios: Record<MainsFrequency, number>; // Tone power relative to the neighbouring noise floor
+}
+
+const CANDIDATES: MainsFrequency[] = [50, 60];
+
+// A mains tone must be this many times stronger than its neighbourhood to count
+const MIN_PEAK_RATIO = 5;
+
+// Offsets (Hz) either side of a candidate used to estimate the local noise floor
+const FLOOR_OFFSETS = [3, 4, 5, 6];
+
+/**
+ * Goertzel power of a single frequency (Hann-windowed)
+ * @param signal - Input samples
+ * @param frequency - Frequency of interest in Hz
+ * @param sampleRate - Sampling rate in Hz
+ */
+function tonePower(signal: number[], frequency: number, sampleRate: number): number {
+  const n = signal.length;
+  const coeff = 2 * Math.cos((2 * Math.PI * frequency) / sampleRate);
+  let s1 = 0;
+  let s2 = 0;
+
+  for (let i = 0; i < n; i++) {
+    const window = 0.5 - 0.5 * Math.cos((2 * Math.PI * i) / (n - 1));
+    const s0 = signal[i] * window + coeff * s1 - s2;
+    s2 = s1;
+    s1 = s0;
+  }
+
+  return s1 * s1 + s2 * s2 - coeff * s1 * s2;
+}
+
+/**
+ * Estimate the dominant power-line frequency from a few seconds of ECG
+ * Compares each candidate tone against the spectrum just around it, so the
+ * result is not biased by the low-pass roll-off or by QRS energy
+ * @param signal - ECG samples, ideally before any notch filtering
+ * @param sampleRate - Sampling rate in Hz
+ */
+export function detectMainsFrequency(signal: number[], sampleRate: number): MainsDetectionResult {
+  const ratios: Record<MainsFrequency, number> = { 50: 0, 60: 0 };
+
+  if (signal.length < sampleRate) {
+    return { frequency: null, ratios }; // Need at least one second of data
+  }
+
+  const mean = signal.reduce((sum, val) => sum + val, 0) / signal.length;
+  const centered = signal.map(val => val - mean);
+
+  for (const candidate of CANDIDATES) {
+    if (candidate + FLOOR_OFFSETS[FLOOR_OFFSETS.length - 1] >= sampleRate / 2) continue;
+
+    const peak = tonePower(centered, candidate, sampleRate);
+    const floorSamples = FLOOR_OFFSETS.flatMap(offset => [
+      tonePower(centered, candidate - offset, sampleRate),
+      tonePower(centered, candidate + offset, sampleRate)
+    ]);
+    const floor = floorSamples.reduce((sum, val) => sum + val, 0) / floorSamples.length;
+
+    ratios[candidate] = floor > 0 ? peak / floor : 0;
+  }
+
+  const best = ratios[50] >= ratios[60] ? 50 : 60;
+  return {
+    frequency: ratios[best] >= MIN_PEAK_RATIO ? best : null,
+    ratios
+  };
+}
@@ -1,198 +1,409 @@
-export class PanTompkinsDetector {
+import { designFilter } from './filterDesign';
+import { BiquadFilter } from './filters';
+import type { QRSDetector } from './qrsDetectors';
+
+export interface RPeakEvent {
+  index: number; // Absolute sample index, counted from the first sample pushed after reset()
+  amplitude: number; // Input signal value at the R-peak
+  searchBack: boolean; // true when recovered by search-back with the lower threshold
+}
+
+/**
+ * Streaming Pan-Tompkins QRS detector (Pan & Tompkins, 1985)
+ * Every stage keeps its own state, so pushSample() costs O(1) per sample and
+ * R-peaks are reported with absolute indices that stay valid across calls
+ *
+ * Decision rules follow the paper: two threshold sets (integrated and band-passed
+ * signal), both of which a peak must exceed; RR AVERAGE1/2 with search-back at 166%
+ * of RR AVERAGE2; T-wave rejection by slope within 360ms of the previous QRS; and
+ * halved first thresholds while the rhythm is irregular
+ */
+export class PanTompkinsDetector implements QRSDetector {
+  readonly name = 'pan-tompkins' as const;
   private sampleRate: number;
   private prevFiltered: number[] = [];
   private prevDifferentiated: number[] = [];
   private prevSquared: number[] = [];
   private prevIntegrated: number[] = [];
-  
+
   // Learning rates for threshold adaptation
-  private learningRateSignal = 0.15;
-  private learningRateNoise = 0.075;
-  
-  // Initial thresholds
+  private learningRateSignal = 0.125;
+  private learningRateNoise = 0.125;
+  private learningRateSearchBack = 0.25;
+
+  // Running peak estimates on the integrated signal (SPKI / NPKI)
+  private signalLevel = 0;
+  private noiseLevel = 0;
+
+  // Running peak estimates on the band-passed signal (SPKF / NPKF)
+  private signalLevelF = 0;
+  private noiseLevelF = 0;
+
+  // Thresholds derived from the peak estimates (THRESHOLD I1 / I2)
   private signalThreshold = 0.25;
   private noiseThreshold = 0.1;
-  
-  // Peak tracking
-  private peakAmp: number[] = [];
-  private peakLoc: number[] = [];
-  private noiseAmp: number[] = [];
-  private noiseLoc: number[] = [];
-  
+
+  // Band-passed thresholds (THRESHOLD F1 / F2)
+  private signalThresholdF = 0;
+  private noiseThresholdF = 0;
+
+  // Durations in samples
+  private windowSize: number; // 150ms integration window = 54 samples at 360Hz
+  private refractory: number; // 200ms, no second QRS can follow this quickly
+  private tWaveWindow: number; // 360ms, peaks this close to a QRS are slope-tested as T waves
+  private peakConfirmDelay: number; // 100ms without a higher local maximum confirms a peak
+  private learningLength: number; // 2s learning phase to initialise the thresholds
+  private historyLength: number;
+
+  // 5-15Hz bandpass designed for the actual sampling rate
+  private bandpass: BiquadFilter;
+
+  // Stage state
+  private sampleCount = 0;
+  private filteredHistory: number[] = []; // Last 5 band-passed samples for the 5-point derivative
+  private squaredWindow: number[];
+  private squaredPos = 0;
+  private runningSum = 0;
+  private integratedPrev: number[] = [0, 0]; // Two most recent integrated samples for local maxima
+  private pendingPeak: { index: number; value: number } | null = null; // Highest recent local maximum
+  private inputHistory: number[]; // Ring buffer of raw input used to place the R-peak
+  private bandpassHistory: number[]; // Ring buffer of the band-passed signal
+  private slopeHistory: number[]; // Ring buffer of the derivative
+  private lastStages = { filtered: 0, differentiated: 0, squared: 0, integrated: 0 };
+
+  // Learning phase buffers the integrated signal, then replays it once thresholds are set
+  private learning = true;
+  private learningBuffer: number[] = [];
+
+  // Decision state
+  private lastQRSIndex = -Infinity; // Integrated-signal index of the last QRS
+  private lastRPeak: number | null = null; // Input index of the last R-peak
+  private rrIntervals: number[] = []; // Most recent 8 RR intervals in samples (RR AVERAGE1)
+  private rrSelected: number[] = []; // Most recent 8 RR intervals within the limits (RR AVERAGE2)
+  private irregular = false;
+  private lastQRSSlope = 0; // Maximum derivative of the last QRS, for T-wave discrimination
+  private searchBackCandidate: { index: number; value: number; valueF: number; slope: number } | null = null;
+
   constructor(sampleRate: number = 360) { // Updated default from 500 to 360
     this.sampleRate = sampleRate;
+    this.bandpass = new BiquadFilter(designFilter({ type: 'bandpass', order: 1, cutoff: [5, 15], sampleRate }));
+    this.windowSize = Math.round(sampleRate * 0.15);
+    this.refractory = Math.round(sampleRate * 0.2);
+    this.tWaveWindow = Math.round(sampleRate * 0.36);
+    this.peakConfirmDelay = Math.round(sampleRate * 0.1);
+    this.learningLength = Math.round(sampleRate * 2);
+    this.historyLength = this.learningLength + 2 * this.windowSize + 8;
+    this.squaredWindow = new Array(this.windowSize).fill(0);
+    this.inputHistory = new Array(this.historyLength).fill(0);
+    this.bandpassHistory = new Array(this.historyLength).fill(0);
+    this.slopeHistory = new Array(this.historyLength).fill(0);
   }
-  
+
   reset() {
     this.prevFiltered = [];
     this.prevDifferentiated = [];
     this.prevSquared = [];
     this.prevIntegrated = [];
-    this.peakAmp = [];
-    this.peakLoc = [];
-    this.noiseAmp = [];
-    this.noiseLoc = [];
+    this.signalLevel = 0;
+    this.noiseLevel = 0;
+    this.signalLevelF = 0;
+    this.noiseLevelF = 0;
     this.signalThreshold = 0.25;
     this.noiseThreshold = 0.1;
+    this.signalThresholdF = 0;
+    this.noiseThresholdF = 0;
+    this.bandpass.reset();
+    this.sampleCount = 0;
+    this.filteredHistory = [];
+    this.squaredWindow.fill(0);
+    this.squaredPos = 0;
+    this.runningSum = 0;
+    this.integratedPrev = [0, 0];
+    this.pendingPeak = null;
+    this.inputHistory.fill(0);
+    this.bandpassHistory.fill(0);
+    this.slopeHistory.fill(0);
+    this.learning = true;
+    this.learningBuffer = [];
+    this.lastQRSIndex = -Infinity;
+    this.lastRPeak = null;
+    this.rrIntervals = [];
+    this.rrSelected = [];
+    this.irregular = false;
+    this.lastQRSSlope = 0;
+    this.searchBackCandidate = null;
   }
-  
-  detectQRS(data: number[]): number[] {
+
+  /**
+   * Feed one sample and receive any R-peaks confirmed by it
+   * Detection lags the input by roughly the integration window plus the
+   * time needed to confirm the integrated peak (≈ 250ms at 360Hz)
+   * @param sample - Filtered ECG sample
+   * @returns R-peak events, usually empty, at most one regular and one search-back beat
+   */
+  pushSample(sample: number): RPeakEvent[] {
+    const index = this.sampleCount++;
+    this.inputHistory[index % this.historyLength] = sample;
+
     // 1. Bandpass filtering (5-15Hz)
-    const filtered = this.bandpassFilter(data);
-    
-    // 2. Differentiation
-    const differentiated = this.differentiate(filtered);
-    
+    const filtered = this.bandpass.process(sample);
+    this.filteredHistory.push(filtered);
+    if (this.filteredHistory.length > 5) this.filteredHistory.shift();
+
+    // 2. Five-point derivative, centered two samples back (scaled for 360Hz sampling rate)
+    let differentiated = 0;
+    if (this.filteredHistory.length === 5) {
+      const [x0, x1, , x3, x4] = this.filteredHistory;
+      differentiated = (2 * x4 + x3 - x1 - 2 * x0) / (8 * (this.sampleRate / 360));
+    }
+
     // 3. Squaring
-    const squared = this.square(differentiated);
-    
-    // 4. Moving window integration
-    const windowSize = Math.round(this.sampleRate * 0.15); // 150ms window = 54 samples at 360Hz
-    const integrated = this.movingWindowIntegrate(squared, windowSize);
-    
-    // 5. Adaptive thresholding and peak detection
-    const rPeaks = this.findPeaks(integrated, data);
-    
-    return rPeaks;
-  }
-  
-  private bandpassFilter(data: number[]): number[] {
-    // Updated IIR bandpass filter coefficients for 360Hz sampling rate
-    // Butterworth bandpass filter (5-15Hz) designed for 360Hz
-    const a = [1, -1.5267, 0.5763]; // Denominator coefficients for 360Hz
-    const b = [0.1816, 0, -0.1816]; // Numerator coefficients for 360Hz
-    
-    const filtered = new Array(data.length).fill(0);
-    
-    // Apply filter
-    for (let i = 0; i < data.length; i++) {
-      filtered[i] = b[0] * data[i];
-      
-      if (i >= 1) {
-        filtered[i] += b[1] * data[i-1] - a[1] * filtered[i-1];
-      }
-      
-      if (i >= 2) {
-        filtered[i] += b[2] * data[i-2] - a[2] * filtered[i-2];
+    const squared = differentiated * differentiated;
+
+    // 4. Moving window integration as a running sum
+    this.runningSum += squared - this.squaredWindow[this.squaredPos];
+    this.squaredWindow[this.squaredPos] = squared;
+    this.squaredPos = (this.squaredPos + 1) % this.windowSize;
+    const integrated = Math.max(0, this.runningSum) / this.windowSize;
+
+    this.lastStages = { filtered, differentiated, squared, integrated };
+
+    // The derivative is centered two samples back, so is the integrated value
+    const integratedIndex = index - 2;
+    if (integratedIndex < 0) return [];
+
+    // Band-passed samples are stored at the same (centered) index as the derivative
+    this.bandpassHistory[integratedIndex % this.historyLength] = this.filteredHistory[this.filteredHistory.length - 3];
+    this.slopeHistory[integratedIndex % this.historyLength] = differentiated;
+
+    // 5. Adaptive thresholding and peak decisions
+    if (this.learning) {
+      this.learningBuffer.push(integrated);
+      if (this.learningBuffer.length >= this.learningLength) {
+        return this.endLearningPhase();
       }
+      return [];
     }
-    
+
+    return this.processIntegrated(integrated, integratedIndex);
+  }
+
+  /**
+   * Detect R-peaks in a complete record by streaming it through a fresh detector
+   * The live state of this instance is not touched
+   */
+  detectQRS(data: number[]): number[] {
+    const detector = new PanTompkinsDetector(this.sampleRate);
+    const rPeaks: number[] = [];
+    const filtered: number[] = [];
+    const differentiated: number[] = [];
+    const squared: number[] = [];
+    const integrated: number[] = [];
+
+    for (const sample of data) {
+      detector.pushSample(sample).forEach(event => rPeaks.push(event.index));
+      filtered.push(detector.lastStages.filtered);
+      differentiated.push(detector.lastStages.differentiated);
+      squared.push(detector.lastStages.squared);
+      integrated.push(detector.lastStages.integrated);
+    }
+
+    // Records shorter than the learning phase are decided with what is there
+    if (detector.learning && detector.learningBuffer.length > 0) {
+      detector.endLearningPhase().forEach(event => rPeaks.push(event.index));
+    }
+
     this.prevFiltered = filtered;
-    return filtered;
+    this.prevDifferentiated = differentiated;
+    this.prevSquared = squared;
+    this.prevIntegrated = integrated;
+    this.signalThreshold = detector.signalThreshold;
+    this.noiseThreshold = detector.noiseThreshold;
+
+    return rPeaks;
   }
-  
-  private differentiate(data: number[]): number[] {
-    const output = new Array(data.length).fill(0);
-    
-    // Five-point derivative (scaled for 360Hz sampling rate)
-    const scale = this.sampleRate / 360; // Scaling factor for different sampling rates
-    for (let i = 2; i < data.length - 2; i++) {
-      output[i] = (2*data[i+2] + data[i+1] - data[i-1] - 2*data[i-2]) / (8 * scale);
+
+  // Initialise SPKI / NPKI from the learning buffer, then run the decisions over it
+  private endLearningPhase(): RPeakEvent[] {
+    const buffer = this.learningBuffer;
+    const max = Math.max(...buffer);
+    const mean = buffer.reduce((sum, val) => sum + val, 0) / buffer.length;
+
+    this.signalLevel = max / 3;
+    this.noiseLevel = mean / 2;
+
+    const bandpassed: number[] = [];
+    for (let i = 0; i < buffer.length; i++) {
+      bandpassed.push(Math.abs(this.bandpassHistory[i % this.historyLength]));
     }
-    
-    this.prevDifferentiated = output;
-    return output;
+    this.signalLevelF = Math.max(...bandpassed) / 3;
+    this.noiseLevelF = bandpassed.reduce((sum, val) => sum + val, 0) / bandpassed.length / 2;
+    this.updateThresholds();
+    this.learning = false;
+    this.learningBuffer = [];
+
+    // Buffered values start at integrated index 0
+    const events: RPeakEvent[] = [];
+    buffer.forEach((value, i) => events.push(...this.processIntegrated(value, i)));
+    return events;
   }
-  
-  private square(data: number[]): number[] {
-    const output = data.map(x => x * x);
-    this.prevSquared = output;
-    return output;
+
+  private processIntegrated(value: number, index: number): RPeakEvent[] {
+    const events: RPeakEvent[] = [];
+    const [prev2, prev1] = this.integratedPrev;
+    this.integratedPrev = [prev1, value];
+
+    // Noise puts small local maxima on the rising edge of the integrated waveform, so a
+    // local maximum only becomes a peak once nothing higher follows within peakConfirmDelay
+    if (prev1 > prev2 && prev1 >= value && (!this.pendingPeak || prev1 > this.pendingPeak.value)) {
+      this.pendingPeak = { index: index - 1, value: prev1 };
+    }
+
+    const pending = this.pendingPeak;
+    if (pending && index - pending.index >= this.peakConfirmDelay) {
+      this.pendingPeak = null;
+      if (pending.index - this.lastQRSIndex > this.refractory) {
+        const qrs = this.classifyPeak(pending.index, pending.value);
+        if (qrs) events.push(qrs);
+      }
+    }
+
+    // Search-back: no QRS within RR MISSED LIMIT (166% of RR AVERAGE2), take the
+    // largest peak since the last QRS that exceeded the second thresholds
+    const rrAverage = this.getRRAverage2();
+    if (rrAverage > 0 && this.searchBackCandidate && index - this.lastQRSIndex > 1.66 * rrAverage) {
+      const candidate = this.searchBackCandidate;
+      this.signalLevel = this.learningRateSearchBack * candidate.value +
+        (1 - this.learningRateSearchBack) * this.signalLevel;
+      this.signalLevelF = this.learningRateSearchBack * candidate.valueF +
+        (1 - this.learningRateSearchBack) * this.signalLevelF;
+      this.updateThresholds();
+      events.push(this.acceptQRS(candidate.index, candidate.slope, true));
+    }
+
+    return events;
   }
-  
-  private movingWindowIntegrate(data: number[], windowSize: number): number[] {
-    const output = new Array(data.length).fill(0);
-    
-    for (let i = 0; i < data.length; i++) {
-      let sum = 0;
-      for (let j = 0; j < windowSize; j++) {
-        if (i - j >= 0) {
-          sum += data[i - j];
-        }
+
+  // Apply both threshold sets and the T-wave test to a confirmed integrated peak
+  private classifyPeak(peakIndex: number, peakI: number): RPeakEvent | null {
+    const peakF = this.windowMax(this.bandpassHistory, peakIndex);
+    const slope = this.windowMax(this.slopeHistory, peakIndex);
+    let event: RPeakEvent | null = null;
+
+    // Irregular rhythm: first thresholds of both sets are halved
+    const scale = this.irregular ? 0.5 : 1;
+    const isQRS = peakI > this.signalThreshold * scale && peakF > this.signalThresholdF * scale;
+
+    // A peak soon after the last QRS with less than half its slope is a T wave
+    // The interval is taken between located peaks: the integrated waveform is flat-topped
+    // over the window length, so its maxima are too loosely placed for a 360ms test
+    const sinceLastBeat = this.lastRPeak === null ? Infinity : this.locateRPeak(peakIndex) - this.lastRPeak;
+    const isTWave = sinceLastBeat < this.tWaveWindow && slope < 0.5 * this.lastQRSSlope;
+
+    if (isQRS && !isTWave) {
+      this.signalLevel = this.learningRateSignal * peakI + (1 - this.learningRateSignal) * this.signalLevel;
+      this.signalLevelF = this.learningRateSignal * peakF + (1 - this.learningRateSignal) * this.signalLevelF;
+      event = this.acceptQRS(peakIndex, slope, false);
+    } else {
+      this.noiseLevel = this.learningRateNoise * peakI + (1 - this.learningRateNoise) * this.noiseLevel;
+      this.noiseLevelF = this.learningRateNoise * peakF + (1 - this.learningRateNoise) * this.noiseLevelF;
+      if (!isTWave &&
+        peakI > this.noiseThreshold * scale &&
+        peakF > this.noiseThresholdF * scale &&
+        (!this.searchBackCandidate || peakI > this.searchBackCandidate.value)) {
+        this.searchBackCandidate = { index: peakIndex, value: peakI, valueF: peakF, slope };
       }
-      output[i] = sum / windowSize;
     }
-    
-    this.prevIntegrated = output;
-    return output;
+
+    this.updateThresholds();
+    return event;
   }
-  
-  private findPeaks(integrated: number[], originalData: number[]): number[] {
-    const rPeaks: number[] = [];
-    const dataLength = integrated.length;
-    
-    // Minimum distance between peaks (300ms for 360Hz = 108 samples)
-    const minDistance = Math.round(this.sampleRate * 0.3); // 300ms window = 108 samples at 360Hz
-    
-    // Init with reasonable threshold
-    if (this.peakAmp.length === 0) {
-      // Initialize thresholds
-      const sortedData = [...integrated].sort((a, b) => b - a);
-      const topValue = sortedData[Math.floor(sortedData.length * 0.05)];
-      this.signalThreshold = topValue * 0.6;
-      this.noiseThreshold = topValue * 0.2;
+
+  private acceptQRS(integratedIndex: number, slope: number, searchBack: boolean): RPeakEvent {
+    this.lastQRSIndex = integratedIndex;
+    this.lastQRSSlope = slope;
+    this.searchBackCandidate = null;
+
+    const rPeak = this.locateRPeak(integratedIndex);
+    if (this.lastRPeak !== null) {
+      this.updateRRAverages(rPeak - this.lastRPeak);
     }
-    
-    // Find all peaks
-    for (let i = 1; i < dataLength - 1; i++) {
-      // Check if this is a local maximum
-      if (integrated[i] > integrated[i-1] && integrated[i] >= integrated[i+1]) {
-        // Check if it's a signal or noise
-        if (integrated[i] > this.signalThreshold) {
-          // Check minimum distance from last detected peak
-          const lastPeakIdx = this.peakLoc.length > 0 ? this.peakLoc[this.peakLoc.length - 1] : -minDistance;
-          
-          if (i - lastPeakIdx > minDistance) {
-            // It's a valid peak
-            rPeaks.push(i);
-            this.peakAmp.push(integrated[i]);
-            this.peakLoc.push(i);
-            
-            // Update signal threshold
-            const peakAvg = this.peakAmp.slice(-8).reduce((sum, val) => sum + val, 0) / 
-                          Math.min(8, this.peakAmp.length);
-            this.signalThreshold = this.noiseThreshold + 
-                                  this.learningRateSignal * (peakAvg - this.noiseThreshold);
-          }
-        } else if (integrated[i] > this.noiseThreshold) {
-          // It's noise
-          this.noiseAmp.push(integrated[i]);
-          this.noiseLoc.push(i);
-          
-          // Update noise threshold
-          const noiseAvg = this.noiseAmp.slice(-8).reduce((sum, val) => sum + val, 0) / 
-                         Math.min(8, this.noiseAmp.length);
-          this.noiseThreshold = this.learningRateNoise * noiseAvg;
-        }
-      }
+    this.lastRPeak = rPeak;
+
+    return {
+      index: rPeak,
+      amplitude: this.inputHistory[rPeak % this.historyLength],
+      searchBack
+    };
+  }
+
+  // Maximum absolute value of a history ring over the integration window ending at index
+  private windowMax(history: number[], index: number): number {
+    const oldest = Math.max(0, this.sampleCount - 2 - this.historyLength);
+    let max = 0;
+    for (let i = Math.max(oldest, index - this.windowSize); i <= index; i++) {
+      max = Math.max(max, Math.abs(history[i % this.historyLength]));
     }
-    
-    // Now find the actual R peaks in the original data
-    // (usually they are slightly offset from the integrated signal peaks)
-    const refinedPeaks: number[] = [];
-    
-    for (const peakIdx of rPeaks) {
-      // Search in a small window around the detected peak (adjusted for 360Hz)
-      const searchWindow = Math.round(this.sampleRate * 0.028); // 28ms window ≈ 10 samples at 360Hz
-      const searchStart = Math.max(0, peakIdx - searchWindow);
-      const searchEnd = Math.min(originalData.length - 1, peakIdx + searchWindow);
-      
-      let maxVal = originalData[peakIdx];
-      let maxIdx = peakIdx;
-      
-      for (let i = searchStart; i <= searchEnd; i++) {
-        if (originalData[i] > maxVal) {
-          maxVal = originalData[i];
-          maxIdx = i;
-        }
+    return max;
+  }
+
+  // The QRS lies inside the integration window ending at the integrated peak,
+  // shifted slightly earlier by the bandpass group delay; take the input maximum there
+  private locateRPeak(integratedIndex: number): number {
+    const oldest = Math.max(0, this.sampleCount - this.historyLength);
+    const searchStart = Math.max(oldest, integratedIndex - this.windowSize - Math.round(this.sampleRate * 0.028));
+    const searchEnd = Math.min(this.sampleCount - 1, integratedIndex);
+
+    let maxIdx = searchEnd;
+    let maxVal = -Infinity;
+    for (let i = searchStart; i <= searchEnd; i++) {
+      const val = this.inputHistory[i % this.historyLength];
+      if (val > maxVal) {
+        maxVal = val;
+        maxIdx = i;
       }
-      
-      refinedPeaks.push(maxIdx);
     }
-    
-    return refinedPeaks;
+
+    return maxIdx;
+  }
+
+  private updateThresholds() {
+    this.signalThreshold = this.noiseLevel + 0.25 * (this.signalLevel - this.noiseLevel);
+    this.noiseThreshold = 0.5 * this.signalThreshold;
+    this.signalThresholdF = this.noiseLevelF + 0.25 * (this.signalLevelF - this.noiseLevelF);
+    this.noiseThresholdF = 0.5 * this.signalThresholdF;
+  }
+
+  // RR AVERAGE1 tracks the last 8 beats; RR AVERAGE2 only the last 8 within
+  // 92%-116% of itself. When all of the last 8 are within those limits the rhythm
+  // is regular and RR AVERAGE2 is reset to RR AVERAGE1
+  private updateRRAverages(rr: number) {
+    this.rrIntervals.push(rr);
+    if (this.rrIntervals.length > 8) this.rrIntervals.shift();
+
+    const average2 = this.getRRAverage2();
+    const withinLimits = (interval: number) =>
+      average2 === 0 || (interval >= 0.92 * average2 && interval <= 1.16 * average2);
+
+    if (withinLimits(rr)) {
+      this.rrSelected.push(rr);
+      if (this.rrSelected.length > 8) this.rrSelected.shift();
+    }
+
+    if (this.rrIntervals.length === 8 && this.rrIntervals.every(withinLimits)) {
+      this.rrSelected = [...this.rrIntervals];
+      this.irregular = false;
+    } else {
+      this.irregular = !withinLimits(rr);
+    }
+  }
+
+  private getRRAverage2(): number {
+    const intervals = this.rrSelected.length > 0 ? this.rrSelected : this.rrIntervals;
+    if (intervals.length === 0) return 0;
+    return intervals.reduce((sum, val) => sum + val, 0) / intervals.length;
   }
-  
+
   // For debugging/visualization
   getIntermediateSignals() {
     return {
@@ -1,7 +1,15 @@
+import { WaveDelineator } from './waveDelineator';
+
+// Wave peaks, plus the onsets/offsets reported by the wavelet delineator
+export type WavePeakType = 'P' | 'Q' | 'R' | 'S' | 'T';
+export type WaveBoundaryType = 'Pon' | 'Poff' | 'QRSon' | 'QRSoff' | 'Toff';
+
+export const WAVE_BOUNDARY_TYPES: WaveBoundaryType[] = ['Pon', 'Poff', 'QRSon', 'QRSoff', 'Toff'];
+
 export interface PQRSTPoint {
     index: number;
     amplitude: number;
-    type: 'P' | 'Q' | 'R' | 'S' | 'T';
+    type: WavePeakType | WaveBoundaryType;
     // Add absolute time position so we can track this point even as data moves
     absolutePosition: number;
 }
@@ -10,10 +18,72 @@ export class PQRSTDetector {
     private windowSize: number;
     private sampleRate: number;
     private lastPointsMap: Map<string, PQRSTPoint[]> = new Map();
+    private delineator: WaveDelineator;
 
     constructor(sampleRate: number = 360) {
         this.windowSize = Math.floor(sampleRate * 0.2); // 200ms window = 72 samples at 360Hz
         this.sampleRate = sampleRate;
+        this.delineator = new WaveDelineator(sampleRate);
+    }
+
+    /**
+     * PQRST detection with wave boundaries
+     * Q, R and S come from detectWaves; P and T peaks are replaced by the wavelet delineator's
+     * where it found the wave, and Pon/Poff/QRSon/QRSoff/Toff are added per beat
+     */
+    delineateWaves(data: number[], rPeaks: number[], currentIndex: number = 0): PQRSTPoint[] {
+        const points = this.detectWaves(data, rPeaks, currentIndex);
+        const beatPeaks = points.filter(p => p.type === 'R').map(p => p.index);
+        if (beatPeaks.length === 0) return points;
+
+        const delineations = this.delineator.delineate(data, beatPeaks);
+        const makePoint = (index: number, type: PQRSTPoint['type']): PQRSTPoint => ({
+            index,
+            amplitude: data[index],
+            type,
+            absolutePosition: currentIndex + index
+        });
+
+        // detectWaves emits P/Q/R/S/T in that order after each R, keyed here by the R index
+        const result: PQRSTPoint[] = [];
+        let beat = -1;
+        for (const point of points) {
+            if (point.type === 'R') beat = beatPeaks.indexOf(point.index);
+            const d = delineations[beat];
+            if (d && point.type === 'P' && d.pPeak !== null) {
+                result.push(makePoint(d.pPeak, 'P'));
+            } else if (d && point.type === 'T' && d.tPeak !== null) {
+                result.push(makePoint(d.tPeak, 'T'));
+            } else {
+                result.push(point);
+            }
+        }
+
+        for (const d of delineations) {
+            const boundaries: [number | null, WaveBoundaryType][] = [
+                [d.pOnset, 'Pon'],
+                [d.pOffset, 'Poff'],
+                [d.qrsOnset, 'QRSon'],
+                [d.qrsOffset, 'QRSoff'],
+                [d.tOffset, 'Toff']
+            ];
+            for (const [index, type] of boundaries) {
+                if (index !== null && index >= 0 && index < data.length) {
+                    result.push(makePoint(index, type));
+                }
+            }
+        }
+
+        return result;
+    }
+
+    /**
+     * Per-beat P-wave presence from the wavelet delineator, aligned with rPeaks
+     * Fibrillatory baselines give several comparable slopes and no isolated P wave, so a
+     * run of absent P waves supports atrial fibrillation
+     */
+    detectPWaves(data: number[], rPeaks: number[]): boolean[] {
+        return this.delineator.delineate(data, rPeaks).map(d => d.pPeak !== null);
     }
 
     detectWaves(data: number[], rPeaks: number[], currentIndex: number = 0): PQRSTPoint[] {
@@ -0,0 +1,258 @@
+import Papa from 'papaparse';
+import { BPMCalculator } from './bpmCalculator';
+import { ECGFilterChain, FilterUtils, createFilterConfig } from './filters';
+import { QRSDetectorName, QRS_DETECTOR_LABELS, createQRSDetector } from './qrsDetectors';
+
+// Offline QRS detection benchmark against MIT-BIH reference annotations
+// Scoring follows ANSI/AAMI EC57: a detection within ±150 ms of a reference beat is a
+// true positive, unmatched references are false negatives, unmatched detections false positives
+
+// MIT-BIH annotation symbols that mark a beat; rhythm changes (+), noise (~, |),
+// flutter waves (!), comments (") and the like are not scored
+export const BEAT_SYMBOLS = new Set([
+  'N', 'L', 'R', 'B', 'A', 'a', 'J', 'S', 'V', 'r', 'F', 'e', 'j', 'n', 'E', '/', 'f', 'Q', '?'
+]);
+
+// The live-peak threshold detector is benchmarked alongside the pluggable QRS detectors
+export type BenchmarkDetectorName = QRSDetectorName | 'bpm-threshold';
+
+export const BENCHMARK_DETECTOR_LABELS: Record<BenchmarkDetectorName, string> = {
+  ...QRS_DETECTOR_LABELS,
+  'bpm-threshold': 'BPM Threshold'
+};
+
+export const BENCHMARK_DETECTOR_NAMES = Object.keys(BENCHMARK_DETECTOR_LABELS) as BenchmarkDetectorName[];
+
+export interface BenchmarkRecord {
+  id: string;
+  signal: number[];
+  referenceBeats: number[]; // Sample indices of annotated beats
+}
+
+export interface BeatMatchCounts {
+  truePositives: number;
+  falseNegatives: number;
+  falsePositives: number;
+}
+
+export interface DetectionScores {
+  sensitivity: number;          // Se = TP / (TP + FN)
+  positivePredictivity: number; // +P = TP / (TP + FP)
+  f1: number;                   // 2TP / (2TP + FN + FP)
+}
+
+export interface RecordBenchmarkResult extends BeatMatchCounts, DetectionScores {
+  recordId: string;
+  referenceCount: number;
+  detectedCount: number;
+}
+
+export interface BenchmarkSummary {
+  detector: BenchmarkDetectorName;
+  toleranceMs: number;
+  records: RecordBenchmarkResult[];
+  gross: BeatMatchCounts & DetectionScores; // Pooled over all beats
+  average: DetectionScores;                 // Mean of per-record scores
+}
+
+export interface BenchmarkOptions {
+  sampleRate?: number;
+  toleranceMs?: number;
+  prefilter?: boolean; // Run the app's zero-phase filter chain before detection
+}
+
+// Extract the MLII lead from a record CSV (sample index in column 0, value in column 1)
+export function parseECGCsv(text: string): number[] {
+  const results = Papa.parse<string[]>(text.trim(), { header: false });
+  return results.data
+    .map(row => Number(row[1]))
+    .filter(v => !isNaN(v));
+}
+
+// Beat positions from an annotation CSV (index,annotation_symbol), non-beat labels dropped
+export function parseAnnotationCsv(text: string): number[] {
+  const results = Papa.parse<{ index: string; annotation_symbol: string }>(text.trim(), { header: true });
+  return results.data
+    .filter(row => BEAT_SYMBOLS.has(row.annotation_symbol))
+    .map(row => Number(row.index))
+    .filter(index => !isNaN(index))
+    .sort((a, b) => a - b);
+}
+
+// Record number from a path such as "/ECG_Monitor/100_ekg.csv"
+export function recordIdFromPath(path: string): string {
+  const match = path.match(/(\d+)_(?:ekg|annotations_\d+)\.csv$/);
+  return match ? match[1] : path;
+}
+
+// Fetch and parse one record (browser or any runtime with fetch)
+export async function loadBenchmarkRecord(ecgPath: string, annPath: string): Promise<BenchmarkRecord> {
+  const [ecgResponse, annResponse] = await Promise.all([fetch(ecgPath), fetch(annPath)]);
+  if (!ecgResponse.ok) throw new Error(`Failed to load ${ecgPath}: ${ecgResponse.status}`);
+  if (!annResponse.ok) throw new Error(`Failed to load ${annPath}: ${annResponse.status}`);
+
+  return {
+    id: recordIdFromPath(ecgPath),
+    signal: parseECGCsv(await ecgResponse.text()),
+    referenceBeats: parseAnnotationCsv(await annResponse.text())
+  };
+}
+
+/**
+ * Pair reference and detected beats one-to-one within the tolerance window
+ * @param reference - Annotated beat indices, sorted ascending
+ * @param detected - Detected beat indices, sorted ascending
+ * @param toleranceSamples - Maximum distance for a match
+ */
+export function matchBeats(reference: number[], detected: number[], toleranceSamples: number): BeatMatchCounts {
+  let truePositives = 0;
+  let falseNegatives = 0;
+  let falsePositives = 0;
+  let i = 0;
+  let j = 0;
+
+  while (i < reference.length && j < detected.length) {
+    const diff = detected[j] - reference[i];
+    if (Math.abs(diff) <= toleranceSamples) {
+      // If the next detection sits closer to this reference, the current one is extra
+      if (j + 1 < detected.length && Math.abs(detected[j + 1] - reference[i]) < Math.abs(diff) &&
+          (i + 1 >= reference.length || Math.abs(detected[j] - reference[i + 1]) > Math.abs(diff))) {
+        falsePositives++;
+        j++;
+        continue;
+      }
+      truePositives++;
+      i++;
+      j++;
+    } else if (diff < 0) {
+      falsePositives++;
+      j++;
+    } else {
+      falseNegatives++;
+      i++;
+    }
+  }
+
+  falseNegatives += reference.length - i;
+  falsePositives += detected.length - j;
+
+  return { truePositives, falseNegatives, falsePositives };
+}
+
+// Se, +P and F1 from match counts (empty denominators score 0)
+export function scoreDetections(counts: BeatMatchCounts): DetectionScores {
+  const { truePositives: tp, falseNegatives: fn, falsePositives: fp } = counts;
+  return {
+    sensitivity: tp + fn > 0 ? tp / (tp + fn) : 0,
+    positivePredictivity: tp + fp > 0 ? tp / (tp + fp) : 0,
+    f1: tp > 0 ? (2 * tp) / (2 * tp + fn + fp) : 0
+  };
+}
+
+// Detection function for any benchmarkable detector
+export function createBenchmarkDetector(
+  name: BenchmarkDetectorName,
+  sampleRate: number
+): (signal: number[]) => number[] {
+  if (name === 'bpm-threshold') {
+    const calculator = new BPMCalculator(sampleRate);
+    return signal => calculator.detectPeaks(signal);
+  }
+
+  const detector = createQRSDetector(name, sampleRate);
+  return signal => {
+    detector.reset();
+    return detector.detectQRS(signal);
+  };
+}
+
+// Run a detector over one record and score it against the reference beats
+export function evaluateRecord(
+  record: BenchmarkRecord,
+  detector: BenchmarkDetectorName,
+  options: BenchmarkOptions = {}
+): RecordBenchmarkResult {
+  const { sampleRate = 360, toleranceMs = 150, prefilter = true } = options;
+
+  const signal = prefilter
+    ? FilterUtils.filterSignal(record.signal, new ECGFilterChain(createFilterConfig(sampleRate)), 'zero-phase')
+    : record.signal;
+
+  // Only score beats annotated inside the available signal
+  const reference = record.referenceBeats.filter(index => index < signal.length);
+  const detected = [...createBenchmarkDetector(detector, sampleRate)(signal)].sort((a, b) => a - b);
+  const counts = matchBeats(reference, detected, Math.round(toleranceMs * sampleRate / 1000));
+
+  return {
+    recordId: record.id,
+    referenceCount: reference.length,
+    detectedCount: detected.length,
+    ...counts,
+    ...scoreDetections(counts)
+  };
+}
+
+// Pool per-record results into gross and average statistics
+export function summarizeBenchmark(
+  detector: BenchmarkDetectorName,
+  records: RecordBenchmarkResult[],
+  toleranceMs: number = 150
+): BenchmarkSummary {
+  const pooled: BeatMatchCounts = records.reduce(
+    (acc, r) => ({
+      truePositives: acc.truePositives + r.truePositives,
+      falseNegatives: acc.falseNegatives + r.falseNegatives,
+      falsePositives: acc.falsePositives + r.falsePositives
+    }),
+    { truePositives: 0, falseNegatives: 0, falsePositives: 0 }
+  );
+
+  const mean = (key: keyof DetectionScores) =>
+    records.length > 0 ? records.reduce((sum, r) => sum + r[key], 0) / records.length : 0;
+
+  return {
+    detector,
+    toleranceMs,
+    records,
+    gross: { ...pooled, ...scoreDetections(pooled) },
+    average: {
+      sensitivity: mean('sensitivity'),
+      positivePredictivity: mean('positivePredictivity'),
+      f1: mean('f1')
+    }
+  };
+}
+
+// Benchmark a detector over a set of loaded records
+export function runBenchmark(
+  records: BenchmarkRecord[],
+  detector: BenchmarkDetectorName,
+  options: BenchmarkOptions = {}
+): BenchmarkSummary {
+  const results = records.map(record => evaluateRecord(record, detector, options));
+  return summarizeBenchmark(detector, results, options.toleranceMs ?? 150);
+}
+
+// Plain-text results table, one row per record plus gross and average rows
+export function formatBenchmarkTable(summary: BenchmarkSummary): string {
+  const pct = (value: number) => (value * 100).toFixed(2).padStart(7);
+  const header = 'Record   Beats     TP     FN     FP     Se%    +P%    F1%';
+  const rows = summary.records.map(r =>
+    `${r.recordId.padEnd(6)} ${String(r.referenceCount).padStart(7)} ${String(r.truePositives).padStart(6)} ` +
+    `${String(r.falseNegatives).padStart(6)} ${String(r.falsePositives).padStart(6)}` +
+    `${pct(r.sensitivity)}${pct(r.positivePredictivity)}${pct(r.f1)}`
+  );
+  const g = summary.gross;
+  const a = summary.average;
+
+  return [
+    `${BENCHMARK_DETECTOR_LABELS[summary.detector]} (±${summary.toleranceMs} ms)`,
+    header,
+    ...rows,
+    `${'Gross'.padEnd(6)} ${String(g.truePositives + g.falseNegatives).padStart(7)} ${String(g.truePositives).padStart(6)} ` +
+    `${String(g.falseNegatives).padStart(6)} ${String(g.falsePositives).padStart(6)}` +
+    `${pct(g.sensitivity)}${pct(g.positivePredictivity)}${pct(g.f1)}`,
+    `${'Avg'.padEnd(6)} ${''.padStart(7)} ${''.padStart(6)} ${''.padStart(6)} ${''.padStart(6)}` +
+    `${pct(a.sensitivity)}${pct(a.positivePredictivity)}${pct(a.f1)}`
+  ].join('\n');
+}
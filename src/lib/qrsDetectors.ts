@@ -0,0 +1,350 @@
+import { designFilter } from './filterDesign';
+import { BiquadFilter, FilterUtils } from './filters';
+import { PanTompkinsDetector } from './panTompkinsDetector';
+import { B3_SPLINE_KERNEL, atrousStep } from './wavelet';
+
+/**
+ * Common shape of every R-peak detector, so callers can swap algorithms by name
+ * detectQRS returns R-peak sample indices into the given record, ascending
+ */
+export interface QRSDetector {
+  readonly name: QRSDetectorName;
+  detectQRS(data: number[]): number[];
+  reset(): void;
+}
+
+export type QRSDetectorName = 'pan-tompkins' | 'hamilton-tompkins' | 'elgendi' | 'wavelet' | 'ensemble';
+
+export const QRS_DETECTOR_LABELS: Record<QRSDetectorName, string> = {
+  'pan-tompkins': 'Pan-Tompkins',
+  'hamilton-tompkins': 'Hamilton-Tompkins',
+  'elgendi': 'Elgendi (two moving averages)',
+  'wavelet': 'Wavelet',
+  'ensemble': 'Ensemble vote'
+};
+
+// Centered moving average computed with a running sum, window shrinks at the edges
+function movingAverage(data: number[], windowSize: number): number[] {
+  const n = data.length;
+  const half = Math.floor(windowSize / 2);
+  const prefix = new Array(n + 1).fill(0);
+  for (let i = 0; i < n; i++) prefix[i + 1] = prefix[i] + data[i];
+
+  const output = new Array(n).fill(0);
+  for (let i = 0; i < n; i++) {
+    const start = Math.max(0, i - half);
+    const end = Math.min(n, i + half + 1);
+    output[i] = (prefix[end] - prefix[start]) / (end - start);
+  }
+  return output;
+}
+
+// Zero-phase Butterworth band-pass, the offline detectors are not latency bound
+function bandpass(data: number[], low: number, high: number, order: number, sampleRate: number): number[] {
+  const filter = new BiquadFilter(designFilter({ type: 'bandpass', order, cutoff: [low, high], sampleRate }));
+  return FilterUtils.zeroPhaseFilter(data, filter, Math.round(sampleRate));
+}
+
+// Index of the largest input value within [start, end]
+function argMax(data: number[], start: number, end: number): number {
+  let maxIdx = Math.max(0, start);
+  for (let i = maxIdx; i <= Math.min(data.length - 1, end); i++) {
+    if (data[i] > data[maxIdx]) maxIdx = i;
+  }
+  return maxIdx;
+}
+
+function median(values: number[]): number {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[mid - 1] + sorted[mid]) / 2 : sorted[mid];
+}
+
+/**
+ * Hamilton & Tompkins (1986) with the median-based decision rules of Hamilton's
+ * open-source detector: 8-16Hz band-pass, |derivative|, 80ms moving average,
+ * detection threshold between the median QRS and noise peak levels, search-back at
+ * 1.5x the median RR with half the threshold
+ */
+export class HamiltonTompkinsDetector implements QRSDetector {
+  readonly name = 'hamilton-tompkins' as const;
+  private sampleRate: number;
+  private thresholdCoefficient = 0.3125;
+
+  constructor(sampleRate: number = 360) {
+    this.sampleRate = sampleRate;
+  }
+
+  reset() {
+    // Stateless between records
+  }
+
+  detectQRS(data: number[]): number[] {
+    if (data.length < this.sampleRate) return [];
+
+    const filtered = bandpass(data, 8, 16, 1, this.sampleRate);
+    const derivative = filtered.map((val, i) => (i === 0 ? 0 : Math.abs(val - filtered[i - 1])));
+    const averaged = movingAverage(derivative, Math.round(this.sampleRate * 0.08));
+
+    const refractory = Math.round(this.sampleRate * 0.2);
+    const peakWindow = Math.round(this.sampleRate * 0.1);
+    const searchWindow = Math.round(this.sampleRate * 0.08);
+
+    // Peaks of the averaged signal: largest value within ±100ms
+    const candidates: number[] = [];
+    for (let i = 1; i < averaged.length - 1; i++) {
+      if (averaged[i] > averaged[i - 1] && averaged[i] >= averaged[i + 1] &&
+        argMax(averaged, i - peakWindow, i + peakWindow) === i) {
+        candidates.push(i);
+      }
+    }
+
+    // Initial levels from the first 2 seconds
+    const learning = averaged.slice(0, Math.round(this.sampleRate * 2));
+    const qrsLevels: number[] = [Math.max(...learning)];
+    const noiseLevels: number[] = [median(learning)];
+    const rrIntervals: number[] = [];
+    const qrsPeaks: number[] = [];
+    let skipped: number[] = []; // Sub-threshold candidates since the last QRS
+
+    const threshold = () => {
+      const noise = median(noiseLevels.slice(-8));
+      return noise + this.thresholdCoefficient * (median(qrsLevels.slice(-8)) - noise);
+    };
+
+    const accept = (index: number) => {
+      const last = qrsPeaks[qrsPeaks.length - 1];
+      if (last !== undefined) {
+        rrIntervals.push(index - last);
+        if (rrIntervals.length > 8) rrIntervals.shift();
+      }
+      qrsPeaks.push(index);
+      qrsLevels.push(averaged[index]);
+      skipped = [];
+    };
+
+    for (const candidate of candidates) {
+      const last = qrsPeaks[qrsPeaks.length - 1];
+
+      // Search-back before handling a candidate that comes after a long gap
+      if (last !== undefined && rrIntervals.length > 0 && candidate - last > 1.5 * median(rrIntervals)) {
+        const recovered = skipped
+          .filter(idx => averaged[idx] > 0.5 * threshold() && idx - last > refractory)
+          .sort((a, b) => averaged[b] - averaged[a])[0];
+        if (recovered !== undefined) accept(recovered);
+      }
+
+      const previous = qrsPeaks[qrsPeaks.length - 1];
+      if (previous !== undefined && candidate - previous <= refractory) continue;
+
+      if (averaged[candidate] > threshold()) {
+        accept(candidate);
+      } else {
+        noiseLevels.push(averaged[candidate]);
+        skipped.push(candidate);
+      }
+    }
+
+    // Zero-phase filtering keeps the averaged peak over the QRS, refine to the input maximum
+    return qrsPeaks.map(idx => argMax(data, idx - searchWindow, idx + searchWindow));
+  }
+}
+
+/**
+ * Elgendi et al. (2013) two-event-related moving averages: 8-20Hz band-pass, squaring,
+ * a QRS-width average (97ms) compared against a beat-width average (611ms) plus an
+ * offset; blocks of interest at least one QRS wide contain a beat
+ */
+export class ElgendiDetector implements QRSDetector {
+  readonly name = 'elgendi' as const;
+  private sampleRate: number;
+  private beta = 0.08;
+
+  constructor(sampleRate: number = 360) {
+    this.sampleRate = sampleRate;
+  }
+
+  reset() {
+    // Stateless between records
+  }
+
+  detectQRS(data: number[]): number[] {
+    if (data.length < this.sampleRate) return [];
+
+    const filtered = bandpass(data, 8, 20, 3, this.sampleRate);
+    const squared = filtered.map(val => val * val);
+    const qrsWindow = Math.round(this.sampleRate * 0.097);
+    const maQRS = movingAverage(squared, qrsWindow);
+    const maBeat = movingAverage(squared, Math.round(this.sampleRate * 0.611));
+    const offset = this.beta * squared.reduce((sum, val) => sum + val, 0) / squared.length;
+    const refractory = Math.round(this.sampleRate * 0.3);
+
+    const peaks: number[] = [];
+    let blockStart = -1;
+    for (let i = 0; i <= maQRS.length; i++) {
+      const inBlock = i < maQRS.length && maQRS[i] > maBeat[i] + offset;
+      if (inBlock && blockStart < 0) {
+        blockStart = i;
+      } else if (!inBlock && blockStart >= 0) {
+        if (i - blockStart >= qrsWindow) {
+          const peak = argMax(data, blockStart, i - 1);
+          const last = peaks[peaks.length - 1];
+          if (last !== undefined && peak - last < refractory) {
+            if (data[peak] > data[last]) peaks[peaks.length - 1] = peak; // Keep the larger beat
+          } else {
+            peaks.push(peak);
+          }
+        }
+        blockStart = -1;
+      }
+    }
+
+    return peaks;
+  }
+}
+
+/**
+ * Wavelet detector: QRS energy in the à trous detail scales covering ~10-45Hz,
+ * smoothed over 100ms and compared to 30% of the local maximum in 2s segments
+ */
+export class WaveletQRSDetector implements QRSDetector {
+  readonly name = 'wavelet' as const;
+  private sampleRate: number;
+
+  constructor(sampleRate: number = 360) {
+    this.sampleRate = sampleRate;
+  }
+
+  reset() {
+    // Stateless between records
+  }
+
+  detectQRS(data: number[]): number[] {
+    if (data.length < this.sampleRate) return [];
+
+    // Detail scale j spans roughly fs/2^(j+2) .. fs/2^(j+1) Hz
+    const firstLevel = Math.max(1, Math.round(Math.log2(this.sampleRate / 40)) - 1);
+    const energy = new Array(data.length).fill(0);
+    let approximation = [...data];
+    for (let level = 0; level <= firstLevel + 1; level++) {
+      const next = atrousStep(approximation, B3_SPLINE_KERNEL, level);
+      if (level >= firstLevel) {
+        for (let i = 0; i < data.length; i++) {
+          const detail = approximation[i] - next[i];
+          energy[i] += detail * detail;
+        }
+      }
+      approximation = next;
+    }
+    const smoothed = movingAverage(energy, Math.round(this.sampleRate * 0.1));
+
+    // Threshold per 2s segment, floored so beat-free pauses don't promote noise
+    const segment = Math.round(this.sampleRate * 2);
+    const segmentMax: number[] = [];
+    for (let start = 0; start < smoothed.length; start += segment) {
+      segmentMax.push(Math.max(...smoothed.slice(start, start + segment)));
+    }
+    const floor = 0.3 * median(segmentMax);
+
+    const refractory = Math.round(this.sampleRate * 0.25);
+    const searchWindow = Math.round(this.sampleRate * 0.06);
+    const peaks: number[] = [];
+    for (let i = 1; i < smoothed.length - 1; i++) {
+      const threshold = Math.max(0.3 * segmentMax[Math.floor(i / segment)], floor);
+      if (smoothed[i] <= threshold || smoothed[i] <= smoothed[i - 1] || smoothed[i] < smoothed[i + 1]) continue;
+
+      const peak = argMax(data, i - searchWindow, i + searchWindow);
+      const last = peaks[peaks.length - 1];
+      if (last !== undefined && peak - last < refractory) {
+        if (data[peak] > data[last]) peaks[peaks.length - 1] = peak;
+      } else if (last === undefined || peak > last) {
+        peaks.push(peak);
+      }
+    }
+
+    return peaks;
+  }
+}
+
+/**
+ * Ensemble of detectors: peaks from all members are grouped when they fall within
+ * the tolerance window, and a group becomes a beat once enough members voted for it
+ */
+export class EnsembleQRSDetector implements QRSDetector {
+  readonly name = 'ensemble' as const;
+  private detectors: QRSDetector[];
+  private tolerance: number;
+  private minVotes: number;
+
+  /**
+   * @param sampleRate - Sampling rate in Hz
+   * @param detectors - Member detectors (defaults to all four single algorithms)
+   * @param toleranceMs - Peaks closer than this are votes for the same beat
+   * @param minVotes - Votes needed to accept a beat (defaults to a majority)
+   */
+  constructor(
+    sampleRate: number = 360,
+    detectors: QRSDetector[] = [
+      new PanTompkinsDetector(sampleRate),
+      new HamiltonTompkinsDetector(sampleRate),
+      new ElgendiDetector(sampleRate),
+      new WaveletQRSDetector(sampleRate)
+    ],
+    toleranceMs: number = 75,
+    minVotes?: number
+  ) {
+    this.detectors = detectors;
+    this.tolerance = Math.round((toleranceMs / 1000) * sampleRate);
+    this.minVotes = minVotes ?? Math.floor(detectors.length / 2) + 1;
+  }
+
+  reset() {
+    this.detectors.forEach(detector => detector.reset());
+  }
+
+  detectQRS(data: number[]): number[] {
+    const votes = this.detectors
+      .flatMap((detector, member) => detector.detectQRS(data).map(index => ({ index, member })))
+      .sort((a, b) => a.index - b.index);
+
+    const beats: number[] = [];
+    let group: typeof votes = [];
+
+    const closeGroup = () => {
+      const members = new Set(group.map(vote => vote.member));
+      if (members.size >= this.minVotes) {
+        beats.push(Math.round(median(group.map(vote => vote.index))));
+      }
+      group = [];
+    };
+
+    for (const vote of votes) {
+      if (group.length > 0 && vote.index - group[0].index > this.tolerance) {
+        closeGroup();
+      }
+      group.push(vote);
+    }
+    if (group.length > 0) closeGroup();
+
+    return beats;
+  }
+}
+
+// Build a detector by name, e.g. from a settings drop-down
+export function createQRSDetector(name: QRSDetectorName, sampleRate: number = 360): QRSDetector {
+  switch (name) {
+    case 'pan-tompkins':
+      return new PanTompkinsDetector(sampleRate);
+    case 'hamilton-tompkins':
+      return new HamiltonTompkinsDetector(sampleRate);
+    case 'elgendi':
+      return new ElgendiDetector(sampleRate);
+    case 'wavelet':
+      return new WaveletQRSDetector(sampleRate);
+    case 'ensemble':
+      return new EnsembleQRSDetector(sampleRate);
+    default:
+      throw new Error(`Unknown QRS detector: ${name}`);
+  }
+}
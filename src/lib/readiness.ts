@@ -0,0 +1,184 @@
+import { HRVBeat } from './hrvWindows';
+import { correctRRIntervals } from './rrCorrection';
+
+// Morning readiness from a daily HRV measurement
+// A short standardized recording (2 min supine, on waking) gives one ln(RMSSD) per day. Today's
+// value is compared with the rolling 7-day baseline of the previous days; the smallest worthwhile
+// change (SWC) is half the baseline SD, and a value inside mean ± SWC is normal day-to-day noise
+// (Plews et al. 2012). History is kept in the browser's localStorage only
+
+export interface ReadinessEntry {
+  date: string;            // Local calendar day, YYYY-MM-DD
+  recordedAt: number;      // ms since epoch
+  lnRmssd: number;
+  rmssd: number;           // ms
+  meanHR: number;          // BPM
+  beatCount: number;
+  percentCorrected: number;
+}
+
+export interface ReadinessBaseline {
+  mean: number;   // ln(RMSSD)
+  sd: number;
+  swcLow: number; // mean - SWC
+  swcHigh: number;
+  days: number;   // Measurements in the baseline
+}
+
+export type ReadinessStatus = 'Building Baseline' | 'Low' | 'Normal' | 'High';
+
+export interface ReadinessScore {
+  status: ReadinessStatus;
+  score: number | null;       // 0-100, 50 at the baseline mean; null while the baseline builds
+  zScore: number | null;      // Today's ln(RMSSD) in baseline SDs
+  baseline: ReadinessBaseline | null;
+  entry: ReadinessEntry;
+}
+
+export const READINESS_DURATION_S = 120;
+export const BASELINE_DAYS = 7;
+export const MIN_BASELINE_DAYS = 3;
+
+const STORAGE_KEY = 'ecg-readiness-history';
+const SWC_FACTOR = 0.5;
+// Score points per baseline SD
+const SCORE_PER_SD = 20;
+const MIN_READINESS_BEATS = 60;
+// Longest stretch without a logged beat that still counts as a continuous recording
+const MAX_BEAT_GAP_S = 3;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Local calendar day of a timestamp as YYYY-MM-DD
+ */
+export function toDateKey(time: number): string {
+  const date = new Date(time);
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+/**
+ * Summarize a readiness recording
+ * @param beats Beats from the standardized recording
+ * @returns null with fewer than 60 beats
+ */
+export function measureReadiness(beats: HRVBeat[], recordedAt: number = Date.now()): ReadinessEntry | null {
+  if (beats.length < MIN_READINESS_BEATS) return null;
+
+  const correction = correctRRIntervals(beats.map(beat => beat.rr));
+  const nn = correction.nn;
+  const differences = nn.slice(1).map((value, i) => value - nn[i]);
+  const rmssd = Math.sqrt(differences.reduce((sum, d) => sum + d * d, 0) / differences.length);
+  if (rmssd <= 0) return null;
+
+  return {
+    date: toDateKey(recordedAt),
+    recordedAt,
+    lnRmssd: Math.log(rmssd),
+    rmssd,
+    meanHR: 60000 / (nn.reduce((sum, value) => sum + value, 0) / nn.length),
+    beatCount: beats.length,
+    percentCorrected: correction.percentCorrected
+  };
+}
+
+/**
+ * Whether beats cover a measurement window without dropouts, so nothing from before the
+ * start or a stalled detector stands in for the recording
+ * @param beats Beats that ended after the start, times on the same clock as start and end
+ */
+export function coversReadinessWindow(beats: HRVBeat[], start: number, end: number): boolean {
+  if (beats.length === 0) return false;
+  const times = [start, ...beats.map(beat => beat.time), end];
+  return times.slice(1).every((time, i) => time - times[i] <= MAX_BEAT_GAP_S);
+}
+
+/**
+ * Rolling baseline from the entries of the 7 days before a date
+ * @returns null with fewer than 3 measurements in that period
+ */
+export function computeBaseline(entries: ReadinessEntry[], date: string): ReadinessBaseline | null {
+  const end = new Date(`${date}T00:00:00`).getTime();
+  const values = entries
+    .filter(entry => {
+      const day = new Date(`${entry.date}T00:00:00`).getTime();
+      return day < end && day >= end - BASELINE_DAYS * DAY_MS;
+    })
+    .map(entry => entry.lnRmssd);
+  if (values.length < MIN_BASELINE_DAYS) return null;
+
+  const mean = values.reduce((sum, v) => sum + v, 0) / values.length;
+  const sd = Math.sqrt(values.reduce((sum, v) => sum + (v - mean) ** 2, 0) / (values.length - 1));
+  const swc = SWC_FACTOR * sd;
+  return { mean, sd, swcLow: mean - swc, swcHigh: mean + swc, days: values.length };
+}
+
+/**
+ * Readiness of one entry against the baseline of the days before it
+ */
+export function scoreReadiness(entries: ReadinessEntry[], entry: ReadinessEntry): ReadinessScore {
+  const baseline = computeBaseline(entries, entry.date);
+  if (!baseline) {
+    return { status: 'Building Baseline', score: null, zScore: null, baseline, entry };
+  }
+
+  const zScore = baseline.sd > 0 ? (entry.lnRmssd - baseline.mean) / baseline.sd : 0;
+  const status: ReadinessStatus = entry.lnRmssd < baseline.swcLow
+    ? 'Low'
+    : entry.lnRmssd > baseline.swcHigh
+      ? 'High'
+      : 'Normal';
+
+  return {
+    status,
+    score: Math.max(0, Math.min(100, 50 + SCORE_PER_SD * zScore)),
+    zScore,
+    baseline,
+    entry
+  };
+}
+
+/**
+ * Daily readiness measurements persisted in localStorage, one per day, oldest first
+ */
+export class ReadinessStore {
+  private storageKey: string;
+
+  constructor(storageKey: string = STORAGE_KEY) {
+    this.storageKey = storageKey;
+  }
+
+  getEntries(): ReadinessEntry[] {
+    if (typeof window === 'undefined') return [];
+    try {
+      const entries = JSON.parse(localStorage.getItem(this.storageKey) || '[]');
+      return Array.isArray(entries) ? entries : [];
+    } catch {
+      return [];
+    }
+  }
+
+  /**
+   * Store a measurement, replacing any earlier one from the same day
+   */
+  save(entry: ReadinessEntry): ReadinessEntry[] {
+    const entries = this.getEntries()
+      .filter(existing => existing.date !== entry.date)
+      .concat(entry)
+      .sort((a, b) => a.date.localeCompare(b.date));
+    localStorage.setItem(this.storageKey, JSON.stringify(entries));
+    return entries;
+  }
+
+  clear(): void {
+    localStorage.removeItem(this.storageKey);
+  }
+
+  /**
+   * Readiness of every stored day, each against its own preceding baseline
+   */
+  getHistory(): ReadinessScore[] {
+    const entries = this.getEntries();
+    return entries.map(entry => scoreReadiness(entries, entry));
+  }
+}
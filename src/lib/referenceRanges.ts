@@ -0,0 +1,143 @@
+// Normal limits for heart rate and ECG intervals, chosen per subject
+// Pediatric bands follow the Davignon/Rijnbeek percentile tables (rounded), adult limits the
+// AHA/ACCF/HRS recommendations, and the athlete limits the international criteria for ECG
+// interpretation in athletes (Sharma et al. 2017). Medication rules then widen the limits
+// for drugs whose expected effect would otherwise be flagged as abnormal
+
+export type AgeBand = 'neonate' | 'infant' | 'toddler' | 'child' | 'adolescent' | 'adult' | 'senior';
+
+export interface ReferenceProfile {
+  age?: number;        // Years; adult limits when unknown
+  gender: 'male' | 'female';
+  athlete?: boolean;   // Regular endurance or high-intensity training
+  medications?: string[];
+}
+
+export interface ReferenceRange {
+  min: number;
+  max: number;
+}
+
+export interface ReferenceRanges {
+  ageBand: AgeBand;
+  heartRate: ReferenceRange; // BPM at rest
+  rr: ReferenceRange;        // ms, derived from heartRate
+  pr: ReferenceRange;        // ms
+  qrsMax: number;            // ms
+  qtMax: number;             // ms, uncorrected
+  qtcMax: number;            // ms
+  adjustments: string[];     // Human-readable list of athlete/medication rules that were applied
+}
+
+export const AGE_BAND_LABELS: Record<AgeBand, string> = {
+  neonate: 'Neonate (<1 month)',
+  infant: 'Infant (1-12 months)',
+  toddler: 'Toddler (1-3 years)',
+  child: 'Child (3-12 years)',
+  adolescent: 'Adolescent (12-18 years)',
+  adult: 'Adult (18-65 years)',
+  senior: 'Senior (65+ years)'
+};
+
+type BandLimits = Omit<ReferenceRanges, 'ageBand' | 'rr' | 'adjustments' | 'qtcMax'> & {
+  qtcMax: Record<'male' | 'female', number>;
+};
+
+const BAND_LIMITS: Record<AgeBand, BandLimits> = {
+  neonate:    { heartRate: { min: 100, max: 180 }, pr: { min: 70, max: 140 },  qrsMax: 80,  qtMax: 400, qtcMax: { male: 460, female: 460 } },
+  infant:     { heartRate: { min: 100, max: 160 }, pr: { min: 70, max: 150 },  qrsMax: 80,  qtMax: 400, qtcMax: { male: 460, female: 460 } },
+  toddler:    { heartRate: { min: 90, max: 150 },  pr: { min: 80, max: 150 },  qrsMax: 80,  qtMax: 420, qtcMax: { male: 460, female: 460 } },
+  child:      { heartRate: { min: 70, max: 120 },  pr: { min: 90, max: 170 },  qrsMax: 90,  qtMax: 440, qtcMax: { male: 460, female: 460 } },
+  adolescent: { heartRate: { min: 60, max: 100 },  pr: { min: 100, max: 190 }, qrsMax: 100, qtMax: 440, qtcMax: { male: 460, female: 460 } },
+  adult:      { heartRate: { min: 60, max: 100 },  pr: { min: 120, max: 200 }, qrsMax: 120, qtMax: 440, qtcMax: { male: 450, female: 470 } },
+  senior:     { heartRate: { min: 60, max: 100 },  pr: { min: 120, max: 220 }, qrsMax: 120, qtMax: 460, qtcMax: { male: 450, female: 470 } }
+};
+
+interface MedicationRule {
+  label: string;
+  pattern: RegExp;
+  apply: (ranges: ReferenceRanges) => void;
+}
+
+// Matched against free-text medication names as well as the recording form's categories
+const MEDICATION_RULES: MedicationRule[] = [
+  {
+    label: 'Beta blockers: resting rate down to 50 BPM and PR up to 220 ms expected',
+    pattern: /beta.?blocker|olol\b/i,
+    apply: ranges => {
+      ranges.heartRate.min = Math.min(ranges.heartRate.min, 50);
+      ranges.pr.max = Math.max(ranges.pr.max, 220);
+    }
+  },
+  {
+    label: 'Rate-limiting calcium channel blockers: resting rate down to 50 BPM and PR up to 220 ms expected',
+    pattern: /calcium channel blocker|verapamil|diltiazem/i,
+    apply: ranges => {
+      ranges.heartRate.min = Math.min(ranges.heartRate.min, 50);
+      ranges.pr.max = Math.max(ranges.pr.max, 220);
+    }
+  },
+  {
+    label: 'Digoxin: PR up to 220 ms expected',
+    pattern: /digoxin/i,
+    apply: ranges => {
+      ranges.pr.max = Math.max(ranges.pr.max, 220);
+    }
+  }
+];
+
+export function getAgeBand(age?: number): AgeBand {
+  if (age === undefined || !isFinite(age) || age <= 0) return 'adult';
+  if (age < 1 / 12) return 'neonate';
+  if (age < 1) return 'infant';
+  if (age < 3) return 'toddler';
+  if (age < 12) return 'child';
+  if (age < 18) return 'adolescent';
+  if (age < 65) return 'adult';
+  return 'senior';
+}
+
+/**
+ * Normal limits for one subject
+ * @param profile Age, sex, training status and medications
+ * @returns Limits with the applied athlete/medication adjustments listed
+ */
+export function getReferenceRanges(profile: ReferenceProfile): ReferenceRanges {
+  const ageBand = getAgeBand(profile.age);
+  const limits = BAND_LIMITS[ageBand];
+
+  const ranges: ReferenceRanges = {
+    ageBand,
+    heartRate: { ...limits.heartRate },
+    rr: { min: 0, max: 0 },
+    pr: { ...limits.pr },
+    qrsMax: limits.qrsMax,
+    qtMax: limits.qtMax,
+    qtcMax: limits.qtcMax[profile.gender],
+    adjustments: []
+  };
+
+  // Training-related sinus bradycardia and first-degree AV block are normal in athletes
+  if (profile.athlete && ageBand !== 'neonate' && ageBand !== 'infant' && ageBand !== 'toddler') {
+    ranges.heartRate.min = Math.min(ranges.heartRate.min, 30);
+    ranges.pr.max = Math.max(ranges.pr.max, 400);
+    ranges.adjustments.push('Athlete: resting rate down to 30 BPM and PR up to 400 ms are training-related');
+  }
+
+  for (const rule of MEDICATION_RULES) {
+    if ((profile.medications ?? []).some(medication => rule.pattern.test(medication))) {
+      rule.apply(ranges);
+      ranges.adjustments.push(rule.label);
+    }
+  }
+
+  ranges.rr = { min: 60000 / ranges.heartRate.max, max: 60000 / ranges.heartRate.min };
+  return ranges;
+}
+
+// One-line description such as "Adult (18-65 years), female, athlete"
+export function describeReferenceProfile(profile: ReferenceProfile): string {
+  const parts = [AGE_BAND_LABELS[getAgeBand(profile.age)], profile.gender];
+  if (profile.athlete) parts.push('athlete');
+  return parts.join(', ');
+}
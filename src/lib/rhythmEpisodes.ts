@@ -0,0 +1,238 @@
+// Rhythm episodes from ordered per-beat AAMI labels and RR intervals
+// Ectopic patterns are matched first: bigeminy (N-X alternating) and trigeminy (N-N-X) need
+// at least three cycles, and beats they use are not reported again. Remaining runs of
+// ventricular (V) or supraventricular (S) beats are named by length and rate: one beat is an
+// isolated PVC/PAC, two a couplet, three or more above 100 BPM NSVT (sustained VT from 30 s)
+// or an SVT run, slower runs a triplet or an idioventricular/ectopic atrial run. Pauses are RR
+// intervals over 2 s; brady- and tachycardia are stretches of at least 10 s whose local rate,
+// the median of five surrounding intervals so single ectopics don't break them, is outside
+// the limits. Unclassified beats (null labels) break every pattern
+
+export type BeatClass = 'normal' | 'supraventricular' | 'ventricular' | 'fusion' | 'other';
+
+export interface RhythmBeat {
+  time: number;             // Seconds from the start of the recording
+  label: BeatClass | null;  // null when the beat could not be classified
+}
+
+export type RhythmEpisodeType =
+  | 'Isolated PVC'
+  | 'Ventricular Couplet'
+  | 'Ventricular Triplet'
+  | 'NSVT'
+  | 'Sustained VT'
+  | 'Idioventricular Run'
+  | 'Ventricular Bigeminy'
+  | 'Ventricular Trigeminy'
+  | 'Isolated PAC'
+  | 'Supraventricular Couplet'
+  | 'Supraventricular Triplet'
+  | 'SVT Run'
+  | 'Ectopic Atrial Run'
+  | 'Atrial Bigeminy'
+  | 'Atrial Trigeminy'
+  | 'Pause'
+  | 'Bradycardia'
+  | 'Tachycardia';
+
+export interface RhythmEpisode {
+  type: RhythmEpisodeType;
+  onset: number;        // Seconds, first beat of the episode (beat before a pause)
+  offset: number;       // Seconds, last beat of the episode (beat ending a pause)
+  beatCount: number;    // Beats in the episode; 0 for a pause
+  rate: number | null;  // Mean BPM over the episode's intervals
+}
+
+export interface RhythmEpisodeOptions {
+  bradycardiaBpm?: number;
+  tachycardiaBpm?: number;
+  pauseSeconds?: number;
+}
+
+export const RHYTHM_EPISODE_SEVERITY: Record<RhythmEpisodeType, 'low' | 'medium' | 'high'> = {
+  'Isolated PVC': 'low',
+  'Ventricular Couplet': 'medium',
+  'Ventricular Triplet': 'medium',
+  'NSVT': 'high',
+  'Sustained VT': 'high',
+  'Idioventricular Run': 'medium',
+  'Ventricular Bigeminy': 'medium',
+  'Ventricular Trigeminy': 'medium',
+  'Isolated PAC': 'low',
+  'Supraventricular Couplet': 'low',
+  'Supraventricular Triplet': 'low',
+  'SVT Run': 'medium',
+  'Ectopic Atrial Run': 'low',
+  'Atrial Bigeminy': 'low',
+  'Atrial Trigeminy': 'low',
+  'Pause': 'high',
+  'Bradycardia': 'medium',
+  'Tachycardia': 'medium'
+};
+
+// Runs of three or more ectopic beats above this rate are tachycardias (NSVT, SVT)
+const RUN_TACHYCARDIA_BPM = 100;
+const SUSTAINED_VT_SECONDS = 30;
+const MIN_PATTERN_CYCLES = 3;
+const MIN_RATE_EPISODE_SECONDS = 10;
+const RATE_MEDIAN_HALF_WIDTH = 2;
+
+const DEFAULT_OPTIONS: Required<RhythmEpisodeOptions> = {
+  bradycardiaBpm: 60,
+  tachycardiaBpm: 100,
+  pauseSeconds: 2
+};
+
+type EctopicClass = 'ventricular' | 'supraventricular';
+
+const PATTERN_TYPES: Record<EctopicClass, { bigeminy: RhythmEpisodeType; trigeminy: RhythmEpisodeType }> = {
+  ventricular: { bigeminy: 'Ventricular Bigeminy', trigeminy: 'Ventricular Trigeminy' },
+  supraventricular: { bigeminy: 'Atrial Bigeminy', trigeminy: 'Atrial Trigeminy' }
+};
+
+// Mean BPM over the intervals ending at beats from..to (inclusive)
+function meanRate(beats: RhythmBeat[], from: number, to: number): number | null {
+  const start = Math.max(1, from);
+  if (to < start) return null;
+  const seconds = (beats[to].time - beats[start - 1].time) / (to - start + 1);
+  return seconds > 0 ? 60 / seconds : null;
+}
+
+function episode(beats: RhythmBeat[], type: RhythmEpisodeType, from: number, to: number): RhythmEpisode {
+  return {
+    type,
+    onset: beats[from].time,
+    offset: beats[to].time,
+    beatCount: to - from + 1,
+    rate: meanRate(beats, from, to)
+  };
+}
+
+// Bigeminy (period 2) or trigeminy (period 3): normal beats followed by one ectopic, repeated
+function findPatterns(beats: RhythmBeat[], used: boolean[], ectopic: EctopicClass, period: number): RhythmEpisode[] {
+  const episodes: RhythmEpisode[] = [];
+  const type = period === 2 ? PATTERN_TYPES[ectopic].bigeminy : PATTERN_TYPES[ectopic].trigeminy;
+  const matches = (index: number, offset: number) =>
+    index < beats.length && !used[index] && beats[index].label === (offset === period - 1 ? ectopic : 'normal');
+
+  for (let start = 0; start < beats.length; start++) {
+    let cycles = 0;
+    while ([...Array(period).keys()].every(offset => matches(start + cycles * period + offset, offset))) cycles++;
+    if (cycles < MIN_PATTERN_CYCLES) continue;
+
+    const end = start + cycles * period - 1;
+    episodes.push(episode(beats, type, start, end));
+    for (let i = start; i <= end; i++) used[i] = true;
+    start = end;
+  }
+  return episodes;
+}
+
+function nameRun(ectopic: EctopicClass, length: number, rate: number | null, duration: number): RhythmEpisodeType {
+  const fast = rate !== null && rate > RUN_TACHYCARDIA_BPM;
+  if (ectopic === 'ventricular') {
+    if (length === 1) return 'Isolated PVC';
+    if (length === 2) return 'Ventricular Couplet';
+    if (fast) return duration >= SUSTAINED_VT_SECONDS ? 'Sustained VT' : 'NSVT';
+    return length === 3 ? 'Ventricular Triplet' : 'Idioventricular Run';
+  }
+  if (length === 1) return 'Isolated PAC';
+  if (length === 2) return 'Supraventricular Couplet';
+  if (fast) return 'SVT Run';
+  return length === 3 ? 'Supraventricular Triplet' : 'Ectopic Atrial Run';
+}
+
+// Consecutive ectopic beats of one class not already part of a pattern
+function findRuns(beats: RhythmBeat[], used: boolean[], ectopic: EctopicClass): RhythmEpisode[] {
+  const episodes: RhythmEpisode[] = [];
+  for (let start = 0; start < beats.length; start++) {
+    if (used[start] || beats[start].label !== ectopic) continue;
+    let end = start;
+    while (end + 1 < beats.length && !used[end + 1] && beats[end + 1].label === ectopic) end++;
+
+    // The coupling interval into the first ectopic beat counts towards the run's rate
+    const rate = meanRate(beats, start, end);
+    const type = nameRun(ectopic, end - start + 1, rate, beats[end].time - beats[start].time);
+    episodes.push({ ...episode(beats, type, start, end), rate });
+    start = end;
+  }
+  return episodes;
+}
+
+function findPauses(beats: RhythmBeat[], pauseSeconds: number): RhythmEpisode[] {
+  const episodes: RhythmEpisode[] = [];
+  for (let i = 1; i < beats.length; i++) {
+    const gap = beats[i].time - beats[i - 1].time;
+    if (gap > pauseSeconds) {
+      episodes.push({ type: 'Pause', onset: beats[i - 1].time, offset: beats[i].time, beatCount: 0, rate: 60 / gap });
+    }
+  }
+  return episodes;
+}
+
+// Stretches of at least 10 s with the local rate below or above the limits
+function findRateEpisodes(beats: RhythmBeat[], bradycardiaBpm: number, tachycardiaBpm: number): RhythmEpisode[] {
+  if (beats.length < 2) return [];
+  const rr = beats.map((beat, i) => (i > 0 ? beat.time - beats[i - 1].time : null));
+  const localRate = beats.map((_, i) => {
+    const window = rr
+      .slice(Math.max(1, i - RATE_MEDIAN_HALF_WIDTH), i + RATE_MEDIAN_HALF_WIDTH + 1)
+      .filter((value): value is number => value !== null)
+      .sort((a, b) => a - b);
+    return window.length > 0 ? 60 / window[Math.floor(window.length / 2)] : null;
+  });
+
+  const episodes: RhythmEpisode[] = [];
+  for (const [type, outside] of [
+    ['Bradycardia', (rate: number) => rate < bradycardiaBpm],
+    ['Tachycardia', (rate: number) => rate > tachycardiaBpm]
+  ] as [RhythmEpisodeType, (rate: number) => boolean][]) {
+    let start = -1;
+    for (let i = 0; i <= beats.length; i++) {
+      const rate = i < beats.length ? localRate[i] : null;
+      if (rate !== null && outside(rate)) {
+        if (start < 0) start = i;
+        continue;
+      }
+      if (start >= 0 && beats[i - 1].time - beats[start].time >= MIN_RATE_EPISODE_SECONDS) {
+        episodes.push(episode(beats, type, start, i - 1));
+      }
+      start = -1;
+    }
+  }
+  return episodes;
+}
+
+/**
+ * Named rhythm episodes of a recording, in order of onset
+ * @param beats Beats in time order with their AAMI class
+ * @param options Rate limits, e.g. from the subject's reference ranges
+ */
+export function detectRhythmEpisodes(beats: RhythmBeat[], options: RhythmEpisodeOptions = {}): RhythmEpisode[] {
+  const { bradycardiaBpm, tachycardiaBpm, pauseSeconds } = { ...DEFAULT_OPTIONS, ...options };
+  const used: boolean[] = new Array(beats.length).fill(false);
+  const ectopicClasses: EctopicClass[] = ['ventricular', 'supraventricular'];
+
+  const patterns = ectopicClasses.flatMap(ectopic => [
+    ...findPatterns(beats, used, ectopic, 2),
+    ...findPatterns(beats, used, ectopic, 3)
+  ]);
+  const runs = ectopicClasses.flatMap(ectopic => findRuns(beats, used, ectopic));
+
+  return [
+    ...patterns,
+    ...runs,
+    ...findPauses(beats, pauseSeconds),
+    ...findRateEpisodes(beats, bradycardiaBpm, tachycardiaBpm)
+  ].sort((a, b) => a.onset - b.onset);
+}
+
+/**
+ * Number of episodes of each type that occurred
+ */
+export function countRhythmEpisodes(episodes: RhythmEpisode[]): Partial<Record<RhythmEpisodeType, number>> {
+  return episodes.reduce<Partial<Record<RhythmEpisodeType, number>>>((counts, e) => {
+    counts[e.type] = (counts[e.type] ?? 0) + 1;
+    return counts;
+  }, {});
+}
@@ -0,0 +1,209 @@
+// RR-series artifact detection and correction (Lipponen & Tarvainen 2019, as used by Kubios)
+// Successive differences (dRR) and deviations from an 11-beat median (mRR) are normalized by
+// adaptive thresholds, 5.2 quartile deviations over a 91-beat window. Beats whose dRR breaks the
+// threshold are classified from the pattern of their neighbours as ectopic, missed, extra, or
+// long/short; the rest are normal. Corrected series keep the time axis where possible:
+// missed beats are split, extra beats merged, ectopic and long/short beats moved to the midpoint
+// of their neighbours (or, with 'delete', the affected intervals are dropped as non-NN)
+
+export type RRArtifactType = 'ectopic' | 'missed' | 'extra' | 'longShort';
+export type RRCorrectionMethod = 'interpolate' | 'delete';
+
+export interface RRArtifact {
+  index: number; // Position in the uncorrected series
+  type: RRArtifactType;
+}
+
+export interface RRCorrectionResult {
+  nn: number[];               // Corrected intervals (ms)
+  artifacts: RRArtifact[];
+  counts: Record<RRArtifactType, number>;
+  percentCorrected: number;   // Artifacts as a percentage of the input beats
+  method: RRCorrectionMethod;
+}
+
+export const RR_ARTIFACT_LABELS: Record<RRArtifactType, string> = {
+  ectopic: 'Ectopic',
+  missed: 'Missed',
+  extra: 'Extra',
+  longShort: 'Long/short'
+};
+
+const THRESHOLD_ALPHA = 5.2;
+const THRESHOLD_WINDOW = 91;
+const MEDIAN_WINDOW = 11;
+// Ectopic decision boundary in the (dRR, S12) plane
+const ECTOPIC_C1 = 0.13;
+const ECTOPIC_C2 = 0.17;
+// |mRR| beyond this many thresholds marks a long or short beat on its own
+const MRR_LIMIT = 3;
+// Too few beats to estimate the thresholds
+const MIN_BEATS = 10;
+
+const median = (values: number[]): number => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[mid - 1] + sorted[mid]) / 2 : sorted[mid];
+};
+
+// Linearly interpolated quantile of sorted values
+const quantile = (sorted: number[], q: number): number => {
+  const position = (sorted.length - 1) * q;
+  const lower = Math.floor(position);
+  const upper = Math.ceil(position);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (position - lower);
+};
+
+// Centred moving window, shrunk at the edges
+function slidingWindow<T>(values: number[], width: number, reduce: (window: number[]) => T): T[] {
+  const half = Math.floor(width / 2);
+  return values.map((_, i) => reduce(values.slice(Math.max(0, i - half), Math.min(values.length, i + half + 1))));
+}
+
+// Time-varying threshold: alpha quartile deviations of |values|
+function adaptiveThreshold(values: number[]): number[] {
+  return slidingWindow(values.map(Math.abs), THRESHOLD_WINDOW, window => {
+    const sorted = [...window].sort((a, b) => a - b);
+    return (THRESHOLD_ALPHA * (quantile(sorted, 0.75) - quantile(sorted, 0.25))) / 2;
+  });
+}
+
+const normalize = (values: number[], thresholds: number[]): number[] =>
+  values.map((value, i) => (thresholds[i] > 0 ? value / thresholds[i] : 0));
+
+/**
+ * Classify artifacts in an RR series
+ * @param rr RR intervals in ms
+ * @returns Flagged beats in series order; empty below 10 beats
+ */
+export function detectRRArtifacts(rr: number[]): RRArtifact[] {
+  const n = rr.length;
+  if (n < MIN_BEATS) return [];
+
+  // Normalized successive differences; the first has no predecessor and takes the mean
+  const rawDrr = rr.map((value, i) => (i === 0 ? 0 : value - rr[i - 1]));
+  rawDrr[0] = rawDrr.slice(1).reduce((sum, d) => sum + d, 0) / (n - 1);
+  const drr = normalize(rawDrr, adaptiveThreshold(rawDrr));
+
+  // Normalized deviation from the local median; short beats count double
+  const medianRR = slidingWindow(rr, MEDIAN_WINDOW, median);
+  const rawMrr = rr.map((value, i) => {
+    const deviation = value - medianRR[i];
+    return deviation < 0 ? deviation * 2 : deviation;
+  });
+  const mrrThreshold = adaptiveThreshold(rawMrr);
+  const mrr = normalize(rawMrr, mrrThreshold);
+
+  // Neighbouring dRR values, mirrored at the ends
+  const at = (i: number) => drr[i < 0 ? -i : i >= n ? 2 * (n - 1) - i : i];
+  const s12 = drr.map((d, i) => (d > 0 ? Math.max(at(i - 1), at(i + 1)) : Math.min(at(i - 1), at(i + 1))));
+  const s22 = drr.map((d, i) => (d >= 0 ? Math.min(at(i + 1), at(i + 2)) : Math.max(at(i + 1), at(i + 2))));
+
+  const artifacts: RRArtifact[] = [];
+  for (let i = 0; i < n - 2; i++) {
+    if (Math.abs(drr[i]) <= 1) continue;
+
+    // A short-long (or long-short) pair around one beat
+    const ectopic =
+      (drr[i] > 1 && s12[i] < -ECTOPIC_C1 * drr[i] - ECTOPIC_C2) ||
+      (drr[i] < -1 && s12[i] > -ECTOPIC_C1 * drr[i] + ECTOPIC_C2);
+    if (ectopic) {
+      // Both intervals around the misplaced beat break the threshold; it is one artifact, so
+      // a long/short flag on the interval before is dropped and the one after is not evaluated
+      const previous = artifacts[artifacts.length - 1];
+      if (previous && previous.index === i - 1 && previous.type === 'longShort') artifacts.pop();
+      artifacts.push({ index: i, type: 'ectopic' });
+      i++;
+      continue;
+    }
+
+    // The following beat is evaluated too when its jump is the smaller of the next two
+    const candidates = Math.abs(drr[i + 1]) < Math.abs(drr[i + 2]) ? [i, i + 1] : [i];
+    for (const j of candidates) {
+      const long = drr[j] > 1 && s22[j] < -1;
+      const short = drr[j] < -1 && s22[j] > 1;
+      if (!long && !short && Math.abs(mrr[j]) <= MRR_LIMIT) continue;
+
+      const missed = long && Math.abs(rr[j] / 2 - medianRR[j]) < mrrThreshold[j];
+      const extra = short && j + 1 < n && Math.abs(rr[j] + rr[j + 1] - medianRR[j]) < mrrThreshold[j];
+      const type: RRArtifactType = extra ? 'extra' : missed ? 'missed' : 'longShort';
+      if (!artifacts.some(artifact => artifact.index === j)) artifacts.push({ index: j, type });
+      // Likewise the second half of the interval an extra beat split
+      if (type === 'extra') {
+        i = Math.max(i, j + 1);
+        break;
+      }
+    }
+  }
+
+  return artifacts.sort((a, b) => a.index - b.index);
+}
+
+/**
+ * Detect and correct artifacts in an RR series
+ * @param rr RR intervals in ms
+ * @param method Interpolate (keep every beat, Kubios default) or delete the affected intervals
+ */
+export function correctRRIntervals(rr: number[], method: RRCorrectionMethod = 'interpolate'): RRCorrectionResult {
+  const artifacts = detectRRArtifacts(rr);
+  const byIndex = new Map(artifacts.map(artifact => [artifact.index, artifact.type]));
+  const values = [...rr];
+  const dropped = new Set<number>();
+  const localMedian = (i: number) => median(rr.slice(Math.max(0, i - MEDIAN_WINDOW), i + MEDIAN_WINDOW + 1));
+
+  // A misplaced beat lengthens one interval and shortens the other by the same amount, so the
+  // partner is the neighbour whose average with this interval is closest to the local rhythm
+  // Intervals split or merged below are left alone here
+  const settled = new Set<number>();
+  artifacts.forEach(({ index, type }) => {
+    if (type === 'missed') settled.add(index);
+    if (type === 'extra') settled.add(index).add(index + 1);
+  });
+  for (const { index: i } of artifacts) {
+    if (settled.has(i)) continue;
+    const target = localMedian(i);
+    const partner = [i - 1, i + 1]
+      .filter(j => j >= 0 && j < rr.length && !settled.has(j))
+      .sort((a, b) => Math.abs((rr[i] + rr[a]) / 2 - target) - Math.abs((rr[i] + rr[b]) / 2 - target))[0];
+
+    if (method === 'delete') {
+      dropped.add(i);
+      if (partner !== undefined) dropped.add(partner);
+    } else if (partner !== undefined) {
+      // Move the beat between them to their midpoint
+      values[i] = values[partner] = (rr[i] + rr[partner]) / 2;
+    } else {
+      values[i] = target;
+    }
+    settled.add(i);
+    if (partner !== undefined) settled.add(partner);
+  }
+
+  const nn: number[] = [];
+  for (let i = 0; i < values.length; i++) {
+    const type = byIndex.get(i);
+    if (dropped.has(i)) continue;
+
+    if (type === 'missed') {
+      // An undetected beat halfway through
+      if (method === 'interpolate') nn.push(values[i] / 2, values[i] / 2);
+    } else if (type === 'extra') {
+      // A spurious detection splitting one interval in two
+      if (method === 'interpolate') nn.push(i + 1 < values.length ? values[i] + values[i + 1] : values[i]);
+      i++;
+    } else {
+      nn.push(values[i]);
+    }
+  }
+
+  const counts: Record<RRArtifactType, number> = { ectopic: 0, missed: 0, extra: 0, longShort: 0 };
+  artifacts.forEach(artifact => counts[artifact.type]++);
+
+  return {
+    nn,
+    artifacts,
+    counts,
+    percentCorrected: rr.length > 0 ? (artifacts.length / rr.length) * 100 : 0,
+    method
+  };
+}
@@ -1,16 +1,55 @@
-import { ECGIntervalCalculator } from './ecgIntervals';
+import { BeatIntervals, ECGIntervalCalculator, IntervalSummary, QTcFormula } from './ecgIntervals';
 import { HRVCalculator } from './hrvCalculator';
-import { PQRSTDetector } from './pqrstDetector';
-import { PanTompkinsDetector } from './panTompkinsDetector';
+import { HRVSpectrum } from './hrvSpectral';
+import { NonlinearHRV } from './hrvNonlinear';
+import { RRArtifactType, RRCorrectionMethod } from './rrCorrection';
+import { HRVWindowConfig, HRVWindowPoint } from './hrvWindows';
+import { BreathingSessionData } from './breathingBiofeedback';
+import { StressAssessment } from './stressIndex';
+import { AFDetectionResult, AFDetector } from './afDetector';
+import { BeatClass, RHYTHM_EPISODE_SEVERITY, RhythmEpisode, detectRhythmEpisodes } from './rhythmEpisodes';
+import { HeartRateTrend } from './heartRateTrend';
+import { PQRSTDetector, PQRSTPoint } from './pqrstDetector';
+import { ReferenceRanges, describeReferenceProfile } from './referenceRanges';
+import { STEpisode, STSegmentAnalyzer, STSlope, STTrendPoint } from './stSegment';
+import { QRSDetector, QRSDetectorName, createQRSDetector } from './qrsDetectors';
+import { BaselineMethod, ECGFilterChain, FilterUtils, createFilterConfig, withMainsNotch } from './filters';
 import { RecordingSession, PatientInfo } from '../components/SessionRecording';
 import { AAMI_CLASSES, zscoreNorm } from './modelTrainer';
 import * as tf from '@tensorflow/tfjs';
 
+// Signal quality around a beat: 'truncated' when the classifier window runs past the recording,
+// 'flat' with no signal, 'clipped' when the front end saturated, 'noisy' with high-frequency
+// noise between the QRS complexes
+export type BeatQuality = 'good' | 'noisy' | 'clipped' | 'flat' | 'truncated';
+
+export interface ClassifiedBeat {
+    peak: number;                   // R-peak sample index
+    label: BeatClass | null;        // AAMI class; null when unclassified or no class reached 50%
+    probabilities: number[] | null; // Model output in AAMI_CLASSES order
+    quality: BeatQuality;
+}
+
+// Model input: 135 samples (375 ms at 360 Hz) centred on the R peak, as in modelTrainer.ts
+const BEAT_LENGTH = 135;
+// Noise is measured outside +/-60 ms of each R peak, up to 400 ms before and 600 ms after the beat
+const QRS_HALF_WIDTH_SECONDS = 0.06;
+const NOISE_WINDOW_SECONDS = [0.4, 0.6];
+// RMS second difference outside the QRS (in 360 Hz sample units) relative to the QRS peak-to-peak
+// amplitude. P/T waves stay below 0.0022 even for tall, narrow T waves at 120 bpm; white noise at
+// 10% of the R amplitude gives 0.0036 or more at 250-500 Hz (calibrated on synthetic records)
+const NOISY_BEAT_THRESHOLD = 0.003;
+// A saturated front end holds the rail value; real R peaks don't stay on one code this long
+const CLIPPED_RUN_SECONDS = 0.01;
+
 export type SessionAnalysisResults = {
     summary: {
         recordingDuration: string;
         recordingDurationSeconds?: number;
+        mainsFrequency?: number;
         rPeaks?: number[];
+        referenceRanges?: ReferenceRanges; // Normal limits the statuses were judged against
+        referenceProfile?: string;
         heartRate: {
             average: number;
             min: number;
@@ -22,28 +61,47 @@ export type SessionAnalysisResults = {
             confidence: number;
             irregularBeats: number;
             percentIrregular: number;
+            // RR irregularity plus P-wave absence; episode times in seconds from the start
+            atrialFibrillation?: AFDetectionResult;
+            // Ectopic patterns, runs, pauses and rate episodes in order of onset
+            episodes?: RhythmEpisode[];
         };
     };
     intervals: {
+        // 'average' is the median over included beats when per-beat measurement succeeded
         pr: {
             average: number;
+            iqr?: number;
             status: string;
         };
         qrs: {
             average: number;
+            iqr?: number;
             status: string;
         };
         qt: {
             average: number;
+            iqr?: number;
         };
         qtc: {
             average: number;
+            iqr?: number;
             status: string;
+            formula?: QTcFormula; // Formula behind 'average'
+            byFormula?: Partial<Record<QTcFormula, number>>; // Median QTc under every formula
         };
         st: {
-            deviation: number;
+            deviation: number; // Median ST level in mV, or signal units when not calibrated
+            calibrated: boolean;
             status: string;
+            slope?: STSlope;
+            trend?: STTrendPoint[];
+            episodes?: STEpisode[];
         };
+        beats?: BeatIntervals[];
+        summary?: IntervalSummary;
+        // Re-filtered from live-filtered samples (no rawEcgData), so onsets/offsets keep the live phase lag
+        timingBiased: boolean;
     };
     hrv: {
         timeMetrics: {
@@ -56,15 +114,32 @@ export type SessionAnalysisResults = {
             lf: number;
             hf: number;
             lfhfRatio: number;
+            // VLF/LF/HF in ms², normalized units and peak frequencies; null under a minute of beats
+            welch?: HRVSpectrum | null;
+            lombScargle?: HRVSpectrum | null;
+        };
+        // Poincaré SD1/SD2, entropies and DFA exponents; individual values null when too few beats
+        nonlinearMetrics?: NonlinearHRV;
+        // Artifact correction applied before every HRV metric above
+        correction?: {
+            percentCorrected: number;
+            counts: Record<RRArtifactType, number>;
+            method: RRCorrectionMethod;
+        };
+        // Metrics over a rolling window, one point per step
+        history?: {
+            windowSeconds: number;
+            stepSeconds: number;
+            points: HRVWindowPoint[];
         };
+        // Paced-breathing and resonance sessions saved with the recording
+        breathing?: BreathingSessionData[];
         assessment: {
             status: string;
             description: string;
         };
-        physiologicalState: {
-            state: string;
-            confidence: number;
-        };
+        // Baevsky stress index and RMSSD vs. the session's own baseline, with contributing factors
+        physiologicalState: StressAssessment;
     };
     aiClassification: {
         prediction: string;
@@ -77,6 +152,10 @@ export type SessionAnalysisResults = {
             fusion: number;
             other: number;
         };
+        // One entry per R peak, in order, with its position for review
+        beats?: ClassifiedBeat[];
+        // The zero-phase filtered recording the beat positions index into
+        signal?: { data: number[]; sampleRate: number };
     };
     abnormalities: {
         type: string;
@@ -87,19 +166,51 @@ export type SessionAnalysisResults = {
 };
 
 export class SessionAnalyzer {
-    private panTompkins: PanTompkinsDetector;
+    private qrsDetector: QRSDetector;
     private pqrstDetector: PQRSTDetector;
     private intervalCalculator: ECGIntervalCalculator;
     private hrvCalculator: HRVCalculator;
+    private stAnalyzer: STSegmentAnalyzer;
+    private afDetector: AFDetector;
     private model: tf.LayersModel | null = null;
     private sampleRate: number;
+    private baselineMethod: BaselineMethod;
 
-    constructor(sampleRate: number) {
+    // Spline baseline by default: it passes through the PR segments, so ST levels are
+    // measured against the true isoelectric line rather than a high-pass approximation
+    constructor(sampleRate: number, baselineMethod: BaselineMethod = 'spline') {
         this.sampleRate = sampleRate;
-        this.panTompkins = new PanTompkinsDetector(sampleRate);
+        this.baselineMethod = baselineMethod;
+        this.qrsDetector = createQRSDetector('pan-tompkins', sampleRate);
         this.pqrstDetector = new PQRSTDetector(sampleRate);
         this.intervalCalculator = new ECGIntervalCalculator(sampleRate);
         this.hrvCalculator = new HRVCalculator();
+        this.stAnalyzer = new STSegmentAnalyzer(sampleRate, null);
+        this.afDetector = new AFDetector();
+    }
+
+    // Choose the R-peak detector used for subsequent analyses
+    setQRSDetector(name: QRSDetectorName): void {
+        if (name !== this.qrsDetector.name) {
+            this.qrsDetector = createQRSDetector(name, this.sampleRate);
+        }
+    }
+
+    getQRSDetectorName(): QRSDetectorName {
+        return this.qrsDetector.name;
+    }
+
+    // Choose the QT correction reported as the session QTc
+    setQTcFormula(formula: QTcFormula): void {
+        this.intervalCalculator.setQTcFormula(formula);
+    }
+
+    getQTcFormula(): QTcFormula {
+        return this.intervalCalculator.getQTcFormula();
+    }
+
+    setHRVWindow(config: HRVWindowConfig): void {
+        this.hrvCalculator.setHRVWindow(config);
     }
 
     async loadModel(): Promise<boolean> {
@@ -169,6 +280,8 @@ export class SessionAnalyzer {
                     qrs: 0,
                     qt: 0,
                     qtc: 0,
+                    qtcFormula: 'bazett',
+                    qtcByFormula: {},
                     status: {
                         rr: 'unknown',
                         bpm: 'unknown',
@@ -182,44 +295,77 @@ export class SessionAnalyzer {
             intervals = session.intervals;
         }
 
-        const { ecgData, patientInfo, sampleRate, duration } = session;
+        const { patientInfo, sampleRate, duration } = session;
 
-        this.intervalCalculator.setGender(patientInfo.gender);
+        // Start from a clean state so re-analysing a session gives the same result
+        this.qrsDetector.reset();
+        this.intervalCalculator.reset();
+        this.hrvCalculator.reset();
+        this.stAnalyzer = new STSegmentAnalyzer(sampleRate, session.mvPerUnit ?? null);
+        this.intervalCalculator.setReferenceProfile(patientInfo);
+        const referenceRanges = this.intervalCalculator.getReferenceRanges();
 
-        // 1. Detect R-peaks
-        const peaks = this.panTompkins.detectQRS(ecgData);
+        // 0. Zero-phase filtering, so QRS onset / T offset timing isn't shifted by group delay
+        const source = this.sessionSource(session);
+        const ecgData = this.filterSessionData(session);
 
-        // 2. Detect PQRST waves
-        const pqrstPoints = this.pqrstDetector.detectWaves(ecgData, peaks, 0);
+        // 1. Detect R-peaks with the selected QRS detector
+        const peaks = this.qrsDetector.detectQRS(ecgData);
 
-        // 3. Calculate ECG intervals
-        intervals = session.intervals || this.intervalCalculator.calculateIntervals(pqrstPoints);
+        // 2. Detect PQRST waves with onsets/offsets (wavelet delineation)
+        const pqrstPoints = this.pqrstDetector.delineateWaves(ecgData, peaks, 0);
+
+        // 3. Per-beat intervals; session values are medians over the beats that pass the
+        //    exclusion rules, falling back to the latest complex and then the live snapshot
+        const beatIntervals = this.intervalCalculator.calculateBeatIntervals(pqrstPoints);
+        const intervalSummary = this.intervalCalculator.summarizeBeatIntervals(beatIntervals);
+        intervals = this.intervalCalculator.intervalsFromSummary(intervalSummary)
+            || this.intervalCalculator.calculateIntervals(pqrstPoints)
+            || session.intervals;
 
         // 4. Calculate HRV metrics
         this.hrvCalculator.extractRRFromPeaks(peaks, sampleRate);
         const hrvMetrics = this.hrvCalculator.getAllMetrics();
-        const physioState = this.hrvCalculator.getPhysiologicalState();
+        const physioState = this.hrvCalculator.getStressAssessment();
+
+        // 5. ST level per beat from the J point, trend and episodes
+        const stSegmentData = this.stAnalyzer.analyze(ecgData, pqrstPoints);
 
-        // 5. Analyze ST segment
-        const stSegmentData = this.analyzeSTSegment(pqrstPoints);
+        // 5b. Atrial fibrillation from RR irregularity and per-beat P-wave presence
+        const atrialFibrillation = this.afDetector.detect(
+            peaks.map(peak => peak / sampleRate),
+            this.pqrstDetector.detectPWaves(ecgData, peaks)
+        );
 
         // 6. Run AI classification using beat-level model
         const aiClassification = await this.runBeatLevelClassification(
             ecgData,
             peaks,
+            this.assessBeatQuality(ecgData, source, peaks, sampleRate),
             intervals,
             stSegmentData,
             hrvMetrics,
             patientInfo
         );
 
+        // 6b. Named rhythm episodes from the per-beat classes and RR intervals; noisy beats count as unclassified
+        const rhythmEpisodes = detectRhythmEpisodes(
+            peaks.map((peak, i) => {
+                const beat = aiClassification.beats?.[i];
+                return { time: peak / sampleRate, label: beat && beat.quality === 'good' ? beat.label : null };
+            }),
+            { bradycardiaBpm: referenceRanges.heartRate.min, tachycardiaBpm: referenceRanges.heartRate.max }
+        );
+
         // 7. Determine abnormalities
         const abnormalities = this.detectAbnormalities(
             intervals,
             stSegmentData,
             hrvMetrics,
             aiClassification,
-            patientInfo
+            referenceRanges,
+            atrialFibrillation,
+            rhythmEpisodes
         );
 
         // 8. Generate recommendations
@@ -230,46 +376,64 @@ export class SessionAnalyzer {
         );
 
         // 9. Calculate summary statistics
-        const heartRates = this.calculateHeartRateStats(peaks, sampleRate, duration);
+        const heartRates = this.calculateHeartRateStats(peaks, sampleRate, session.startTime);
 
         return {
             summary: {
                 recordingDuration: this.formatDuration(duration),
                 recordingDurationSeconds: duration,
+                mainsFrequency: session.mainsFrequency,
                 rPeaks: peaks,
+                referenceRanges,
+                referenceProfile: describeReferenceProfile(patientInfo),
                 heartRate: {
                     average: heartRates.average,
                     min: heartRates.min,
                     max: heartRates.max,
-                    status: this.determineHeartRateStatus(heartRates.average)
+                    status: this.determineHeartRateStatus(heartRates.average, referenceRanges)
                 },
                 rhythm: {
                     classification: aiClassification.prediction,
                     confidence: aiClassification.confidence,
                     irregularBeats: this.countIrregularBeats(peaks, sampleRate),
-                    percentIrregular: this.calculatePercentIrregular(peaks, sampleRate)
+                    percentIrregular: this.calculatePercentIrregular(peaks, sampleRate),
+                    atrialFibrillation,
+                    episodes: rhythmEpisodes
                 }
             },
             intervals: {
                 pr: {
                     average: intervals?.pr || 0,
+                    iqr: intervalSummary.pr?.iqr,
                     status: intervals?.status.pr || 'unknown'
                 },
                 qrs: {
                     average: intervals?.qrs || 0,
+                    iqr: intervalSummary.qrs?.iqr,
                     status: intervals?.status.qrs || 'unknown'
                 },
                 qt: {
-                    average: intervals?.qt || 0
+                    average: intervals?.qt || 0,
+                    iqr: intervalSummary.qt?.iqr
                 },
                 qtc: {
                     average: intervals?.qtc || 0,
-                    status: intervals?.status.qtc || 'unknown'
+                    iqr: intervalSummary.qtc?.iqr,
+                    status: intervals?.status.qtc || 'unknown',
+                    formula: intervals?.qtcFormula,
+                    byFormula: intervals?.qtcByFormula
                 },
                 st: {
                     deviation: stSegmentData?.deviation || 0,
-                    status: stSegmentData?.status || 'unknown'
-                }
+                    calibrated: stSegmentData?.calibrated ?? false,
+                    status: stSegmentData?.status || 'unknown',
+                    slope: stSegmentData?.slope,
+                    trend: stSegmentData?.trend,
+                    episodes: stSegmentData?.episodes
+                },
+                beats: beatIntervals,
+                summary: intervalSummary,
+                timingBiased: source !== session.rawEcgData
             },
             hrv: {
                 timeMetrics: {
@@ -281,59 +445,70 @@ export class SessionAnalyzer {
                 frequencyMetrics: {
                     lf: hrvMetrics.lfhf.lf,
                     hf: hrvMetrics.lfhf.hf,
-                    lfhfRatio: hrvMetrics.lfhf.ratio
+                    lfhfRatio: hrvMetrics.lfhf.ratio,
+                    welch: hrvMetrics.frequency.welch,
+                    lombScargle: hrvMetrics.frequency.lombScargle
+                },
+                nonlinearMetrics: hrvMetrics.nonlinear,
+                correction: {
+                    percentCorrected: hrvMetrics.correction.percentCorrected,
+                    counts: hrvMetrics.correction.counts,
+                    method: hrvMetrics.correction.method
                 },
+                history: {
+                    ...this.hrvCalculator.getHRVWindow(),
+                    points: this.hrvCalculator.getHRVHistory()
+                },
+                breathing: session.breathing,
                 assessment: hrvMetrics.assessment,
-                physiologicalState: {
-                    state: physioState.state,
-                    confidence: physioState.confidence
-                }
+                physiologicalState: physioState
             },
-            aiClassification,
+            aiClassification: { ...aiClassification, signal: { data: ecgData, sampleRate } },
             abnormalities,
             recommendations
         };
     }
 
-    private analyzeSTSegment(pqrstPoints: any[]): { deviation: number; status: string } | null {
-        // Basic ST segment analysis
-        if (!pqrstPoints || pqrstPoints.length === 0) {
-            return null;
-        }
-
-        // Simplified ST analysis - in a real implementation, this would be more sophisticated
-        const stDeviations: number[] = [];
-        
-        pqrstPoints.forEach(point => {
-            if (point.S && point.T) {
-                // Calculate ST segment deviation (simplified)
-                const stDeviation = point.T.amplitude - point.S.amplitude;
-                stDeviations.push(stDeviation);
-            }
-        });
+    // Unfiltered samples when the session has them, else the live-filtered ecgData
+    private sessionSource(session: RecordingSession): number[] {
+        return session.rawEcgData && session.rawEcgData.length > 0
+            ? session.rawEcgData
+            : session.ecgData;
+    }
 
-        if (stDeviations.length === 0) {
-            return { deviation: 0, status: 'unknown' };
-        }
+    /**
+     * Filter the stored recording forward-backward with the same chain (incl. mains notch)
+     * that was used live. Raw samples are used when the session has them; otherwise the
+     * already filtered ecgData is passed through again: the causal phase distortion of the
+     * live pass stays in the data and the magnitude response is applied twice, so wave
+     * onsets/offsets from such sessions are biased (flagged as intervals.timingBiased).
+     * The spline baseline needs R-peaks for its PR-segment knots, so they are located
+     * on a median-detrended pass first.
+     */
+    private filterSessionData(session: RecordingSession): number[] {
+        const source = this.sessionSource(session);
+        const config = {
+            ...withMainsNotch(createFilterConfig(session.sampleRate), session.mainsFrequency ?? 50),
+            baseline: this.baselineMethod
+        };
 
-        const avgDeviation = stDeviations.reduce((sum, dev) => sum + dev, 0) / stDeviations.length;
-        
-        let status = 'normal';
-        if (avgDeviation > 0.1) {
-            status = 'elevation';
-        } else if (avgDeviation < -0.1) {
-            status = 'depression';
+        if (this.baselineMethod === 'spline') {
+            const preliminary = FilterUtils.filterSignal(
+                source,
+                new ECGFilterChain({ ...config, baseline: 'median' }),
+                'zero-phase'
+            );
+            const knotPeaks = this.qrsDetector.detectQRS(preliminary);
+            return FilterUtils.filterSignal(source, new ECGFilterChain(config), 'zero-phase', knotPeaks);
         }
 
-        return {
-            deviation: avgDeviation,
-            status: status
-        };
+        return FilterUtils.filterSignal(source, new ECGFilterChain(config), 'zero-phase');
     }
 
     private async runBeatLevelClassification(
         ecgData: number[],
         peaks: number[],
+        beatQuality: BeatQuality[],
         intervals: any,
         stSegmentData: any,
         hrvMetrics: any,
@@ -349,19 +524,28 @@ export class SessionAnalyzer {
             fusion: number;
             other: number;
         };
+        beats?: ClassifiedBeat[];
     }> {
+        const beatLength = BEAT_LENGTH;
+        const halfBeat = Math.floor(beatLength / 2); // 67 samples
+        // Positions and quality are kept even when the beats can't be classified
+        const beats: ClassifiedBeat[] = (peaks ?? []).map((peak, i) => ({
+            peak,
+            label: null,
+            probabilities: null,
+            quality: beatQuality[i]
+        }));
+
         if (!this.model || !peaks || peaks.length === 0) {
             return {
                 prediction: "Analysis Failed",
                 confidence: 0,
-                explanation: "Could not run AI analysis due to missing model or insufficient data."
+                explanation: "Could not run AI analysis due to missing model or insufficient data.",
+                beats
             };
         }
 
         try {
-            // Updated to match modelTrainer.ts: 135 samples for 360Hz
-            const beatLength = 135; // Updated from 94 to 135
-            const halfBeat = Math.floor(beatLength / 2); // 67 samples
             const beatClassifications = {
                 normal: 0,
                 supraventricular: 0,
@@ -375,7 +559,7 @@ export class SessionAnalyzer {
 
            
             // Analyze individual beats around R-peaks
-            for (const peak of peaks) {
+            for (const [beatIndex, peak] of peaks.entries()) {
                 const startIdx = peak - halfBeat;
                 const endIdx = peak + halfBeat + (beatLength % 2); // For odd beatLength
 
@@ -410,9 +594,11 @@ export class SessionAnalyzer {
                     const predArray = Array.from(probabilities);
                     const maxIndex = predArray.indexOf(Math.max(...predArray));
                     const confidence = predArray[maxIndex];
+                    beats[beatIndex].probabilities = predArray;
                     
                     if (maxIndex >= 0 && maxIndex < AAMI_CLASSES.length && confidence > 0.5) {
                         const predictedClass = AAMI_CLASSES[maxIndex].toLowerCase();
+                        beats[beatIndex].label = predictedClass as BeatClass;
                         
                         // Count beat classifications
                         switch (predictedClass) {
@@ -494,7 +680,8 @@ export class SessionAnalyzer {
                 prediction: overallPrediction,
                 confidence: overallConfidence,
                 explanation: this.getExplanationForClassification(overallPrediction, beatClassifications),
-                beatClassifications: beatClassifications
+                beatClassifications: beatClassifications,
+                beats
             };
 
         } catch (err) {
@@ -502,11 +689,77 @@ export class SessionAnalyzer {
             return {
                 prediction: "Error",
                 confidence: 0,
-                explanation: "An error occurred during beat-level analysis."
+                explanation: "An error occurred during beat-level analysis.",
+                beats
             };
         }
     }
 
+    /**
+     * Signal quality around each beat: clipping is checked on the unfiltered samples, noise on
+     * the filtered signal between the neighbouring QRS complexes
+     */
+    private assessBeatQuality(ecgData: number[], source: number[], peaks: number[], sampleRate: number): BeatQuality[] {
+        const railHigh = source.reduce((a, b) => Math.max(a, b), -Infinity);
+        const railLow = source.reduce((a, b) => Math.min(a, b), Infinity);
+        return peaks.map((_, k) => this.assessSingleBeat(ecgData, source, [railLow, railHigh], peaks, k, sampleRate));
+    }
+
+    private assessSingleBeat(
+        ecgData: number[],
+        source: number[],
+        [railLow, railHigh]: [number, number],
+        peaks: number[],
+        k: number,
+        sampleRate: number
+    ): BeatQuality {
+        const peak = peaks[k];
+        const halfBeat = Math.floor(BEAT_LENGTH / 2);
+        const start = peak - halfBeat;
+        const end = peak + halfBeat + (BEAT_LENGTH % 2);
+        if (start < 0 || end >= ecgData.length) return 'truncated';
+
+        const beat = ecgData.slice(start, end);
+        const mean = beat.reduce((a, b) => a + b, 0) / beat.length;
+        const std = Math.sqrt(beat.reduce((a, b) => a + (b - mean) ** 2, 0) / beat.length);
+        if (std <= 0.001) return 'flat';
+
+        // Runs on the recording's extreme values within the classifier window
+        const minRun = Math.max(3, Math.round(CLIPPED_RUN_SECONDS * sampleRate));
+        let run = 0;
+        for (let i = start; i < Math.min(end, source.length); i++) {
+            run = source[i] === railHigh || source[i] === railLow ? run + 1 : 0;
+            if (run >= minRun) return 'clipped';
+        }
+
+        const qrsHalf = Math.round(QRS_HALF_WIDTH_SECONDS * sampleRate);
+        let low = Infinity;
+        let high = -Infinity;
+        for (let i = peak - qrsHalf; i <= peak + qrsHalf; i++) {
+            if (i < 0 || i >= ecgData.length) continue;
+            low = Math.min(low, ecgData[i]);
+            high = Math.max(high, ecgData[i]);
+        }
+
+        const from = Math.max(1, peak - Math.round(NOISE_WINDOW_SECONDS[0] * sampleRate), k > 0 ? peaks[k - 1] + qrsHalf : 0);
+        const to = Math.min(
+            ecgData.length - 1,
+            peak + Math.round(NOISE_WINDOW_SECONDS[1] * sampleRate),
+            k + 1 < peaks.length ? peaks[k + 1] - qrsHalf : ecgData.length
+        );
+        let sum = 0;
+        let count = 0;
+        for (let i = from; i < to; i++) {
+            if (Math.abs(i - peak) <= qrsHalf) continue;
+            sum += (ecgData[i + 1] - 2 * ecgData[i] + ecgData[i - 1]) ** 2;
+            count++;
+        }
+        if (count === 0) return 'good';
+
+        const noise = (Math.sqrt(sum / count) / (high - low)) * (sampleRate / 360) ** 2;
+        return noise > NOISY_BEAT_THRESHOLD ? 'noisy' : 'good';
+    }
+
     private getExplanationForClassification(
         prediction: string, 
         beatClassifications: {
@@ -543,16 +796,20 @@ export class SessionAnalyzer {
         stSegmentData: any,
         hrvMetrics: any,
         aiClassification: any,
-        patientInfo: PatientInfo
+        ranges: ReferenceRanges,
+        atrialFibrillation: AFDetectionResult,
+        rhythmEpisodes: RhythmEpisode[]
     ): { type: string; severity: 'low' | 'medium' | 'high'; description: string }[] {
         const abnormalities: { type: string; severity: 'low' | 'medium' | 'high'; description: string }[] = [];
 
+        // Statuses were classified against the subject's reference ranges; limits are quoted so
+        // the reader can see why e.g. 55 BPM is flagged for a child but not for an athlete
         if (intervals) {
             if (intervals.status.bpm === 'bradycardia') {
                 abnormalities.push({
                     type: 'Bradycardia',
                     severity: 'medium',
-                    description: 'Slow heart rate detected, which may indicate an underlying condition.'
+                    description: `Heart rate of ${intervals.bpm.toFixed(0)} BPM is below the ${ranges.heartRate.min} BPM lower limit for this profile, which may indicate an underlying condition.`
                 });
             }
 
@@ -560,7 +817,7 @@ export class SessionAnalyzer {
                 abnormalities.push({
                     type: 'Tachycardia',
                     severity: 'medium',
-                    description: 'Elevated heart rate detected, which could be due to exertion, stress, or cardiac issues.'
+                    description: `Heart rate of ${intervals.bpm.toFixed(0)} BPM is above the ${ranges.heartRate.max} BPM upper limit for this profile, which could be due to exertion, stress, or cardiac issues.`
                 });
             }
 
@@ -568,7 +825,7 @@ export class SessionAnalyzer {
                 abnormalities.push({
                     type: 'Prolonged PR Interval',
                     severity: 'medium',
-                    description: 'Delayed conduction from atria to ventricles detected.'
+                    description: `PR interval of ${intervals.pr.toFixed(0)} ms exceeds ${ranges.pr.max} ms: delayed conduction from atria to ventricles.`
                 });
             }
 
@@ -576,7 +833,7 @@ export class SessionAnalyzer {
                 abnormalities.push({
                     type: 'Wide QRS Complex',
                     severity: 'medium',
-                    description: 'Delayed ventricular conduction detected, possibly indicating bundle branch block.'
+                    description: `QRS duration of ${intervals.qrs.toFixed(0)} ms exceeds ${ranges.qrsMax} ms: delayed ventricular conduction, possibly bundle branch block.`
                 });
             }
 
@@ -584,7 +841,7 @@ export class SessionAnalyzer {
                 abnormalities.push({
                     type: 'Prolonged QTc',
                     severity: 'high',
-                    description: 'Prolonged QTc interval increases risk of dangerous arrhythmias.'
+                    description: `QTc of ${intervals.qtc.toFixed(0)} ms exceeds ${ranges.qtcMax} ms, which increases risk of dangerous arrhythmias.`
                 });
             }
         }
@@ -603,6 +860,31 @@ export class SessionAnalyzer {
             }
         }
 
+        if (atrialFibrillation.detected) {
+            const longest = Math.max(...atrialFibrillation.episodes.map(e => e.end - e.start));
+            abnormalities.push({
+                type: 'Possible Atrial Fibrillation',
+                severity: 'high',
+                description: `Irregularly irregular rhythm without consistent P waves in ${atrialFibrillation.episodes.length} episode(s) ` +
+                    `(longest ${Math.round(longest)} s), AF burden ${atrialFibrillation.burden.toFixed(1)}%.`
+            });
+        }
+
+        // High-severity rhythm episodes (VT, pauses), one entry per type
+        const serious = rhythmEpisodes.filter(e => RHYTHM_EPISODE_SEVERITY[e.type] === 'high');
+        for (const type of new Set(serious.map(e => e.type))) {
+            const episodes = serious.filter(e => e.type === type);
+            const longest = Math.max(...episodes.map(e => e.offset - e.onset));
+            abnormalities.push({
+                type,
+                severity: 'high',
+                description: type === 'Pause'
+                    ? `${episodes.length} pause(s) over 2 s between beats (longest ${longest.toFixed(1)} s).`
+                    : `${episodes.length} episode(s) of ${type} (longest ${Math.max(...episodes.map(e => e.beatCount))} beats, ` +
+                        `${longest.toFixed(1)} s).`
+            });
+        }
+
         // Check ST segment
         if (stSegmentData) {
             if (stSegmentData.status === 'elevation') {
@@ -618,6 +900,19 @@ export class SessionAnalyzer {
                     description: 'ST segment depression detected, which may indicate ischemia.'
                 });
             }
+
+            // Sustained episodes are reported even when the session median is normal
+            for (const type of ['elevation', 'depression'] as const) {
+                const episodes = (stSegmentData.episodes as STEpisode[]).filter(e => e.type === type);
+                if (episodes.length === 0 || stSegmentData.status === type) continue;
+                const longest = Math.max(...episodes.map(e => e.duration));
+                abnormalities.push({
+                    type: type === 'elevation' ? 'Transient ST Elevation' : 'Transient ST Depression',
+                    severity: type === 'elevation' ? 'high' : 'medium',
+                    description: `${episodes.length} episode(s) of ST ${type} of at least 1 mm lasting a minute or more ` +
+                        `(longest ${Math.round(longest)} s).`
+                });
+            }
         }
 
         return abnormalities;
@@ -672,7 +967,8 @@ export class SessionAnalyzer {
         return recommendations;
     }
 
-    private calculateHeartRateStats(peaks: number[], sampleRate: number, duration: number): {
+    // Every beat with a plausible RR counts; ectopic ('suspect') beats stay in, as before
+    private calculateHeartRateStats(peaks: number[], sampleRate: number, startTime: number): {
         average: number;
         min: number;
         max: number;
@@ -682,30 +978,18 @@ export class SessionAnalyzer {
             return { average: 0, min: 0, max: 0 };
         }
 
-        const rrIntervals = [];
-        for (let i = 1; i < peaks.length; i++) {
-            const rr = (peaks[i] - peaks[i - 1]) * (1000 / sampleRate);
-            rrIntervals.push(rr);
-        }
-
-        // Filter RR intervals to physiological range (300ms to 2000ms)
-        const filteredRRs = rrIntervals.filter(rr => rr >= 300 && rr <= 2000);
+        const trend = HeartRateTrend.fromPeaks(peaks, sampleRate, startTime);
+        const stats = trend.getStats(-Infinity, Infinity, ['good', 'suspect']);
 
-        if (filteredRRs.length === 0) {
+        if (!stats) {
             console.warn("No valid RR intervals after filtering.");
             return { average: 0, min: 0, max: 0 };
         }
 
-        const instantHRs = filteredRRs.map(rr => 60000 / rr);
-
-        const average = instantHRs.reduce((sum, hr) => sum + hr, 0) / instantHRs.length;
-        const min = Math.min(...instantHRs);
-        const max = Math.max(...instantHRs);
-
         return {
-            average: isNaN(average) ? 0 : average,
-            min: isNaN(min) ? 0 : min,
-            max: isNaN(max) ? 0 : max
+            average: stats.mean,
+            min: stats.min,
+            max: stats.max
         };
     }
 
@@ -732,10 +1016,10 @@ export class SessionAnalyzer {
         return `${min}:${sec.toString().padStart(2, '0')}`;
     }
 
-    private determineHeartRateStatus(bpm: number): string {
+    private determineHeartRateStatus(bpm: number, ranges: ReferenceRanges): string {
         if (isNaN(bpm) || bpm <= 0) return 'unknown';
-        if (bpm < 60) return 'bradycardia';
-        if (bpm > 100) return 'tachycardia';
+        if (bpm < ranges.heartRate.min) return 'bradycardia';
+        if (bpm > ranges.heartRate.max) return 'tachycardia';
         return 'normal';
     }
 }
\ No newline at end of file
@@ -0,0 +1,266 @@
+import type { PQRSTPoint } from './pqrstDetector';
+import { BaselineEstimator } from './filters';
+import { groupIntoComplexes } from './ecgIntervals';
+
+// ST-segment measurement shared by the live panel and session analysis
+// Per beat: J point at the QRS offset, ST level at J+60 and J+80 ms relative to the PR-segment
+// isoelectric level of the same beat, and the ST slope from J to J+80. Over a session the
+// per-beat levels form a trend, and sustained deviations are reported as episodes using the
+// Holter "1x1x1" rule (>= 1 mm for >= 1 minute, episodes closer than 1 minute merged).
+// The mV limits need the front end's calibration; without it levels stay in signal units,
+// status is 'uncalibrated', the slope is 'unknown' and no episodes are reported
+
+export type STSlope = 'upsloping' | 'horizontal' | 'downsloping' | 'unknown';
+export type STStatus = 'normal' | 'elevation' | 'depression' | 'uncalibrated';
+
+export interface BeatSTMeasurement {
+  rPeak: number;         // Absolute R-peak sample index
+  time: number;          // Seconds from the start of the signal
+  jPoint: number;        // Absolute J-point sample index
+  isoelectric: number;   // PR-segment level (signal units)
+  j60: number | null;    // ST level at J+60 ms relative to the isoelectric level (mV, signal units if uncalibrated)
+  j80: number | null;    // ST level at J+80 ms; null when the T wave starts earlier
+  deviation: number;     // J+80, or J+60 above 130 BPM or when J+80 is unavailable
+  slope: number;         // Per second, from J to the measurement point
+  slopeClass: STSlope;
+  status: STStatus;
+}
+
+export interface STTrendPoint {
+  time: number;      // Window centre, seconds
+  deviation: number; // Median deviation over the window (mV)
+  beatCount: number;
+}
+
+export interface STEpisode {
+  type: 'elevation' | 'depression';
+  start: number;         // Seconds
+  end: number;           // Seconds
+  duration: number;      // Seconds
+  peakDeviation: number; // Largest |deviation| in the episode, signed (mV)
+}
+
+export interface STAnalysis {
+  calibrated: boolean;   // false: levels are in signal units and not judged against mV limits
+  deviation: number;     // Median over measured beats (mV)
+  deviationMm: number | null; // Same at standard gain (10 mm/mV); null when uncalibrated
+  slope: STSlope;        // Most common slope class
+  status: STStatus;
+  beats: BeatSTMeasurement[];
+  trend: STTrendPoint[];
+  episodes: STEpisode[];
+}
+
+// Limits in mV (1 mm at 10 mm/mV = 0.1 mV)
+const ELEVATION_MV = 0.1;
+const DEPRESSION_MV = -0.1;
+// Upsloping depression is only significant when deeper (exercise-test convention)
+const UPSLOPING_DEPRESSION_MV = -0.15;
+// |slope| below this counts as horizontal (mV/s; 0.08 mV over 80 ms)
+const HORIZONTAL_SLOPE_MV_PER_S = 1.0;
+// Above this rate the ST segment is too short to reach J+80 before the T wave
+const J60_ABOVE_BPM = 130;
+// Each ST level is averaged over a short window to suppress noise
+const LEVEL_WINDOW_MS = 10;
+// Fallback J point when the delineator gave no QRS offset
+const J_AFTER_S_MS = 20;
+
+const TREND_WINDOW_S = 10;
+const MIN_EPISODE_S = 60;
+const EPISODE_MERGE_GAP_S = 60;
+
+const median = (values: number[]): number => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[mid - 1] + sorted[mid]) / 2 : sorted[mid];
+};
+
+export class STSegmentAnalyzer {
+  private sampleRate: number;
+  private mvPerUnit: number | null;
+
+  /**
+   * @param sampleRate Sampling rate in Hz
+   * @param mvPerUnit Millivolts per signal unit (1 when the signal is already in mV); null when
+   * the front end is uncalibrated
+   */
+  constructor(sampleRate: number = 360, mvPerUnit: number | null = 1) {
+    this.sampleRate = sampleRate;
+    this.mvPerUnit = mvPerUnit;
+  }
+
+  get calibrated(): boolean {
+    return this.mvPerUnit !== null;
+  }
+
+  /**
+   * ST measurement for every beat with a usable J point and isoelectric level
+   * @param signal Baseline-corrected ECG; points index into it via PQRSTPoint.index
+   * @param pqrstPoints Delineated fiducials (QRSoff, Poff and QRSon improve the measurement)
+   */
+  measureBeats(signal: number[], pqrstPoints: PQRSTPoint[]): BeatSTMeasurement[] {
+    const complexes = groupIntoComplexes(pqrstPoints, this.sampleRate);
+    const beats: BeatSTMeasurement[] = [];
+
+    complexes.forEach((complex, i) => {
+      const find = (type: PQRSTPoint['type']) => complex.find(p => p.type === type) ?? null;
+      const r = find('R') as PQRSTPoint; // Every complex is built around an R
+      const previousR = i > 0 ? complexes[i - 1].find(p => p.type === 'R') ?? null : null;
+
+      // J point: end of the QRS, or shortly after the S wave
+      const qrsOff = find('QRSoff');
+      const s = find('S');
+      const j = qrsOff ? qrsOff.index : s ? s.index + this.ms(J_AFTER_S_MS) : null;
+      if (j === null) return;
+      const offset = r.absolutePosition - r.index; // Buffer index -> absolute position
+
+      const isoelectric = this.isoelectricLevel(signal, find('Poff'), find('QRSon'), r);
+      if (isoelectric === null) return;
+
+      // The ST segment ends where the T wave rises; never measure past the T peak
+      const t = find('T');
+      const limit = Math.min(signal.length - 1, t ? t.index - this.ms(LEVEL_WINDOW_MS) : Infinity);
+      const level = (index: number) =>
+        index <= limit ? (this.meanLevel(signal, index) - isoelectric) * (this.mvPerUnit ?? 1) : null;
+      const j60 = level(j + this.ms(60));
+      const j80 = level(j + this.ms(80));
+
+      const rrMs = previousR ? ((r.absolutePosition - previousR.absolutePosition) / this.sampleRate) * 1000 : null;
+      const useJ60 = j80 === null || (rrMs !== null && 60000 / rrMs > J60_ABOVE_BPM);
+      const deviation = useJ60 ? j60 : j80;
+      if (deviation === null) return;
+
+      const jLevel = (this.meanLevel(signal, j) - isoelectric) * (this.mvPerUnit ?? 1);
+      const slope = (deviation - jLevel) / ((useJ60 ? 60 : 80) / 1000);
+      const slopeClass = this.classifySlope(slope);
+
+      beats.push({
+        rPeak: r.absolutePosition,
+        time: r.absolutePosition / this.sampleRate,
+        jPoint: j + offset,
+        isoelectric,
+        j60,
+        j80,
+        deviation,
+        slope,
+        slopeClass,
+        status: this.classifyDeviation(deviation, slopeClass)
+      });
+    });
+
+    return beats;
+  }
+
+  /**
+   * Session-level ST analysis: median level, dominant slope, trend and episodes
+   * @returns null when no beat could be measured
+   */
+  analyze(signal: number[], pqrstPoints: PQRSTPoint[]): STAnalysis | null {
+    return this.summarize(this.measureBeats(signal, pqrstPoints));
+  }
+
+  summarize(beats: BeatSTMeasurement[]): STAnalysis | null {
+    if (beats.length === 0) return null;
+
+    const deviation = median(beats.map(b => b.deviation));
+    const slopeCounts = new Map<STSlope, number>();
+    beats.forEach(b => slopeCounts.set(b.slopeClass, (slopeCounts.get(b.slopeClass) ?? 0) + 1));
+    const slope = [...slopeCounts.entries()].sort((a, b) => b[1] - a[1])[0][0];
+    const trend = this.buildTrend(beats);
+
+    return {
+      calibrated: this.calibrated,
+      deviation,
+      deviationMm: this.calibrated ? deviation * 10 : null,
+      slope,
+      status: this.classifyDeviation(deviation, slope),
+      beats,
+      trend,
+      episodes: this.calibrated ? this.detectEpisodes(trend) : []
+    };
+  }
+
+  // Median deviation in consecutive windows
+  private buildTrend(beats: BeatSTMeasurement[]): STTrendPoint[] {
+    const windows = new Map<number, number[]>();
+    for (const beat of beats) {
+      const window = Math.floor(beat.time / TREND_WINDOW_S);
+      if (!windows.has(window)) windows.set(window, []);
+      (windows.get(window) as number[]).push(beat.deviation);
+    }
+
+    return [...windows.entries()]
+      .sort((a, b) => a[0] - b[0])
+      .map(([window, deviations]) => ({
+        time: (window + 0.5) * TREND_WINDOW_S,
+        deviation: median(deviations),
+        beatCount: deviations.length
+      }));
+  }
+
+  // Runs of trend windows beyond the limits, merged across short gaps, kept if long enough
+  private detectEpisodes(trend: STTrendPoint[]): STEpisode[] {
+    const candidates: STEpisode[] = [];
+
+    for (const point of trend) {
+      const type = point.deviation >= ELEVATION_MV ? 'elevation' : point.deviation <= DEPRESSION_MV ? 'depression' : null;
+      if (!type) continue;
+
+      const start = point.time - TREND_WINDOW_S / 2;
+      const end = point.time + TREND_WINDOW_S / 2;
+      const last = candidates[candidates.length - 1];
+      if (last && last.type === type && start - last.end < EPISODE_MERGE_GAP_S) {
+        last.end = end;
+        last.duration = last.end - last.start;
+        if (Math.abs(point.deviation) > Math.abs(last.peakDeviation)) last.peakDeviation = point.deviation;
+      } else {
+        candidates.push({ type, start, end, duration: end - start, peakDeviation: point.deviation });
+      }
+    }
+
+    return candidates.filter(episode => episode.duration >= MIN_EPISODE_S);
+  }
+
+  // Mean of the PR segment (P offset to QRS onset), or the fixed window before R
+  private isoelectricLevel(
+    signal: number[],
+    pOffset: PQRSTPoint | null,
+    qrsOnset: PQRSTPoint | null,
+    r: PQRSTPoint
+  ): number | null {
+    if (pOffset && qrsOnset && qrsOnset.index - pOffset.index >= this.ms(LEVEL_WINDOW_MS) && pOffset.index >= 0) {
+      let sum = 0;
+      for (let i = pOffset.index; i <= qrsOnset.index; i++) sum += signal[i];
+      return sum / (qrsOnset.index - pOffset.index + 1);
+    }
+    return BaselineEstimator.prSegmentLevel(signal, this.sampleRate, r.index);
+  }
+
+  private meanLevel(signal: number[], index: number): number {
+    const half = Math.max(1, Math.round(this.ms(LEVEL_WINDOW_MS) / 2));
+    const start = Math.max(0, index - half);
+    const end = Math.min(signal.length - 1, index + half);
+    let sum = 0;
+    for (let i = start; i <= end; i++) sum += signal[i];
+    return sum / (end - start + 1);
+  }
+
+  private classifySlope(slope: number): STSlope {
+    if (!this.calibrated) return 'unknown';
+    if (slope > HORIZONTAL_SLOPE_MV_PER_S) return 'upsloping';
+    if (slope < -HORIZONTAL_SLOPE_MV_PER_S) return 'downsloping';
+    return 'horizontal';
+  }
+
+  private classifyDeviation(deviation: number, slope: STSlope): STStatus {
+    if (!this.calibrated) return 'uncalibrated';
+    if (deviation >= ELEVATION_MV) return 'elevation';
+    const depressionLimit = slope === 'upsloping' ? UPSLOPING_DEPRESSION_MV : DEPRESSION_MV;
+    if (deviation <= depressionLimit) return 'depression';
+    return 'normal';
+  }
+
+  private ms(milliseconds: number): number {
+    return Math.round((milliseconds * this.sampleRate) / 1000);
+  }
+}
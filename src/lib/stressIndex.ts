@@ -0,0 +1,249 @@
+// Stress/recovery assessment from HRV
+// Two validated markers are combined: Baevsky's stress index, SI = AMo / (2 * Mo * MxDMn), from
+// the NN-interval histogram (50 ms bins; Mo = modal interval in s, AMo = % of intervals in the
+// modal bin, MxDMn = range in s), and a z-score of ln(RMSSD) against the user's own rolling
+// baseline (Plews et al. 2013). Each marker is mapped to a score where 0 is typical, positive
+// means sympathetic dominance and negative means recovery; the state follows their mean.
+// Every marker used, plus supporting context, is returned as a factor so the UI can explain it.
+// The baseline is kept across sessions in localStorage as the ln(RMSSD) of non-overlapping windows
+
+export type StressState = 'Analyzing' | 'Relaxed' | 'Neutral' | 'Stressed' | 'High Stress';
+
+export interface StressFactor {
+  name: string;
+  value: number;
+  unit: string;
+  score: number | null; // Contribution to the assessment; null for context-only factors
+  effect: 'stress' | 'recovery' | 'neutral';
+  description: string;
+}
+
+export interface StressAssessment {
+  state: StressState;
+  score: number;             // Mean marker score, about -2 (recovered) to +2 (high stress)
+  confidence: number;        // 0-1: how much data backs it and whether the markers agree
+  stressIndex: number | null;
+  rmssdZScore: number | null;
+  factors: StressFactor[];
+}
+
+export interface StressInput {
+  nn: number[];                  // Artifact-corrected intervals (ms)
+  rmssd: number | null;          // Current windowed RMSSD (ms), compared with the baseline
+  baselineLnRmssd: number[];     // ln(RMSSD) of earlier windows from the same user
+  lfHfRatio?: number | null;     // Context only
+}
+
+export interface StressBaselineEntry {
+  recordedAt: number;    // Window end, ms since epoch
+  windowSeconds: number; // Window length the RMSSD was computed over
+  lnRmssd: number;
+}
+
+export const STRESS_STATE_COLORS: Record<StressState, string> = {
+  Analyzing: '#94a3b8',
+  Relaxed: '#22c55e',
+  Neutral: '#3b82f6',
+  Stressed: '#f97316',
+  'High Stress': '#ef4444'
+};
+
+const HISTOGRAM_BIN_MS = 50;
+const MIN_SI_BEATS = 30;
+const MIN_BASELINE_SAMPLES = 5;
+// SI of a healthy adult at rest is about 50-150; mental stress raises it to 150-500
+const SI_TYPICAL = 100;
+const SI_STRESS = 150;
+const SI_RELAXED = 50;
+// Score bounds and state cut-offs
+const MAX_SCORE = 2;
+const HIGH_STRESS_SCORE = 1;
+const STRESSED_SCORE = 0.4;
+const RELAXED_SCORE = -0.6;
+// Beats for full confidence (about two minutes at rest)
+const FULL_CONFIDENCE_BEATS = 120;
+
+const BASELINE_STORAGE_KEY = 'ecg-stress-baseline';
+// Stored windows: the last two weeks, at most about eight hours of one-minute windows
+const BASELINE_MAX_AGE_MS = 14 * 24 * 60 * 60 * 1000;
+const MAX_BASELINE_ENTRIES = 500;
+
+const clampScore = (value: number) => Math.max(-MAX_SCORE, Math.min(MAX_SCORE, value));
+
+/**
+ * Baevsky stress index of an NN series
+ * @returns null with fewer than 30 intervals or no spread
+ */
+export function baevskyStressIndex(nn: number[]): number | null {
+  if (nn.length < MIN_SI_BEATS) return null;
+
+  const min = Math.min(...nn);
+  const range = (Math.max(...nn) - min) / 1000;
+  if (range <= 0) return null;
+
+  const bins = new Map<number, number>();
+  nn.forEach(value => {
+    const bin = Math.floor((value - min) / HISTOGRAM_BIN_MS);
+    bins.set(bin, (bins.get(bin) ?? 0) + 1);
+  });
+  const [modalBin, modalCount] = [...bins.entries()].sort((a, b) => b[1] - a[1] || a[0] - b[0])[0];
+
+  const mode = (min + (modalBin + 0.5) * HISTOGRAM_BIN_MS) / 1000;
+  const amplitudeOfMode = (modalCount / nn.length) * 100;
+  return amplitudeOfMode / (2 * mode * range);
+}
+
+/**
+ * z-score of the current ln(RMSSD) against a baseline of earlier ln(RMSSD) values
+ * @returns null with fewer than 5 baseline values or no baseline spread
+ */
+export function rmssdZScore(rmssd: number, baselineLnRmssd: number[]): number | null {
+  if (rmssd <= 0 || baselineLnRmssd.length < MIN_BASELINE_SAMPLES) return null;
+
+  const mean = baselineLnRmssd.reduce((sum, v) => sum + v, 0) / baselineLnRmssd.length;
+  const sd = Math.sqrt(
+    baselineLnRmssd.reduce((sum, v) => sum + (v - mean) ** 2, 0) / (baselineLnRmssd.length - 1)
+  );
+  return sd > 0 ? (Math.log(rmssd) - mean) / sd : null;
+}
+
+/**
+ * Combine the stress markers into a state with its contributing factors
+ */
+export function assessStress(input: StressInput): StressAssessment {
+  const factors: StressFactor[] = [];
+  const scores: number[] = [];
+
+  const stressIndex = baevskyStressIndex(input.nn);
+  if (stressIndex !== null) {
+    // One score unit per tripling of SI around the typical resting value
+    const score = clampScore(Math.log(stressIndex / SI_TYPICAL) / Math.log(3));
+    scores.push(score);
+    factors.push({
+      name: 'Baevsky stress index',
+      value: stressIndex,
+      unit: '',
+      score,
+      effect: stressIndex > SI_STRESS ? 'stress' : stressIndex < SI_RELAXED ? 'recovery' : 'neutral',
+      description: stressIndex > SI_STRESS
+        ? `Narrow, peaked RR distribution (SI above ${SI_STRESS}) indicates sympathetic activation`
+        : stressIndex < SI_RELAXED
+          ? `Broad RR distribution (SI below ${SI_RELAXED}) indicates strong vagal tone`
+          : `RR distribution within the typical resting range (SI ${SI_RELAXED}-${SI_STRESS})`
+    });
+  }
+
+  const zScore = input.rmssd !== null ? rmssdZScore(input.rmssd, input.baselineLnRmssd) : null;
+  if (zScore !== null) {
+    // RMSSD below the personal baseline means less vagal activity
+    const score = clampScore(-zScore);
+    scores.push(score);
+    factors.push({
+      name: 'RMSSD vs. baseline',
+      value: zScore,
+      unit: 'SD',
+      score,
+      effect: zScore < -1 ? 'stress' : zScore > 1 ? 'recovery' : 'neutral',
+      description: zScore < -1
+        ? `RMSSD ${input.rmssd?.toFixed(0)} ms is ${Math.abs(zScore).toFixed(1)} SD below your baseline`
+        : zScore > 1
+          ? `RMSSD ${input.rmssd?.toFixed(0)} ms is ${zScore.toFixed(1)} SD above your baseline`
+          : `RMSSD ${input.rmssd?.toFixed(0)} ms is within 1 SD of your baseline`
+    });
+  }
+
+  if (input.lfHfRatio !== undefined && input.lfHfRatio !== null) {
+    factors.push({
+      name: 'LF/HF ratio',
+      value: input.lfHfRatio,
+      unit: '',
+      score: null,
+      effect: input.lfHfRatio > 2 ? 'stress' : input.lfHfRatio < 0.5 ? 'recovery' : 'neutral',
+      description: 'Context only: LF/HF depends strongly on breathing rate and is not scored'
+    });
+  }
+
+  if (scores.length === 0) {
+    return { state: 'Analyzing', score: 0, confidence: 0, stressIndex, rmssdZScore: zScore, factors };
+  }
+
+  const score = scores.reduce((sum, s) => sum + s, 0) / scores.length;
+  const state: StressState = score >= HIGH_STRESS_SCORE
+    ? 'High Stress'
+    : score >= STRESSED_SCORE
+      ? 'Stressed'
+      : score <= RELAXED_SCORE
+        ? 'Relaxed'
+        : 'Neutral';
+
+  // Full confidence needs enough beats and the two markers agreeing
+  const dataConfidence = Math.min(1, input.nn.length / FULL_CONFIDENCE_BEATS);
+  const agreement = scores.length < 2 ? 0.7 : 1 - Math.min(0.5, Math.abs(scores[0] - scores[1]) / 4);
+
+  return {
+    state,
+    score,
+    confidence: Math.max(0, Math.min(1, dataConfidence * agreement)),
+    stressIndex,
+    rmssdZScore: zScore,
+    factors
+  };
+}
+
+/**
+ * Personal ln(RMSSD) baseline persisted in localStorage across sessions, oldest first
+ */
+export class StressBaselineStore {
+  private storageKey: string;
+
+  constructor(storageKey: string = BASELINE_STORAGE_KEY) {
+    this.storageKey = storageKey;
+  }
+
+  getEntries(): StressBaselineEntry[] {
+    if (typeof window === 'undefined') return [];
+    try {
+      const entries = JSON.parse(localStorage.getItem(this.storageKey) || '[]');
+      return Array.isArray(entries) ? entries : [];
+    } catch {
+      return [];
+    }
+  }
+
+  /**
+   * Store a window's RMSSD unless it overlaps a stored window of the same length, so
+   * successive steps of one session don't enter the baseline twice
+   */
+  add(rmssd: number, windowSeconds: number, recordedAt: number = Date.now()): void {
+    if (typeof window === 'undefined' || rmssd <= 0) return;
+    // Windows sharing under a second (clock rounding between adjacent windows) don't overlap
+    const span = windowSeconds * 1000 - 1000;
+    const entries = this.getEntries();
+    if (entries.some(e => e.windowSeconds === windowSeconds && Math.abs(e.recordedAt - recordedAt) < span)) return;
+
+    const kept = entries
+      .concat({ recordedAt, windowSeconds, lnRmssd: Math.log(rmssd) })
+      .filter(e => e.recordedAt > recordedAt - BASELINE_MAX_AGE_MS)
+      .sort((a, b) => a.recordedAt - b.recordedAt)
+      .slice(-MAX_BASELINE_ENTRIES);
+    localStorage.setItem(this.storageKey, JSON.stringify(kept));
+  }
+
+  /**
+   * ln(RMSSD) of the stored windows of this length that ended before the current window began
+   * @param windowStart Start of the current window, ms since epoch
+   */
+  getBaseline(windowStart: number, windowSeconds: number): number[] {
+    return this.getEntries()
+      .filter(e =>
+        e.windowSeconds === windowSeconds &&
+        e.recordedAt <= windowStart &&
+        e.recordedAt > windowStart - BASELINE_MAX_AGE_MS
+      )
+      .map(e => e.lnRmssd);
+  }
+
+  clear(): void {
+    localStorage.removeItem(this.storageKey);
+  }
+}
@@ -0,0 +1,239 @@
+import { atrousDerivatives } from './wavelet';
+
+// Wavelet-based ECG delineation after Martinez et al. (IEEE TBME 2004)
+// QRS boundaries come from a fine scale, P and T waves from coarse scales computed on a
+// copy of the signal with each QRS replaced by a straight line, so QRS energy cannot
+// leak into the P/T search windows. All positions are sample indices into the input
+
+export interface BeatDelineation {
+    rPeak: number;
+    pOnset: number | null;
+    pPeak: number | null;
+    pOffset: number | null;
+    qrsOnset: number | null;
+    qrsOffset: number | null;
+    tPeak: number | null;
+    tOffset: number | null;
+}
+
+// Scales were chosen at 250 Hz (Martinez); higher sample rates shift them up an octave
+const QRS_SCALE_250HZ = 2;
+const P_SCALE_250HZ = 3;
+const T_SCALE_250HZ = 4;
+
+// Boundary thresholds, as fractions of the modulus maximum the search starts from
+const QRS_ONSET_RATIO = 0.05;
+const QRS_OFFSET_RATIO = 0.125;
+const P_ONSET_RATIO = 0.5;
+const P_OFFSET_RATIO = 0.6;
+const T_OFFSET_RATIO = 0.6;
+
+// Q and S slopes must reach this fraction of the main R slope to extend the QRS
+const QRS_SIDE_SLOPE_RATIO = 0.1;
+// P and T need a slope pair above this fraction of the QRS slope at the same scale
+const P_SIGNIFICANCE = 0.03;
+const T_SIGNIFICANCE = 0.05;
+// The weaker slope of a wave must be at least this fraction of the stronger one
+const SLOPE_PAIR_BALANCE = 0.25;
+// A P or T wave is one isolated slope pair; more comparable slopes in the window mean
+// fibrillatory/flutter waves or noise rather than a wave
+const MAX_COMPARABLE_SLOPES = 3;
+const COMPARABLE_SLOPE_RATIO = 0.5;
+
+export class WaveDelineator {
+    private sampleRate: number;
+    private qrsScale: number;
+    private pScale: number;
+    private tScale: number;
+
+    constructor(sampleRate: number = 360) {
+        this.sampleRate = sampleRate;
+        const offset = Math.max(0, Math.round(Math.log2(sampleRate / 250)));
+        this.qrsScale = QRS_SCALE_250HZ + offset;
+        this.pScale = P_SCALE_250HZ + offset;
+        this.tScale = T_SCALE_250HZ + offset;
+    }
+
+    /**
+     * Delineate every beat
+     * @param data - Filtered ECG samples
+     * @param rPeaks - R-peak indices, ascending
+     * @returns One delineation per R-peak; waves that could not be found are null
+     */
+    delineate(data: number[], rPeaks: number[]): BeatDelineation[] {
+        if (data.length === 0 || rPeaks.length === 0) return [];
+
+        const qrsW = atrousDerivatives(data, this.qrsScale)[this.qrsScale - 1];
+        const beats: BeatDelineation[] = rPeaks.map(rPeak => ({
+            rPeak,
+            ...this.findQRSBoundaries(qrsW, rPeak),
+            pOnset: null,
+            pPeak: null,
+            pOffset: null,
+            tPeak: null,
+            tOffset: null
+        }));
+
+        // QRS slope at the P/T scales on the original signal is the reference for significance
+        const coarse = atrousDerivatives(data, this.tScale);
+        const suppressedScales = atrousDerivatives(this.suppressQRS(data, beats), this.tScale);
+        const pW = suppressedScales[this.pScale - 1];
+        const tW = suppressedScales[this.tScale - 1];
+        const qrsHalfWidth = this.ms(60);
+
+        beats.forEach((beat, i) => {
+            const rr = this.estimateRR(rPeaks, i);
+
+            // ---------- T WAVE ----------
+            const tStart = Math.max(beat.rPeak + this.ms(100), (beat.qrsOffset ?? beat.rPeak) + this.ms(20));
+            const tEnd = Math.min(
+                data.length - 1,
+                beat.rPeak + (rr > this.ms(700) ? this.ms(500) : Math.round(0.7 * rr)),
+                i + 1 < rPeaks.length ? rPeaks[i + 1] - this.ms(100) : Infinity
+            );
+            const tReference = this.peakModulus(coarse[this.tScale - 1], beat.rPeak - qrsHalfWidth, beat.rPeak + qrsHalfWidth);
+            const tWave = this.findWave(tW, tStart, tEnd, T_SIGNIFICANCE * tReference);
+            if (tWave) {
+                beat.tPeak = tWave.peak;
+                beat.tOffset = this.walkToBoundary(tW, tWave.last, 1, T_OFFSET_RATIO, tEnd + this.ms(100));
+            }
+
+            // ---------- P WAVE ----------
+            const previousT = i > 0 ? beats[i - 1].tOffset ?? beats[i - 1].tPeak : null;
+            const qrsOnset = beat.qrsOnset ?? beat.rPeak - this.ms(40);
+            const pStart = Math.max(0, qrsOnset - this.ms(300), previousT !== null ? previousT : 0);
+            const pEnd = qrsOnset - this.ms(10);
+            const pReference = this.peakModulus(coarse[this.pScale - 1], beat.rPeak - qrsHalfWidth, beat.rPeak + qrsHalfWidth);
+            const pWave = this.findWave(pW, pStart, pEnd, P_SIGNIFICANCE * pReference);
+            if (pWave) {
+                beat.pPeak = pWave.peak;
+                beat.pOnset = this.walkToBoundary(pW, pWave.first, -1, P_ONSET_RATIO, pStart - this.ms(50));
+                beat.pOffset = Math.min(
+                    this.walkToBoundary(pW, pWave.last, 1, P_OFFSET_RATIO, qrsOnset),
+                    qrsOnset - 1
+                );
+            }
+        });
+
+        return beats;
+    }
+
+    // Outermost significant slopes around R, then walk out to where the slope fades
+    private findQRSBoundaries(w: number[], rPeak: number): { qrsOnset: number | null; qrsOffset: number | null } {
+        const n = w.length;
+        const pre = Math.max(0, rPeak - this.ms(100));
+        const post = Math.min(n - 1, rPeak + this.ms(120));
+        if (rPeak <= pre || rPeak >= post) return { qrsOnset: null, qrsOffset: null };
+
+        // Main R upstroke and downstroke
+        let first = this.argMaxModulus(w, pre, rPeak);
+        let last = this.argMaxModulus(w, rPeak, post);
+        const mainSlope = Math.max(Math.abs(w[first]), Math.abs(w[last]));
+        if (mainSlope === 0) return { qrsOnset: null, qrsOffset: null };
+
+        // A Q wave adds an opposite-sign slope before the upstroke, an S wave one after the downstroke
+        const q = this.argMaxModulus(w, Math.max(0, first - this.ms(50)), first, -Math.sign(w[first]));
+        if (q !== first && Math.abs(w[q]) > QRS_SIDE_SLOPE_RATIO * mainSlope) first = q;
+        const s = this.argMaxModulus(w, last, Math.min(n - 1, last + this.ms(50)), -Math.sign(w[last]));
+        if (s !== last && Math.abs(w[s]) > QRS_SIDE_SLOPE_RATIO * mainSlope) last = s;
+
+        return {
+            qrsOnset: this.walkToBoundary(w, first, -1, QRS_ONSET_RATIO, rPeak - this.ms(150)),
+            qrsOffset: this.walkToBoundary(w, last, 1, QRS_OFFSET_RATIO, rPeak + this.ms(180))
+        };
+    }
+
+    // Largest positive and negative slopes in the window; the wave peak is the zero crossing between them
+    private findWave(
+        w: number[],
+        start: number,
+        end: number,
+        threshold: number
+    ): { first: number; peak: number; last: number } | null {
+        if (end - start < this.ms(40) || start < 0 || end >= w.length) return null;
+
+        const maxIdx = this.argMaxModulus(w, start, end, 1);
+        const minIdx = this.argMaxModulus(w, start, end, -1);
+        const strong = Math.max(w[maxIdx], -w[minIdx]);
+        const weak = Math.min(w[maxIdx], -w[minIdx]);
+        if (strong < threshold || weak < SLOPE_PAIR_BALANCE * strong) return null;
+
+        // Counted from 100 ms before the window: fibrillatory waves carry on, the TP segment before a P is quiet
+        let comparable = 0;
+        for (let i = Math.max(1, start - this.ms(100)); i < end; i++) {
+            const modulus = Math.abs(w[i]);
+            if (modulus >= Math.abs(w[i - 1]) && modulus > Math.abs(w[i + 1]) && modulus > COMPARABLE_SLOPE_RATIO * strong) {
+                comparable++;
+            }
+        }
+        if (comparable > MAX_COMPARABLE_SLOPES) return null;
+
+        const first = Math.min(maxIdx, minIdx);
+        const last = Math.max(maxIdx, minIdx);
+        let peak = first;
+        for (let i = first; i < last; i++) {
+            if (Math.sign(w[i]) !== Math.sign(w[i + 1])) {
+                peak = Math.abs(w[i]) < Math.abs(w[i + 1]) ? i : i + 1;
+                break;
+            }
+        }
+
+        return { first, peak, last };
+    }
+
+    // Step away from a modulus maximum until |W| falls below ratio of it or reaches a local minimum
+    private walkToBoundary(w: number[], from: number, direction: 1 | -1, ratio: number, limit: number): number {
+        const threshold = ratio * Math.abs(w[from]);
+        const bound = Math.max(0, Math.min(w.length - 1, limit));
+        let i = from;
+
+        while (i !== bound) {
+            const next = i + direction;
+            if (Math.abs(w[next]) < threshold) return next;
+            if (Math.abs(w[next]) > Math.abs(w[i]) && Math.abs(w[i]) < Math.abs(w[from])) return i; // Local minimum
+            i = next;
+        }
+        return bound;
+    }
+
+    // Replace each QRS by a straight line between its boundaries
+    private suppressQRS(data: number[], beats: BeatDelineation[]): number[] {
+        const output = [...data];
+        for (const beat of beats) {
+            const start = Math.max(0, beat.qrsOnset ?? beat.rPeak - this.ms(50));
+            const end = Math.min(data.length - 1, beat.qrsOffset ?? beat.rPeak + this.ms(70));
+            for (let i = start + 1; i < end; i++) {
+                output[i] = data[start] + ((data[end] - data[start]) * (i - start)) / (end - start);
+            }
+        }
+        return output;
+    }
+
+    private estimateRR(rPeaks: number[], i: number): number {
+        if (i > 0) return rPeaks[i] - rPeaks[i - 1];
+        if (i + 1 < rPeaks.length) return rPeaks[i + 1] - rPeaks[i];
+        return this.sampleRate; // 60 BPM when there is a single beat
+    }
+
+    // Index of the largest |W| (sign > 0: largest W, sign < 0: most negative W) in [start, end]
+    private argMaxModulus(w: number[], start: number, end: number, sign: number = 0): number {
+        let best = start;
+        let bestValue = -Infinity;
+        for (let i = Math.max(0, start); i <= Math.min(w.length - 1, end); i++) {
+            const value = sign === 0 ? Math.abs(w[i]) : sign * w[i];
+            if (value > bestValue) {
+                bestValue = value;
+                best = i;
+            }
+        }
+        return best;
+    }
+
+    private peakModulus(w: number[], start: number, end: number): number {
+        return Math.abs(w[this.argMaxModulus(w, start, end)]);
+    }
+
+    private ms(milliseconds: number): number {
+        return Math.round((milliseconds * this.sampleRate) / 1000);
+    }
+}
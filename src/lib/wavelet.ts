@@ -0,0 +1,88 @@
+// Undecimated ("à trous") wavelet helpers
+// Each level convolves with the kernel upsampled by 2^level, so every level keeps
+// the original signal length and sample alignment (no decimation, no phase shift)
+
+// Cubic B-spline scaling kernel (starlet transform), symmetric and DC-preserving
+export const B3_SPLINE_KERNEL = [1 / 16, 4 / 16, 6 / 16, 4 / 16, 1 / 16];
+
+// Mirror an out-of-range index back into [0, length)
+function reflectIndex(i: number, length: number): number {
+  if (length === 1) return 0;
+  const period = 2 * (length - 1);
+  let idx = Math.abs(i) % period;
+  if (idx >= length) idx = period - idx;
+  return idx;
+}
+
+/**
+ * One à trous smoothing step with a symmetric odd-length kernel
+ * @param signal - Input samples
+ * @param kernel - Symmetric scaling kernel
+ * @param level - Decomposition level (kernel taps are spaced 2^level apart)
+ */
+export function atrousStep(signal: number[], kernel: number[], level: number): number[] {
+  const n = signal.length;
+  const half = Math.floor(kernel.length / 2);
+  const step = Math.pow(2, level);
+  const output = new Array(n).fill(0);
+
+  for (let i = 0; i < n; i++) {
+    let sum = 0;
+    for (let k = 0; k < kernel.length; k++) {
+      sum += kernel[k] * signal[reflectIndex(i + (k - half) * step, n)];
+    }
+    output[i] = sum;
+  }
+
+  return output;
+}
+
+/**
+ * Approximation (smooth) coefficients after the given number of levels
+ * @param signal - Input samples
+ * @param levels - Number of decomposition levels
+ * @param kernel - Symmetric scaling kernel (defaults to the B3 spline)
+ */
+export function atrousApproximation(
+  signal: number[],
+  levels: number,
+  kernel: number[] = B3_SPLINE_KERNEL
+): number[] {
+  let approximation = [...signal];
+  for (let level = 0; level < levels; level++) {
+    approximation = atrousStep(approximation, kernel, level);
+  }
+  return approximation;
+}
+
+/**
+ * Smoothed-derivative wavelet coefficients at dyadic scales 2^1..2^levels
+ * W_k[n] = A_k[n + 2^(k-1)] - A_k[n - 2^(k-1)], with A_k the level-k approximation, which
+ * behaves like the quadratic-spline wavelet of Martinez et al. but stays zero-phase:
+ * zero crossings of W_k mark wave peaks and its modulus maxima mark the steepest slopes
+ * @param signal - Input samples
+ * @param levels - Number of scales
+ * @param kernel - Symmetric scaling kernel (defaults to the B3 spline)
+ * @returns One coefficient array per scale, index 0 holding scale 2^1
+ */
+export function atrousDerivatives(
+  signal: number[],
+  levels: number,
+  kernel: number[] = B3_SPLINE_KERNEL
+): number[][] {
+  const n = signal.length;
+  const scales: number[][] = [];
+  let approximation = [...signal];
+
+  for (let level = 0; level < levels; level++) {
+    approximation = atrousStep(approximation, kernel, level);
+    const step = Math.pow(2, level);
+    const detail = new Array(n);
+    for (let i = 0; i < n; i++) {
+      detail[i] = approximation[reflectIndex(i + step, n)] - approximation[reflectIndex(i - step, n)];
+    }
+    scales.push(detail);
+  }
+
+  return scales;
+}